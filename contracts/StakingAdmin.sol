@@ -2,50 +2,342 @@
 pragma solidity ^0.8.29;
 
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import "./StakingProxy.sol";
+import "./StakingModule.sol";
 import "./interfaces/IStakingAdmin.sol";
 import "./interfaces/Errors.sol";
 
-abstract contract StakingAdmin is IStakingAdmin, StakingProxy {
+/**
+ * @title StakingAdmin
+ * @dev StakingManager module for the administrative functions.
+ */
+contract StakingAdmin is IStakingAdmin, StakingModule {
     using SafeERC20 for IERC20;
+
+    constructor(address _nextModule) StakingModule(_nextModule) {}
+
+    /**
+     * @dev Allows the fee manager to schedule a new performance fee rate.
+     * The change applies after `feeRateChangeDelay`, or immediately when no delay is configured.
+     * Fees earned under the previous rate are crystallized when it applies.
+     * @param _performanceFeeRate The new performance fee rate in basis points.
+     */
+    function setPerformanceFeeRate(uint256 _performanceFeeRate) external onlyRole(FEE_MANAGER_ROLE) {
+        if (_performanceFeeRate > MAX_PERFORMANCE_FEE_RATE) revert Errors.InvalidFeeRate();
+        FeeRates memory rates = _nextFeeRates();
+        rates.performanceFeeRate = _performanceFeeRate;
+        _scheduleFeeRateChange(rates);
+    }
+
+    /**
+     * @dev Allows the fee manager to schedule a new annual management fee rate.
+     * The change applies after `feeRateChangeDelay`, or immediately when no delay is configured.
+     * Fees streamed under the previous rate are recorded when it applies.
+     * @param _managementFeeRate The new annual management fee rate in basis points.
+     */
+    function setManagementFeeRate(uint256 _managementFeeRate) external onlyRole(FEE_MANAGER_ROLE) {
+        if (_managementFeeRate > MAX_FEE_RATE) revert Errors.InvalidFeeRate();
+        FeeRates memory rates = _nextFeeRates();
+        rates.managementFeeRate = _managementFeeRate;
+        _scheduleFeeRateChange(rates);
+    }
+
     /**
-     * @dev Allows the owner to set the input fee rate for staking operations.
+     * @dev Allows the fee manager to schedule a new input fee rate for staking operations.
+     * The change applies after `feeRateChangeDelay`, or immediately when no delay is configured.
      * @param _inputFeeRate The new input fee rate in basis points (1 basis point = 0.01%).
      */
-    function setInputFeeRate(uint256 _inputFeeRate) external onlyOwner {
+    function setInputFeeRate(uint256 _inputFeeRate) external onlyRole(FEE_MANAGER_ROLE) {
         if (_inputFeeRate > MAX_FEE_RATE) revert Errors.InvalidFeeRate();
-        
-        uint256 oldFeeRate = inputFeeRate;
-        inputFeeRate = _inputFeeRate;
-        
-        emit Events.InputFeeRateUpdated(oldFeeRate, _inputFeeRate);
+        FeeRates memory rates = _nextFeeRates();
+        rates.inputFeeRate = _inputFeeRate;
+        _scheduleFeeRateChange(rates);
     }
 
     /**
-     * @dev Allows the owner to set the output fee rate for unstaking operations.
+     * @dev Allows the fee manager to schedule a new output fee rate for unstaking operations.
+     * The change applies after `feeRateChangeDelay`, or immediately when no delay is configured.
      * @param _outputFeeRate The new output fee rate in basis points (1 basis point = 0.01%).
      */
-    function setOutputFeeRate(uint256 _outputFeeRate) external onlyOwner {
+    function setOutputFeeRate(uint256 _outputFeeRate) external onlyRole(FEE_MANAGER_ROLE) {
         if (_outputFeeRate > MAX_FEE_RATE) revert Errors.InvalidFeeRate();
-        
-        uint256 oldFeeRate = outputFeeRate;
-        outputFeeRate = _outputFeeRate;
-        
-        emit Events.OutputFeeRateUpdated(oldFeeRate, _outputFeeRate);
+        FeeRates memory rates = _nextFeeRates();
+        rates.outputFeeRate = _outputFeeRate;
+        _scheduleFeeRateChange(rates);
+    }
+
+    /**
+     * @dev Applies the pending fee rate change once its activation time has been reached.
+     */
+    function executeFeeRateChange() external onlyRole(FEE_MANAGER_ROLE) {
+        uint256 activationTime = pendingFeeRateChange.activationTime;
+        if (activationTime == 0) revert Errors.NoPendingFeeRateChange();
+        if (block.timestamp < activationTime) revert Errors.FeeRateChangeNotReady(activationTime);
+        _executeFeeRateChange();
+    }
+
+    /**
+     * @dev Cancels the pending fee rate change.
+     */
+    function cancelFeeRateChange() external onlyRole(FEE_MANAGER_ROLE) {
+        if (pendingFeeRateChange.activationTime == 0) revert Errors.NoPendingFeeRateChange();
+        FeeRates memory rates = _nextFeeRates();
+        _clearFeeRateChange();
+
+        emit Events.FeeRateChangeCancelled(
+            rates.inputFeeRate,
+            rates.outputFeeRate,
+            rates.managementFeeRate,
+            rates.performanceFeeRate
+        );
+    }
+
+    /**
+     * @dev Allows the admin to set the minimum delay applied to fee rate changes.
+     * A longer delay applies immediately, while a shorter one is scheduled and only applies once
+     * the current delay has passed. Setting a delay replaces any pending reduction.
+     * Already scheduled changes keep their activation time.
+     * @param _feeRateChangeDelay The new delay in seconds.
+     */
+    function setFeeRateChangeDelay(uint256 _feeRateChangeDelay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_feeRateChangeDelay > MAX_FEE_RATE_CHANGE_DELAY) revert Errors.InvalidFeeRateChangeDelay();
+        delete pendingFeeRateChangeDelay;
+
+        if (_feeRateChangeDelay < feeRateChangeDelay) {
+            uint256 activationTime = block.timestamp + feeRateChangeDelay;
+            pendingFeeRateChangeDelay = FeeRateChangeDelayChange(_feeRateChangeDelay, activationTime);
+            emit Events.FeeRateChangeDelayScheduled(_feeRateChangeDelay, activationTime);
+        } else {
+            _setFeeRateChangeDelay(_feeRateChangeDelay);
+        }
+    }
+
+    /**
+     * @dev Applies the pending fee rate change delay reduction once its activation time has been reached.
+     */
+    function executeFeeRateChangeDelay() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        FeeRateChangeDelayChange memory change = pendingFeeRateChangeDelay;
+        if (change.activationTime == 0) revert Errors.NoPendingFeeRateChangeDelay();
+        if (block.timestamp < change.activationTime) revert Errors.FeeRateChangeNotReady(change.activationTime);
+        delete pendingFeeRateChangeDelay;
+        _setFeeRateChangeDelay(change.delay);
+    }
+
+    /**
+     * @dev Allows the fee manager to exempt an account from input and output fees.
+     * @param account The account to update.
+     * @param exempt Whether the account pays no fees.
+     */
+    function setFeeExemption(address account, bool exempt) external onlyRole(FEE_MANAGER_ROLE) notZeroAddress(account) {
+        isFeeExempt[account] = exempt;
+
+        emit Events.FeeExemptionUpdated(account, exempt);
+    }
+
+    /**
+     * @dev Allows the fee manager to replace the volume-based fee tiers.
+     * An account uses the tier with the highest threshold not above its share balance,
+     * and never pays more than the global fee rates.
+     * @param minShares The share balance thresholds in strictly ascending order.
+     * @param inputFeeRates The input fee rate of each tier in basis points.
+     * @param outputFeeRates The output fee rate of each tier in basis points.
+     */
+    function setFeeTiers(
+        uint256[] calldata minShares,
+        uint256[] calldata inputFeeRates,
+        uint256[] calldata outputFeeRates
+    ) external onlyRole(FEE_MANAGER_ROLE) {
+        if (minShares.length != inputFeeRates.length || minShares.length != outputFeeRates.length) {
+            revert Errors.ArrayLengthMismatch();
+        }
+        if (minShares.length > MAX_FEE_TIERS) revert Errors.InvalidFeeTiers();
+
+        delete feeTiers;
+        for (uint256 i = 0; i < minShares.length; ++i) {
+            if (i > 0 && minShares[i] <= minShares[i - 1]) revert Errors.InvalidFeeTiers();
+            if (inputFeeRates[i] > MAX_FEE_RATE || outputFeeRates[i] > MAX_FEE_RATE) revert Errors.InvalidFeeRate();
+            feeTiers.push(FeeTier(minShares[i], inputFeeRates[i], outputFeeRates[i]));
+        }
+
+        emit Events.FeeTiersUpdated(minShares, inputFeeRates, outputFeeRates);
+    }
+
+    /**
+     * @dev Returns the configured fee tiers.
+     */
+    function getFeeTiers() external view returns (FeeTier[] memory) {
+        return feeTiers;
+    }
+
+    /**
+     * @dev Allows the fee manager to replace the lock terms offered to holders.
+     * Existing locks keep the terms they were created with.
+     * @param durations The lock durations in strictly ascending order, at most MAX_LOCK_DURATION.
+     * @param outputFeeRates The output fee rate applied on unlocks after maturity, in basis points.
+     * @param earlyUnlockPenalties The share of locked shares moved to the fee bucket on early unlocks, in basis points.
+     */
+    function setLockTerms(
+        uint256[] calldata durations,
+        uint256[] calldata outputFeeRates,
+        uint256[] calldata earlyUnlockPenalties
+    ) external onlyRole(FEE_MANAGER_ROLE) {
+        if (durations.length != outputFeeRates.length || durations.length != earlyUnlockPenalties.length) {
+            revert Errors.ArrayLengthMismatch();
+        }
+        if (durations.length > MAX_LOCK_TERMS) revert Errors.InvalidLockTerms();
+
+        delete lockTerms;
+        for (uint256 i = 0; i < durations.length; ++i) {
+            if (durations[i] == 0 || durations[i] > MAX_LOCK_DURATION) revert Errors.InvalidLockTerms();
+            if (i > 0 && durations[i] <= durations[i - 1]) revert Errors.InvalidLockTerms();
+            if (earlyUnlockPenalties[i] > MAX_EARLY_UNLOCK_PENALTY) revert Errors.InvalidLockTerms();
+            if (outputFeeRates[i] > MAX_FEE_RATE) revert Errors.InvalidFeeRate();
+            lockTerms.push(LockTerm(durations[i], outputFeeRates[i], earlyUnlockPenalties[i]));
+        }
+
+        emit Events.LockTermsUpdated(durations, outputFeeRates, earlyUnlockPenalties);
+    }
+
+    /**
+     * @dev Allows the fee manager to set the share of the input fee credited to referrers.
+     * @param _referralFeeShare The share in basis points, at most MAX_REFERRAL_FEE_SHARE.
+     */
+    function setReferralFeeShare(uint256 _referralFeeShare) external onlyRole(FEE_MANAGER_ROLE) {
+        if (_referralFeeShare > MAX_REFERRAL_FEE_SHARE) revert Errors.InvalidReferralFeeShare();
+
+        uint256 oldShare = referralFeeShare;
+        referralFeeShare = _referralFeeShare;
+
+        emit Events.ReferralFeeShareUpdated(oldShare, _referralFeeShare);
     }
 
     /**
-     * @dev Allows the owner to withdraw staked fee shares by redeeming them for assets.
+     * @dev Returns the configured lock terms.
+     */
+    function getLockTerms() external view returns (LockTerm[] memory) {
+        return lockTerms;
+    }
+
+    /**
+     * @dev Returns the input and output fee rates an account pays after exemptions and tiers.
+     * @param account The account depositing or withdrawing.
+     */
+    function effectiveFeeRates(address account) external view returns (uint256 input, uint256 output) {
+        return _feeRatesFor(account, account);
+    }
+
+    /**
+     * @dev Allows the admin to set the deposit limits for guarded launches.
+     * @param _depositCap The maximum total assets (0 = unlimited).
+     * @param _walletDepositCap The maximum assets per receiver (0 = unlimited).
+     * @param _minDeposit The minimum assets per deposit.
+     */
+    function setDepositLimits(
+        uint256 _depositCap,
+        uint256 _walletDepositCap,
+        uint256 _minDeposit
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        depositCap = _depositCap;
+        walletDepositCap = _walletDepositCap;
+        minDeposit = _minDeposit;
+
+        emit Events.DepositLimitsUpdated(_depositCap, _walletDepositCap, _minDeposit);
+    }
+
+    /**
+     * @dev Allows the admin to set the cooldown of queued withdrawals.
+     * @param _withdrawalCooldown The cooldown in seconds, at most MAX_WITHDRAWAL_COOLDOWN.
+     */
+    function setWithdrawalCooldown(uint256 _withdrawalCooldown) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_withdrawalCooldown > MAX_WITHDRAWAL_COOLDOWN) revert Errors.InvalidWithdrawalCooldown();
+
+        uint256 oldCooldown = withdrawalCooldown;
+        withdrawalCooldown = _withdrawalCooldown;
+
+        emit Events.WithdrawalCooldownUpdated(oldCooldown, _withdrawalCooldown);
+    }
+
+    /**
+     * @dev Allows the admin to register a token that is streamed to share holders.
+     * @param token The reward token, neither the asset nor the share token.
+     */
+    function addRewardToken(address token) external onlyRole(DEFAULT_ADMIN_ROLE) notZeroAddress(token) {
+        if (token == asset() || token == address(this) || _isRewardToken(token)) revert Errors.InvalidRewardToken();
+        if (rewardTokens.length >= MAX_REWARD_TOKENS) revert Errors.TooManyRewardTokens();
+        rewardTokens.push(token);
+
+        emit Events.RewardTokenAdded(token);
+    }
+
+    /**
+     * @dev Allows the admin to stream reward tokens to share holders between `startTime` and `endTime`.
+     * The new stream replaces the current one and carries over what it has not streamed yet, together
+     * with any unallocated balance, such as rewards the vaults paid out to this contract.
+     * @param token The registered reward token.
+     * @param amount The tokens pulled from the caller, zero to only stream the balance already held.
+     * @param startTime The start of the stream, not in the past.
+     * @param endTime The end of the stream.
+     */
+    function fundRewards(
+        address token,
+        uint256 amount,
+        uint256 startTime,
+        uint256 endTime
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) nonReentrant {
+        if (!_isRewardToken(token)) revert Errors.RewardTokenNotRegistered(token);
+        if (startTime < block.timestamp || endTime <= startTime) revert Errors.InvalidRewardSchedule();
+        _accrueReward(token);
+
+        RewardStream storage stream = rewardStreams[token];
+        uint256 from = stream.startTime > block.timestamp ? stream.startTime : block.timestamp;
+        uint256 leftover = stream.endTime > from ? (stream.endTime - from) * stream.rate : 0;
+        if (amount > 0) IERC20(token).safeTransferFrom(_msgSender(), address(this), amount);
+
+        // Everything held that is not owed to holders yet goes into the new stream
+        uint256 owed = rewardReserved[token] - leftover;
+        uint256 total = IERC20(token).balanceOf(address(this)) - owed;
+        uint256 rate = total / (endTime - startTime);
+        if (rate == 0) revert Errors.AmountMustBeGreaterThanZero();
+
+        stream.rate = rate;
+        stream.startTime = startTime;
+        stream.endTime = endTime;
+        rewardReserved[token] = owed + rate * (endTime - startTime);
+
+        emit Events.RewardsFunded(token, total, rate, startTime, endTime);
+    }
+
+    /**
+     * @dev Returns the registered reward tokens.
+     */
+    function getRewardTokens() external view returns (address[] memory) {
+        return rewardTokens;
+    }
+
+    /**
+     * @dev Returns the rewards `account` can claim for `token` right now.
+     * @param token The reward token.
+     * @param account The share holder.
+     */
+    function pendingRewards(address token, address account) external view returns (uint256) {
+        uint256 rewardPerShare = _currentRewardPerShare(token);
+        return accruedRewards[token][account] +
+            Math.mulDiv(_rewardBalance(account), rewardPerShare - rewardPerSharePaid[token][account], REWARD_PRECISION);
+    }
+
+    /**
+     * @dev Allows the treasurer to withdraw staked fee shares by redeeming them for assets.
      * @param recipient The address to receive the redeemed assets.
      * @param shares The number of fee shares to redeem.
      */
-    function withdrawFeeShares(address recipient, uint256 shares) external onlyOwner notZeroAddress(recipient) amountGreaterThanZero(shares) {
-        if (shares > totalFeeShares) revert Errors.InsufficientFeeShares();
-        
-        // Update total fee shares
-        totalFeeShares -= shares;
-        // Redeem shares for assets
-        uint256 assets = stakingVault.redeem(shares, address(this), address(this));
+    function withdrawFeeShares(address recipient, uint256 shares) external onlyRole(TREASURER_ROLE) notZeroAddress(recipient) amountGreaterThanZero(shares) {
+        _accrueFees();
+        uint256 assets;
+        if (isShutdown) {
+            // After a shutdown `shares` are the StakingManager shares held for the fee bucket
+            assets = _redeemShutdownFeeShares(shares);
+        } else {
+            assets = _redeemFeeShares(shares);
+        }
         // Transfer assets to recipient
         IERC20(asset()).safeTransfer(recipient, assets);
         
@@ -53,70 +345,106 @@ abstract contract StakingAdmin is IStakingAdmin, StakingProxy {
     }
 
     /**
-     * @dev Returns the total assets from staked fees.
-     * @return The total assets that can be redeemed from fee shares.
+     * @dev Allows the treasurer to mint fees as StakingManager shares to `treasury` instead of
+     * keeping them in the fee bucket. The current fee bucket is converted right away.
+     * @param treasury The account receiving fee shares, or the zero address to keep fees in the fee bucket.
      */
-    function totalFeeAssets() external view returns (uint256) {
-        return stakingVault.previewRedeem(totalFeeShares);
+    function setFeeTreasury(address treasury) external onlyRole(TREASURER_ROLE) nonReentrant notShutdown(isShutdown) {
+        _accrueFees();
+        address oldTreasury = feeTreasury;
+        feeTreasury = treasury;
+        _mintTreasuryFees();
+
+        emit Events.FeeTreasuryUpdated(oldTreasury, treasury);
     }
 
     /**
-     * @dev Pauses stake and unstake operations. Can only be called by the owner.
+     * @dev Allows the treasurer to replace the fee recipients and their weights.
+     * Weights are in basis points and must add up to TOTAL_FEE_WEIGHT.
+     * @param accounts The addresses receiving fees.
+     * @param weights The share of fees each address receives.
      */
-    function pause() external onlyOwner {
-        _pause();
+    function setFeeRecipients(address[] calldata accounts, uint256[] calldata weights) external onlyRole(TREASURER_ROLE) {
+        if (accounts.length != weights.length) revert Errors.ArrayLengthMismatch();
+        if (accounts.length == 0 || accounts.length > MAX_FEE_RECIPIENTS) revert Errors.InvalidFeeRecipientsCount();
+
+        delete feeRecipients;
+        uint256 totalWeight;
+        for (uint256 i = 0; i < accounts.length; ++i) {
+            if (accounts[i] == address(0)) revert Errors.ZeroAddress();
+            if (weights[i] == 0) revert Errors.AmountMustBeGreaterThanZero();
+            totalWeight += weights[i];
+            feeRecipients.push(FeeRecipient(accounts[i], weights[i]));
+        }
+        if (totalWeight != TOTAL_FEE_WEIGHT) revert Errors.InvalidFeeRecipientWeights();
+
+        emit Events.FeeRecipientsUpdated(accounts, weights);
     }
 
     /**
-     * @dev Unpauses stake and unstake operations. Can only be called by the owner.
+     * @dev Redeems all fee shares and pays each fee recipient its weighted cut.
+     * Can be called by anyone once fee recipients are configured.
      */
-    function unpause() external onlyOwner {
-        _unpause();
+    function distributeFees() external nonReentrant validFee(totalFeeShares + shutdownFeeShares) {
+        uint256 recipientsCount = feeRecipients.length;
+        if (recipientsCount == 0) revert Errors.NoFeeRecipients();
+
+        _accrueFees();
+        uint256 shares;
+        uint256 assets;
+        if (isShutdown) {
+            shares = shutdownFeeShares;
+            assets = _redeemShutdownFeeShares(shares);
+        } else {
+            shares = totalFeeShares;
+            assets = _redeemFeeShares(shares);
+        }
+
+        uint256 remaining = assets;
+        for (uint256 i = 0; i < recipientsCount; ++i) {
+            FeeRecipient memory recipient = feeRecipients[i];
+            // Last recipient receives the rounding dust
+            uint256 amount = i == recipientsCount - 1 ? remaining : (assets * recipient.weight) / TOTAL_FEE_WEIGHT;
+            remaining -= amount;
+            IERC20(asset()).safeTransfer(recipient.account, amount);
+            emit Events.FeeRecipientPaid(recipient.account, amount);
+        }
+
+        emit Events.FeesDistributed(shares, assets);
     }
 
     /**
-     * @dev Migrates all staked assets from the current vault to a new vault.
-     * This function handles the complexity of different exchange rates between vaults.
-     * @param newVault The new IERC4626 vault to migrate to.
+     * @dev Returns the configured fee recipients and their weights.
      */
-    function migrateVault(IERC4626 newVault) 
-        external 
-        onlyOwner 
-        notZeroAddress(address(newVault))
-        notSameVault(address(newVault), address(stakingVault))
-        validAssets(newVault.asset(), stakingVault.asset())
-    {
-        IERC4626 oldVault = stakingVault;
-        uint256 totalShares = oldVault.balanceOf(address(this));
-        if (totalShares == 0) revert Errors.NoAssetsToMigrate();
-        // Redeem all shares from the old vault
-        uint256 totalAssetsRedeemed = oldVault.redeem(totalShares, address(this), address(this));
-        // Update the vault reference
-        stakingVault = newVault;
-        // Deposit all redeemed assets into the new vault
-        uint256 newSharesReceived = _depositIntoVault(totalAssetsRedeemed);
-        emit Events.VaultMigrationCompleted(oldVault, newVault, totalAssetsRedeemed, newSharesReceived);
+    function getFeeRecipients() external view returns (address[] memory accounts, uint256[] memory weights) {
+        uint256 recipientsCount = feeRecipients.length;
+        accounts = new address[](recipientsCount);
+        weights = new uint256[](recipientsCount);
+        for (uint256 i = 0; i < recipientsCount; ++i) {
+            accounts[i] = feeRecipients[i].account;
+            weights[i] = feeRecipients[i].weight;
+        }
     }
 
     /**
-     * @dev Returns migration information for the current vault state.
-     * @param newVault The potential new vault to migrate to.
-     * @return currentAssets Current total assets in the vault.
-     * @return currentShares Current total shares in the vault.
-     * @return projectedAssets Projected assets after migration.
-     * @return projectedShares Projected shares after migration.
+     * @dev Returns the assets an account would receive from distributing the current fee shares.
+     * @param account The fee recipient address.
      */
-    function getMigrationInfo(IERC4626 newVault) external view returns (
-        uint256 currentAssets,
-        uint256 currentShares,
-        uint256 projectedAssets,
-        uint256 projectedShares
-    ) {
-        currentShares = stakingVault.balanceOf(address(this));
-        currentAssets = stakingVault.previewRedeem(currentShares);
-        if (currentAssets > 0) {
-            projectedShares = newVault.previewDeposit(currentAssets);
-            projectedAssets = newVault.previewRedeem(projectedShares);
+    function claimableFees(address account) external view returns (uint256) {
+        uint256 weight;
+        for (uint256 i = 0; i < feeRecipients.length; ++i) {
+            if (feeRecipients[i].account == account) weight += feeRecipients[i].weight;
         }
+        if (isShutdown) return _shutdownSharesToAssets((shutdownFeeShares * weight) / TOTAL_FEE_WEIGHT);
+        return stakingVault.previewRedeem((totalFeeShares * weight) / TOTAL_FEE_WEIGHT);
+    }
+
+    /**
+     * @dev Returns the total assets from staked fees.
+     * @return The total assets that can be redeemed from fee shares.
+     */
+    function totalFeeAssets() external view returns (uint256) {
+        if (isShutdown) return _shutdownSharesToAssets(shutdownFeeShares);
+        return stakingVault.previewRedeem(totalFeeShares);
     }
 }
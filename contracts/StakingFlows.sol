@@ -0,0 +1,422 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "./StakingModule.sol";
+
+/**
+ * @title StakingFlows
+ * @dev StakingManager module for the ERC4626 deposits and withdrawals, including
+ * their slippage-protected, permit and referral variants.
+ */
+contract StakingFlows is StakingModule {
+    using SafeERC20 for IERC20;
+
+    constructor(address _nextModule) StakingModule(_nextModule) {}
+
+    /**
+     * @dev Deposit assets to receive staking shares
+     * @param assets Amount of assets to deposit
+     * @param receiver Address that will receive the minted shares
+     * @return shares Amount of shares minted to the receiver
+     */
+    function deposit(uint256 assets, address receiver) public returns (uint256 shares) {
+        shares = _depositAssets(assets, receiver, address(0));
+    }
+
+    /**
+     * @dev Withdraws assets by burning the corresponding shares.
+     * @param assets Amount of assets to withdraw
+     * @param receiver Address that will receive the withdrawn assets
+     * @param owner Address that owns the shares being burned
+     * @return shares Amount of shares burned for the withdrawal
+     */
+    function withdraw(uint256 assets, address receiver, address owner) public returns (uint256 shares) {
+        shares = _withdrawAssets(assets, receiver, owner);
+    }
+
+    /**
+     * @dev Mint shares by depositing the equivalent amount of assets
+     * @param shares Amount of shares to mint
+     * @param receiver Address that will receive the minted shares
+     * @return assets Amount of assets required to mint the requested shares
+     */
+    function mint(uint256 shares, address receiver) public returns (uint256 assets) {
+        assets = _mintShares(shares, receiver, address(0), type(uint256).max);
+    }
+
+    /**
+     * @dev Redeem shares for equivalent assets
+     * @param shares Amount of shares to redeem
+     * @param receiver Address that will receive the redeemed assets
+     * @param owner Address that owns the shares being redeemed
+     * @return assets Amount of assets received for the redeemed shares
+     */
+    function redeem(uint256 shares, address receiver, address owner) public returns (uint256 assets) {
+        assets = _redeemShares(shares, receiver, owner);
+    }
+
+    /**
+     * @dev Deposit assets, reverting if fewer than `minShares` shares are received or the deadline has passed
+     * @param assets Amount of assets to deposit
+     * @param receiver Address that will receive the minted shares
+     * @param minShares Minimum shares the receiver must get after fees
+     * @param deadline Timestamp after which the deposit reverts
+     * @return shares Amount of shares minted to the receiver
+     */
+    function depositWithMinShares(
+        uint256 assets,
+        address receiver,
+        uint256 minShares,
+        uint256 deadline
+    ) external beforeDeadline(deadline) returns (uint256 shares) {
+        shares = _depositAssets(assets, receiver, address(0));
+        if (shares < minShares) revert Errors.InsufficientSharesOut(shares, minShares);
+    }
+
+    /**
+     * @dev Mint shares, reverting if more than `maxAssets` assets are required or the deadline has passed
+     * @param shares Amount of shares to mint
+     * @param receiver Address that will receive the minted shares
+     * @param maxAssets Maximum assets the caller is willing to pay
+     * @param deadline Timestamp after which the mint reverts
+     * @return assets Amount of assets paid for the shares
+     */
+    function mintWithMaxAssets(
+        uint256 shares,
+        address receiver,
+        uint256 maxAssets,
+        uint256 deadline
+    ) external beforeDeadline(deadline) returns (uint256 assets) {
+        assets = _mintShares(shares, receiver, address(0), maxAssets);
+    }
+
+    /**
+     * @dev Withdraw assets, reverting if more than `maxShares` shares are burned or the deadline has passed
+     * @param assets Amount of assets to withdraw
+     * @param receiver Address that will receive the withdrawn assets
+     * @param owner Address that owns the shares being burned
+     * @param maxShares Maximum shares the owner is willing to burn
+     * @param deadline Timestamp after which the withdrawal reverts
+     * @return shares Amount of shares burned for the withdrawal
+     */
+    function withdrawWithMaxShares(
+        uint256 assets,
+        address receiver,
+        address owner,
+        uint256 maxShares,
+        uint256 deadline
+    ) external beforeDeadline(deadline) returns (uint256 shares) {
+        shares = _withdrawAssets(assets, receiver, owner);
+        if (shares > maxShares) revert Errors.ExcessiveSharesIn(shares, maxShares);
+    }
+
+    /**
+     * @dev Redeem shares, reverting if fewer than `minAssets` assets are received or the deadline has passed
+     * @param shares Amount of shares to redeem
+     * @param receiver Address that will receive the redeemed assets
+     * @param owner Address that owns the shares being redeemed
+     * @param minAssets Minimum assets the receiver must get after fees
+     * @param deadline Timestamp after which the redemption reverts
+     * @return assets Amount of assets sent to the receiver
+     */
+    function redeemWithMinAssets(
+        uint256 shares,
+        address receiver,
+        address owner,
+        uint256 minAssets,
+        uint256 deadline
+    ) external beforeDeadline(deadline) returns (uint256 assets) {
+        assets = _redeemShares(shares, receiver, owner);
+        if (assets < minAssets) revert Errors.InsufficientAssetsOut(assets, minAssets);
+    }
+
+    /**
+     * @dev Deposit assets in a single transaction using an EIP-2612 permit on the asset
+     * @param assets Amount of assets to deposit, also the permitted amount
+     * @param receiver Address that will receive the minted shares
+     * @param deadline Expiry of the permit signature
+     * @param v Signature recovery id
+     * @param r Signature r value
+     * @param s Signature s value
+     * @return shares Amount of shares minted to the receiver
+     */
+    function depositWithPermit(
+        uint256 assets,
+        address receiver,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 shares) {
+        _permitAsset(assets, deadline, v, r, s);
+        shares = deposit(assets, receiver);
+    }
+
+    /**
+     * @dev Mint shares in a single transaction using an EIP-2612 permit on the asset
+     * @param shares Amount of shares to mint
+     * @param receiver Address that will receive the minted shares
+     * @param maxAssets Permitted amount, capping the assets the mint can pull
+     * @param deadline Expiry of the permit signature
+     * @param v Signature recovery id
+     * @param r Signature r value
+     * @param s Signature s value
+     * @return assets Amount of assets paid for the shares
+     */
+    function mintWithPermit(
+        uint256 shares,
+        address receiver,
+        uint256 maxAssets,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 assets) {
+        _permitAsset(maxAssets, deadline, v, r, s);
+        assets = mint(shares, receiver);
+    }
+
+    /**
+     * @dev Deposit assets on behalf of a referrer, who is credited part of the input fee
+     * @param assets Amount of assets to deposit
+     * @param receiver Address that will receive the minted shares
+     * @param referrer Address that brought the depositor, or the zero address for none
+     * @return shares Amount of shares minted to the receiver
+     */
+    function depositWithReferral(
+        uint256 assets,
+        address receiver,
+        address referrer
+    ) public returns (uint256 shares) {
+        shares = _depositAssets(assets, receiver, referrer);
+    }
+
+    /**
+     * @dev Deposit assets on behalf of the referrer registered for `referralCode`
+     * @param assets Amount of assets to deposit
+     * @param receiver Address that will receive the minted shares
+     * @param referralCode Code registered by the referrer
+     * @return shares Amount of shares minted to the receiver
+     */
+    function depositWithReferralCode(
+        uint256 assets,
+        address receiver,
+        bytes32 referralCode
+    ) external returns (uint256 shares) {
+        shares = depositWithReferral(assets, receiver, _referrerOf(referralCode));
+    }
+
+    /**
+     * @dev Mint shares on behalf of a referrer, who is credited part of the input fee
+     * @param shares Amount of shares to mint
+     * @param receiver Address that will receive the minted shares
+     * @param referrer Address that brought the depositor, or the zero address for none
+     * @return assets Amount of assets required to mint the requested shares
+     */
+    function mintWithReferral(
+        uint256 shares,
+        address receiver,
+        address referrer
+    ) public returns (uint256 assets) {
+        assets = _mintShares(shares, receiver, referrer, type(uint256).max);
+    }
+
+    /**
+     * @dev Mint shares on behalf of the referrer registered for `referralCode`
+     * @param shares Amount of shares to mint
+     * @param receiver Address that will receive the minted shares
+     * @param referralCode Code registered by the referrer
+     * @return assets Amount of assets required to mint the requested shares
+     */
+    function mintWithReferralCode(
+        uint256 shares,
+        address receiver,
+        bytes32 referralCode
+    ) external returns (uint256 assets) {
+        assets = mintWithReferral(shares, receiver, _referrerOf(referralCode));
+    }
+
+    /**
+     * @dev Deposits `assets` for `receiver`, crediting `referrer` with part of the input fee
+     * @return shares Amount of shares minted to the receiver
+     */
+    function _depositAssets(
+        uint256 assets,
+        address receiver,
+        address referrer
+    )
+        internal
+        amountGreaterThanZero(assets)
+        notZeroAddress(receiver)
+        nonReentrant
+        whenNotPaused
+        notShutdown(isShutdown)
+        returns (uint256 shares)
+    {
+        _accrueFees();
+        _checkDepositLimits(assets, receiver);
+        // Calculate the shares the receiver gets after the input fee
+        shares = _previewDepositFor(assets, receiver);
+        // Process the deposit including fee calculations and vault interactions
+        _processDeposit(assets, shares, receiver, referrer);
+    }
+
+    /**
+     * @dev Mints `shares` for `receiver`, reverting if more than `maxAssets` assets are required
+     * @return assets Amount of assets paid for the shares, input fee included
+     */
+    function _mintShares(
+        uint256 shares,
+        address receiver,
+        address referrer,
+        uint256 maxAssets
+    )
+        internal
+        amountGreaterThanZero(shares)
+        notZeroAddress(receiver)
+        nonReentrant
+        whenNotPaused
+        notShutdown(isShutdown)
+        returns (uint256 assets)
+    {
+        _accrueFees();
+        // Calculate assets required to mint the requested shares, input fee included
+        assets = _previewMintFor(shares, receiver);
+        if (assets > maxAssets) revert Errors.ExcessiveAssetsIn(assets, maxAssets);
+        _checkDepositLimits(assets, receiver);
+        // Process the deposit including fee calculations and vault interactions
+        _processDeposit(assets, shares, receiver, referrer);
+    }
+
+    /**
+     * @dev Burns the shares of `owner` needed to send `assets` to `receiver`
+     * @return shares Amount of shares burned, output fee included
+     */
+    function _withdrawAssets(
+        uint256 assets,
+        address receiver,
+        address owner
+    )
+        internal
+        amountGreaterThanZero(assets)
+        notZeroAddress(receiver)
+        notZeroAddress(owner)
+        nonReentrant
+        whenNotPaused
+        returns (uint256 shares)
+    {
+        _accrueFees();
+        if (isShutdown) {
+            shares = _shutdownAssetsToShares(assets);
+            _withdrawShutdown(assets, shares, receiver, owner);
+            return shares;
+        }
+        // Calculate shares required to withdraw the requested assets and pay the output fee
+        uint256 feeAmount;
+        (shares, feeAmount) = _previewWithdrawFor(assets, owner);
+        // Process withdrawal including fee calculations and vault interactions
+        _processWithdrawal(assets, shares, feeAmount, receiver, owner);
+    }
+
+    /**
+     * @dev Burns `shares` of `owner` and sends the assets they are worth to `receiver`
+     * @return assets Amount of assets sent, after the output fee
+     */
+    function _redeemShares(
+        uint256 shares,
+        address receiver,
+        address owner
+    )
+        internal
+        amountGreaterThanZero(shares)
+        notZeroAddress(receiver)
+        notZeroAddress(owner)
+        nonReentrant
+        whenNotPaused
+        returns (uint256 assets)
+    {
+        _accrueFees();
+        if (isShutdown) {
+            assets = _shutdownSharesToAssets(shares);
+            _withdrawShutdown(assets, shares, receiver, owner);
+            return assets;
+        }
+        // Calculate assets the shares are worth after the output fee
+        uint256 feeAmount;
+        (assets, feeAmount) = _previewRedeemFor(shares, owner);
+        // Process redemption including fee calculations and vault interactions
+        _processWithdrawal(assets, shares, feeAmount, receiver, owner);
+    }
+
+    /**
+     * @dev Takes `assets` from the caller and mints the quoted `shares` to `receiver`.
+     * The input fee, less the referrer's cut, is moved to the fee bucket.
+     */
+    function _processDeposit(uint256 assets, uint256 shares, address receiver, address referrer) internal {
+        // step 1: Preview vault shares for the assets being deposited
+        uint256 vaultShare = stakingVault.previewDeposit(assets);
+
+        // step 2: Calculate fee amount based on the input fee rate of the receiver
+        (uint256 feeRate, ) = _feeRatesFor(_msgSender(), receiver);
+        uint256 feeAmount = _calculateFeeAmount(assets, feeRate);
+
+        // step 3: Credit the referrer's cut of the fee, which is held idle until claimed
+        uint256 referralAmount = _creditReferral(referrer, receiver, assets, feeAmount);
+        uint256 bucketFee = feeAmount - referralAmount;
+
+        // step 4: Move the rest of the fee to the fee bucket
+        _handleInputFeeShares(bucketFee, _feeShares(vaultShare, assets, bucketFee));
+
+        // step 5: Mint user shares and route assets to the vaults, keeping the fee in the staking vault
+        _deposit(_msgSender(), receiver, assets, shares);
+        _allocateDeposit(assets - referralAmount, bucketFee);
+        _mintTreasuryFees();
+    }
+
+    /**
+     * @dev Burns the quoted `shares` of `owner` and sends the net `assets` to `receiver`.
+     * The output fee stays in the vaults and is moved to the fee bucket.
+     */
+    function _processWithdrawal(
+        uint256 assets,
+        uint256 shares,
+        uint256 feeAmount,
+        address receiver,
+        address owner
+    ) internal {
+        _handleOutputFeeShares(feeAmount, stakingVault.convertToShares(feeAmount));
+        _pullIdleAssets(assets);
+        _withdraw(_msgSender(), receiver, owner, assets, shares);
+        _mintTreasuryFees();
+    }
+
+    /**
+     * @dev Pays out a withdrawal after a shutdown from idle assets, topped up from the vaults.
+     * No output fee is charged.
+     */
+    function _withdrawShutdown(uint256 assets, uint256 shares, address receiver, address owner) internal {
+        _pullIdleAssets(assets);
+        _withdraw(_msgSender(), receiver, owner, assets, shares);
+    }
+
+    /**
+     * @dev Pulls `assets` from `caller` and mints `shares` to `receiver`, like ERC4626
+     */
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal {
+        IERC20(asset()).safeTransferFrom(caller, address(this), assets);
+        _mint(receiver, shares);
+
+        emit IERC4626.Deposit(caller, receiver, assets, shares);
+    }
+
+    /**
+     * @dev Burns `shares` of `owner` and sends `assets` to `receiver`, like ERC4626
+     */
+    function _withdraw(address caller, address receiver, address owner, uint256 assets, uint256 shares) internal {
+        if (caller != owner) _spendAllowance(owner, caller, shares);
+        _burn(owner, shares);
+        IERC20(asset()).safeTransfer(receiver, assets);
+
+        emit IERC4626.Withdraw(caller, receiver, owner, assets, shares);
+    }
+}
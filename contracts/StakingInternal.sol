@@ -1,73 +1,662 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.29;
 
-import "./StakingAdmin.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "./StakingModifiers.sol";
+import "./StakingState.sol";
 
 /**
  * @title StakingInternal
- * @dev Internal functions for the StakingManager contract.
+ * @dev Internal functions shared by the StakingManager and the modules it delegates to.
+ * Only inherits the upgradeable bases those functions need, so the modules stay small.
  */
-contract StakingInternal is StakingAdmin {
-    function _processDeposit(
-        uint256 assets,
-        uint256 shares,
-        address receiver
-    ) internal {
-        // step 1: Preview vault shares for the assets being deposited
-        uint256 vaultShare = stakingVault.previewDeposit(assets);
+abstract contract StakingInternal is
+    AccessControlUpgradeable,
+    ReentrancyGuardUpgradeable,
+    ERC20Upgradeable,
+    PausableUpgradeable,
+    StakingModifiers,
+    StakingState
+{
+    /**
+     * @dev Returns the asset of the staking vault, which is the asset of this contract.
+     */
+    function asset() public view virtual override returns (address) {
+        return stakingVault.asset();
+    }
+
+    /**
+     * @dev Returns the decimals offset used for share calculations
+     * @return uint8 The number of decimal places offset between assets and shares
+     */
+    function _decimalsOffset() internal view virtual returns (uint8) {
+        return DECIMALS_OFFSET;
+    }
+
+    /**
+     * @dev Converts assets to shares like ERC4626, with the virtual shares of the decimals offset.
+     */
+    function _convertToShares(uint256 assets, Math.Rounding rounding) internal view virtual returns (uint256) {
+        return Math.mulDiv(assets, totalSupply() + 10 ** _decimalsOffset(), totalAssets() + 1, rounding);
+    }
+
+    /**
+     * @dev Converts shares to assets like ERC4626, with the virtual shares of the decimals offset.
+     */
+    function _convertToAssets(uint256 shares, Math.Rounding rounding) internal view virtual returns (uint256) {
+        return Math.mulDiv(shares, totalAssets() + 1, totalSupply() + 10 ** _decimalsOffset(), rounding);
+    }
 
-        // step 2: Calculate fee amount based on input fee rate
-        uint256 feeAmount = _calculateFeeAmount(assets, inputFeeRate);
+    /**
+     * @dev Runs the call in `module` on the storage of this contract and returns its result.
+     * @custom:oz-upgrades-unsafe-allow delegatecall
+     */
+    function _delegate(address module) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
 
-        // step 3: Split shares between user and fee
-        uint256 feeShares = _feeShares(vaultShare, assets, feeAmount);
-        uint256 userShares = _userShares(shares, assets, feeAmount);
+    /**
+     * @dev Settles the rewards of both sides before every share mint, burn and transfer
+     */
+    function _update(address from, address to, uint256 value) internal virtual override {
+        _updateRewards(from);
+        if (to != from) _updateRewards(to);
+        super._update(from, to, value);
+    }
 
-        _handleInputFeeShares(feeAmount, feeShares);
+    /**
+     * @dev Reverts when a deposit breaks the minimum size, the global cap or the receiver cap.
+     * @param assets The gross assets being deposited.
+     * @param receiver The address receiving the shares.
+     */
+    function _checkDepositLimits(uint256 assets, address receiver) internal view {
+        if (assets < minDeposit) revert Errors.DepositBelowMinimum(assets, minDeposit);
+        if (depositCap > 0 && totalAssets() + assets > depositCap) {
+            revert Errors.DepositCapExceeded(assets, _remainingCap(depositCap, totalAssets()));
+        }
+        if (walletDepositCap > 0) {
+            uint256 receiverAssets = _convertToAssets(balanceOf(receiver), Math.Rounding.Floor);
+            if (receiverAssets + assets > walletDepositCap) {
+                revert Errors.WalletDepositCapExceeded(receiver, assets, _remainingCap(walletDepositCap, receiverAssets));
+            }
+        }
+    }
 
-        // step 4: Mint user shares and deposit assets into vault
-        _deposit(_msgSender(), receiver, assets, userShares);
-        _depositIntoVault(assets);
+    /**
+     * @dev Returns the assets that can still be added under a cap (0 = unlimited).
+     */
+    function _remainingCap(uint256 cap, uint256 used) internal pure returns (uint256) {
+        if (cap == 0) return type(uint256).max;
+        return cap > used ? cap - used : 0;
     }
 
-    function _processWithdrawal(
+    /**
+     * @dev Approves this contract to spend the caller's assets with an EIP-2612 signature.
+     * A permit that was already used (e.g. front-run) is accepted if the allowance still covers `value`.
+     */
+    function _permitAsset(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(asset()).permit(_msgSender(), address(this), value, deadline, v, r, s) {
+            return;
+        } catch {
+            if (IERC20(asset()).allowance(_msgSender(), address(this)) < value) revert Errors.PermitFailed();
+        }
+    }
+
+    /**
+     * @dev Returns the shares `receiver` gets for depositing `assets`, after the input fee.
+     */
+    function _previewDepositFor(uint256 assets, address receiver) internal view returns (uint256 shares) {
+        (uint256 feeRate, ) = _feeRatesFor(_msgSender(), receiver);
+        shares = _convertToShares(assets - _calculateFeeAmount(assets, feeRate), Math.Rounding.Floor);
+    }
+
+    /**
+     * @dev Returns the assets, input fee included, that mint `shares` for `receiver`.
+     */
+    function _previewMintFor(uint256 shares, address receiver) internal view returns (uint256 assets) {
+        (uint256 feeRate, ) = _feeRatesFor(_msgSender(), receiver);
+        assets = _grossAssets(_convertToAssets(shares, Math.Rounding.Ceil), feeRate, Math.Rounding.Ceil);
+    }
+
+    /**
+     * @dev Returns the shares `owner` burns to receive `assets` after the output fee, and that fee.
+     */
+    function _previewWithdrawFor(
         uint256 assets,
+        address owner
+    ) internal view returns (uint256 shares, uint256 feeAmount) {
+        (, uint256 feeRate) = _feeRatesFor(_msgSender(), owner);
+        uint256 grossAssets = _grossAssets(assets, feeRate, Math.Rounding.Ceil);
+        feeAmount = grossAssets - assets;
+        shares = _convertToShares(grossAssets, Math.Rounding.Ceil);
+    }
+
+    /**
+     * @dev Returns the assets `owner` receives for redeeming `shares` after the output fee, and that fee.
+     */
+    function _previewRedeemFor(
         uint256 shares,
+        address owner
+    ) internal view returns (uint256 assets, uint256 feeAmount) {
+        (, uint256 feeRate) = _feeRatesFor(_msgSender(), owner);
+        uint256 grossAssets = _convertToAssets(shares, Math.Rounding.Floor);
+        feeAmount = _calculateFeeAmount(grossAssets, feeRate);
+        assets = grossAssets - feeAmount;
+    }
+
+    /**
+     * @dev Returns the shares of `owner` that the idle assets and the vault liquidity can pay out right now.
+     */
+    function _redeemableShares(address owner) internal view returns (uint256 shares) {
+        shares = balanceOf(owner);
+        uint256 liquidity = _idleAssets() + _availableLiquidity();
+        if (isShutdown) {
+            if (_shutdownSharesToAssets(shares) <= liquidity) return shares;
+            return Math.mulDiv(liquidity, totalSupply(), _managedAssets());
+        }
+
+        (uint256 assets, ) = _previewRedeemFor(shares, owner);
+        if (assets <= liquidity) return shares;
+        (, uint256 feeRate) = _feeRatesFor(_msgSender(), owner);
+        shares = _convertToShares(_grossAssets(liquidity, feeRate, Math.Rounding.Floor), Math.Rounding.Floor);
+    }
+
+    /**
+     * @dev Records a referred deposit and credits the referrer's share of its input fee.
+     * @param referrer The referrer, or the zero address for deposits without one.
+     * @param receiver The address receiving the shares.
+     * @param assets The gross assets being deposited.
+     * @param feeAmount The input fee charged on the deposit.
+     * @return referralAmount The part of the fee credited to the referrer.
+     */
+    function _creditReferral(
+        address referrer,
         address receiver,
-        address owner,
-        bool isWithdraw
-    ) internal {
-        // Step 1: Calculate fee amount
-        uint256 feeAmount = _calculateFeeAmount(assets, outputFeeRate);
-
-        // Step 2: Split shares between user and fee
-        uint256 feeShares;
-        uint256 userShares;
-        uint256 userAssets;
-
-        if (isWithdraw) {
-            // For withdraw: calculate based on gross assets from all shares
-            uint256 grossAssets = stakingVault.previewRedeem(shares);
-            (feeShares, userShares) = _splitShares(shares, grossAssets, feeAmount);
-            userAssets = assets;
+        uint256 assets,
+        uint256 feeAmount
+    ) internal returns (uint256 referralAmount) {
+        if (referrer == address(0)) return 0;
+        if (referrer == receiver || referrer == _msgSender()) revert Errors.InvalidReferrer();
+
+        referralAmount = _calculateFeeAmount(feeAmount, referralFeeShare);
+        referredAssets[referrer] += assets;
+        referralRewards[referrer] += referralAmount;
+        totalReferralRewards += referralAmount;
+
+        emit Events.ReferralFeeCollected(referrer, receiver, assets, referralAmount);
+    }
+
+    /**
+     * @dev Returns the referrer registered for `code`.
+     */
+    function _referrerOf(bytes32 code) internal view returns (address referrer) {
+        referrer = referralCodes[code];
+        if (referrer == address(0)) revert Errors.UnknownReferralCode(code);
+    }
+
+    /**
+     * @dev Fulfills queued withdrawal requests in FIFO order.
+     * Stops at the first request that is still cooling down or that the vault cannot pay out yet.
+     * @param maxRequests The maximum number of requests to fulfill.
+     * @return fulfilled The number of requests fulfilled.
+     */
+    function _processWithdrawalQueue(uint256 maxRequests) internal returns (uint256 fulfilled) {
+        uint256 requestId = nextWithdrawalToFulfill;
+        while (fulfilled < maxRequests && requestId < nextWithdrawalRequestId) {
+            WithdrawalRequest storage request = withdrawalRequests[requestId];
+            if (block.timestamp < request.requestTime + withdrawalCooldown) break;
+
+            uint256 grossAssets = _convertToAssets(request.shares, Math.Rounding.Floor);
+            (, uint256 feeRate) = _feeRatesFor(request.owner, request.owner);
+            uint256 feeAmount = _calculateFeeAmount(grossAssets, feeRate);
+            uint256 userAssets = grossAssets - feeAmount;
+            if (userAssets > _idleAssets() + _availableLiquidity()) break;
+
+            // The fee stays in the vaults and is moved to the fee bucket
+            _handleOutputFeeShares(feeAmount, stakingVault.convertToShares(feeAmount));
+            _releaseHeldShares(request.owner, request.shares);
+            _pullIdleAssets(userAssets);
+            _burn(address(this), request.shares);
+
+            queuedWithdrawalShares -= request.shares;
+            claimableWithdrawalAssets += userAssets;
+            request.assets = userAssets;
+            request.fulfilled = true;
+            emit Events.WithdrawalFulfilled(requestId, userAssets, feeAmount);
+
+            ++requestId;
+            ++fulfilled;
+        }
+        nextWithdrawalToFulfill = requestId;
+        _mintTreasuryFees();
+    }
+
+    /**
+     * @dev Fulfills a queued withdrawal request after a shutdown at the pro-rata value of its shares.
+     * @param requestId The id of the request to fulfill.
+     */
+    function _fulfillShutdownRequest(uint256 requestId) internal {
+        WithdrawalRequest storage request = withdrawalRequests[requestId];
+        uint256 assets = _shutdownSharesToAssets(request.shares);
+        _releaseHeldShares(request.owner, request.shares);
+        _burn(address(this), request.shares);
+        _pullIdleAssets(assets);
+
+        queuedWithdrawalShares -= request.shares;
+        claimableWithdrawalAssets += assets;
+        request.assets = assets;
+        request.fulfilled = true;
+        emit Events.WithdrawalFulfilled(requestId, assets, 0);
+    }
+
+    /**
+     * @dev Releases a lock and redeems its shares, leaving the net assets idle in this contract.
+     * Mature locks pay the lock's output fee rate when it is lower than the owner's. Early unlocks move
+     * the penalty part of the shares to the fee bucket and pay the regular output fee on the rest.
+     * After a shutdown the shares exit pro-rata without fee or penalty.
+     * @param lockId The id of the lock to release.
+     * @return assets The net assets for the receiver.
+     * @return penaltyShares The shares charged as early unlock penalty.
+     */
+    function _releaseLock(uint256 lockId) internal returns (uint256 assets, uint256 penaltyShares) {
+        Lock storage userLock = locks[lockId];
+        uint256 shares = userLock.shares;
+        _releaseHeldShares(userLock.owner, shares);
+        userLock.released = true;
+        totalLockedShares -= shares;
+
+        if (isShutdown) {
+            assets = _shutdownSharesToAssets(shares);
         } else {
-            // For redeem: calculate based on the provided shares and assets
-            feeShares = _feeShares(shares, assets, feeAmount);
-            userShares = shares - feeShares;
-            userAssets = assets - feeAmount;
+            (, uint256 feeRate) = _feeRatesFor(_msgSender(), userLock.owner);
+            uint256 penaltyAssets;
+            if (block.timestamp >= userLock.unlockTime) {
+                if (userLock.outputFeeRate < feeRate) feeRate = userLock.outputFeeRate;
+            } else {
+                penaltyShares = _calculateFeeAmount(shares, userLock.earlyUnlockPenalty);
+                penaltyAssets = _convertToAssets(penaltyShares, Math.Rounding.Floor);
+            }
+            uint256 grossAssets = _convertToAssets(shares - penaltyShares, Math.Rounding.Floor);
+            uint256 feeAmount = _calculateFeeAmount(grossAssets, feeRate);
+            assets = grossAssets - feeAmount;
+
+            // The penalty and the fee stay in the vaults and are moved to the fee bucket
+            if (penaltyAssets > 0) totalFeeShares += stakingVault.convertToShares(penaltyAssets);
+            _handleOutputFeeShares(feeAmount, stakingVault.convertToShares(feeAmount));
+        }
+        _burn(address(this), shares);
+        _pullIdleAssets(assets);
+    }
+
+    /**
+     * @dev Converts the fee bucket into StakingManager shares for the fee treasury, if one is set.
+     * The shares are priced like a deposit of the fee assets, so the value per share of holders is unchanged.
+     */
+    function _mintTreasuryFees() internal override {
+        address treasury = feeTreasury;
+        if (treasury == address(0) || totalFeeShares == 0) return;
+
+        uint256 feeAssets = stakingVault.convertToAssets(totalFeeShares);
+        uint256 shares = _convertToShares(feeAssets, Math.Rounding.Floor);
+        totalFeeShares = 0;
+        _mint(treasury, shares);
+
+        emit Events.TreasuryFeesMinted(treasury, feeAssets, shares);
+    }
+
+    /**
+     * @dev Tops up the idle buffer from deposited assets and deposits the rest into the vaults
+     * according to their target weights.
+     * The reserved fee part and anything an allocation vault cannot take go to the staking vault.
+     * @param assets The assets to deposit, already held by this contract.
+     * @param reserved The assets that must stay in the staking vault.
+     */
+    function _allocateDeposit(uint256 assets, uint256 reserved) internal {
+        uint256 idleBefore = _idleAssets() - assets;
+        uint256 target = _bufferTarget();
+        if (target > idleBefore) {
+            uint256 buffered = target - idleBefore;
+            if (buffered > assets - reserved) buffered = assets - reserved;
+            assets -= buffered;
+        }
+
+        uint256 allocatable = assets - reserved;
+        uint256 remaining = assets;
+        for (uint256 i = 0; i < allocationVaults.length; ++i) {
+            VaultAllocation memory allocation = allocationVaults[i];
+            uint256 amount = (allocatable * allocation.weight) / TOTAL_ALLOCATION_WEIGHT;
+            uint256 maxAmount = allocation.vault.maxDeposit(address(this));
+            if (amount > maxAmount) amount = maxAmount;
+            if (amount == 0) continue;
+            _depositInto(allocation.vault, amount);
+            remaining -= amount;
+        }
+        if (remaining > 0) _depositIntoVault(remaining);
+    }
+
+    /**
+     * @dev Withdraws `assets` to this contract, pulling from the most liquid vault first.
+     * @param assets The assets to withdraw.
+     */
+    function _withdrawFromVaults(uint256 assets) internal override {
+        if (assets == 0) return;
+        IERC4626[] memory vaults = _vaults();
+        uint256 count = vaults.length;
+        uint256[] memory liquidity = new uint256[](count);
+        uint256 available;
+        for (uint256 i = 0; i < count; ++i) {
+            liquidity[i] = _liquidAssets(vaults[i]);
+            available += liquidity[i];
+        }
+        if (assets > available) revert Errors.InsufficientVaultLiquidity(assets, available);
+
+        uint256 remaining = assets;
+        while (remaining > 0) {
+            // Pick the vault with the most liquidity left
+            uint256 best;
+            for (uint256 i = 1; i < count; ++i) {
+                if (liquidity[i] > liquidity[best]) best = i;
+            }
+            uint256 amount = remaining < liquidity[best] ? remaining : liquidity[best];
+            vaults[best].withdraw(amount, address(this), address(this));
+            liquidity[best] = 0;
+            remaining -= amount;
+        }
+    }
+
+    /**
+     * @dev Returns the staking vault followed by the allocation vaults with their target weights.
+     */
+    function _allocationTargets() internal view returns (IERC4626[] memory vaults, uint256[] memory weights) {
+        uint256 count = allocationVaults.length;
+        vaults = new IERC4626[](count + 1);
+        weights = new uint256[](count + 1);
+        vaults[0] = stakingVault;
+        weights[0] = TOTAL_ALLOCATION_WEIGHT;
+        for (uint256 i = 0; i < count; ++i) {
+            vaults[i + 1] = allocationVaults[i].vault;
+            weights[i + 1] = allocationVaults[i].weight;
+            weights[0] -= allocationVaults[i].weight;
         }
+    }
+
+    /**
+     * @dev Returns the staking vault shares owned by users that still have to be migrated.
+     */
+    function _sharesToMigrate() internal view returns (uint256) {
+        uint256 vaultShares = stakingVault.balanceOf(address(this));
+        return vaultShares > totalFeeShares ? vaultShares - totalFeeShares : 0;
+    }
+
+    /**
+     * @dev Redeems staking vault shares and deposits the assets into the migration vault,
+     * reverting when either side falls below the caller's bound.
+     */
+    function _moveToMigrationVault(
+        uint256 shares,
+        uint256 minAssetsOut,
+        uint256 minSharesOut
+    ) internal returns (uint256 assets, uint256 newShares) {
+        assets = stakingVault.redeem(shares, address(this), address(this));
+        if (assets < minAssetsOut) revert Errors.InsufficientAssetsOut(assets, minAssetsOut);
+        newShares = _depositInto(migrationVault, assets);
+        if (newShares < minSharesOut) revert Errors.InsufficientSharesOut(newShares, minSharesOut);
+
+        migratedAssets += assets;
+        migratedShares += newShares;
+    }
+
+    /**
+     * @dev Removes staking vault shares from the fee bucket and returns their value, held idle.
+     * The fee bucket may be backed by assets in any vault or the buffer, so the assets are pulled
+     * from wherever liquidity is available.
+     */
+    function _redeemFeeShares(uint256 shares) internal returns (uint256 assets) {
+        if (shares > totalFeeShares) revert Errors.InsufficientFeeShares();
+        assets = stakingVault.previewRedeem(shares);
+        totalFeeShares -= shares;
+        _pullIdleAssets(assets);
+    }
 
-        // Step 3: Handle the output fee shares
-        _handleOutputFeeShares(feeAmount, feeShares);
+    /**
+     * @dev Burns fee bucket shares after a shutdown and returns their pro-rata assets, held idle.
+     */
+    function _redeemShutdownFeeShares(uint256 shares) internal returns (uint256 assets) {
+        if (shares > shutdownFeeShares) revert Errors.InsufficientFeeShares();
+        assets = _shutdownSharesToAssets(shares);
+        shutdownFeeShares -= shares;
+        _burn(address(this), shares);
+        _pullIdleAssets(assets);
+    }
 
-        // Step 4: Execute the withdrawal/redeem operation
-        if (isWithdraw) {
-            uint256 actualShares = previewWithdraw(assets); // calculate before redeeming to avoid rounding issues
-            uint256 actualAssets = stakingVault.redeem(userShares, address(this),address(this));
-            _withdraw(_msgSender(), receiver, owner, actualAssets, actualShares);
+    /**
+     * @dev Returns whether `token` is a registered reward token.
+     */
+    function _isRewardToken(address token) internal view returns (bool) {
+        for (uint256 i = 0; i < rewardTokens.length; ++i) {
+            if (rewardTokens[i] == token) return true;
+        }
+        return false;
+    }
+
+    /**
+     * @dev Returns the reward tokens streamed since the last update of `stream`.
+     */
+    function _streamedRewards(RewardStream memory stream) internal view returns (uint256) {
+        uint256 from = stream.lastUpdate > stream.startTime ? stream.lastUpdate : stream.startTime;
+        uint256 to = block.timestamp < stream.endTime ? block.timestamp : stream.endTime;
+        return to > from ? (to - from) * stream.rate : 0;
+    }
+
+    /**
+     * @dev Returns the reward per share accumulator of `token` including the rewards streamed since its last update.
+     */
+    function _currentRewardPerShare(address token) internal view returns (uint256 rewardPerShare) {
+        RewardStream memory stream = rewardStreams[token];
+        rewardPerShare = stream.rewardPerShare;
+        uint256 streamed = _streamedRewards(stream);
+        uint256 supply = _rewardSupply();
+        if (streamed > 0 && supply > 0) rewardPerShare += Math.mulDiv(streamed, REWARD_PRECISION, supply);
+    }
+
+    /**
+     * @dev Adds the rewards streamed since the last update of `token` to its accumulator.
+     */
+    function _accrueReward(address token) internal {
+        RewardStream storage stream = rewardStreams[token];
+        uint256 streamed = _streamedRewards(stream);
+        stream.lastUpdate = block.timestamp;
+        if (streamed == 0) return;
+
+        uint256 supply = _rewardSupply();
+        if (supply == 0) {
+            // Nobody holds shares, so the rewards go back to the unallocated balance
+            rewardReserved[token] -= streamed;
         } else {
-            stakingVault.withdraw(userAssets, address(this), address(this));
-            _withdraw(_msgSender(), receiver, owner, userAssets, userShares);
+            stream.rewardPerShare += Math.mulDiv(streamed, REWARD_PRECISION, supply);
+        }
+    }
+
+    /**
+     * @dev Accrues every reward token and settles the rewards earned by `account` with its current balance.
+     * @param account The share holder, or the zero address to only accrue.
+     */
+    function _updateRewards(address account) internal {
+        for (uint256 i = 0; i < rewardTokens.length; ++i) {
+            address token = rewardTokens[i];
+            _accrueReward(token);
+            if (account == address(0)) continue;
+
+            uint256 rewardPerShare = rewardStreams[token].rewardPerShare;
+            accruedRewards[token][account] += Math.mulDiv(
+                _rewardBalance(account),
+                rewardPerShare - rewardPerSharePaid[token][account],
+                REWARD_PRECISION
+            );
+            rewardPerSharePaid[token][account] = rewardPerShare;
+        }
+    }
+
+    /**
+     * @dev Returns the shares `account` earns rewards on: its balance plus the shares held for its locks
+     * and queued withdrawals. The shares this contract holds for itself earn nothing.
+     */
+    function _rewardBalance(address account) internal view returns (uint256) {
+        if (account == address(this)) return 0;
+        return balanceOf(account) + heldShares[account];
+    }
+
+    /**
+     * @dev Returns the shares earning rewards: the supply minus the shares this contract holds for itself,
+     * such as the fee bucket after a shutdown.
+     */
+    function _rewardSupply() internal view returns (uint256) {
+        return totalSupply() - balanceOf(address(this)) + totalLockedShares + queuedWithdrawalShares;
+    }
+
+    /**
+     * @dev Moves `shares` of `owner` into this contract for a lock or a withdrawal request.
+     * They keep earning rewards for `owner` until they are released.
+     */
+    function _holdShares(address owner, uint256 shares) internal {
+        _transfer(owner, address(this), shares);
+        heldShares[owner] += shares;
+    }
+
+    /**
+     * @dev Settles the rewards of `owner` and stops `shares` held for it from earning more.
+     * Must run before the shares are burned or returned and before the lock or queue totals change.
+     */
+    function _releaseHeldShares(address owner, uint256 shares) internal {
+        _updateRewards(owner);
+        heldShares[owner] -= shares;
+    }
+
+    /**
+     * @dev Returns whether `vault` is one of the allocation vaults.
+     */
+    function _isAllocationVault(IERC4626 vault) internal view returns (bool) {
+        for (uint256 i = 0; i < allocationVaults.length; ++i) {
+            if (allocationVaults[i].vault == vault) return true;
+        }
+        return false;
+    }
+
+    /**
+     * @dev Returns the fee rates that will be active once the pending change (if any) is executed.
+     */
+    function _nextFeeRates() internal view returns (FeeRates memory rates) {
+        FeeRateChange memory change = pendingFeeRateChange;
+        if (change.activationTime == 0) {
+            return FeeRates(inputFeeRate, outputFeeRate, managementFeeRate, performanceFeeRate);
+        }
+        return FeeRates(change.inputFeeRate, change.outputFeeRate, pendingManagementFeeRate, pendingPerformanceFeeRate);
+    }
+
+    /**
+     * @dev Stores a fee rate change activating after the configured delay.
+     * Rescheduling restarts the delay for every rate.
+     */
+    function _scheduleFeeRateChange(FeeRates memory rates) internal {
+        uint256 activationTime = block.timestamp + feeRateChangeDelay;
+        pendingFeeRateChange = FeeRateChange(rates.inputFeeRate, rates.outputFeeRate, activationTime);
+        pendingManagementFeeRate = rates.managementFeeRate;
+        pendingPerformanceFeeRate = rates.performanceFeeRate;
+
+        emit Events.FeeRateChangeScheduled(
+            rates.inputFeeRate,
+            rates.outputFeeRate,
+            rates.managementFeeRate,
+            rates.performanceFeeRate,
+            activationTime
+        );
+
+        if (feeRateChangeDelay == 0) _executeFeeRateChange();
+    }
+
+    function _executeFeeRateChange() internal {
+        FeeRates memory rates = _nextFeeRates();
+        _clearFeeRateChange();
+
+        // Crystallize the fees earned under the previous management and performance rates
+        if (rates.managementFeeRate != managementFeeRate || rates.performanceFeeRate != performanceFeeRate) {
+            _accrueFees();
+        }
+
+        if (rates.inputFeeRate != inputFeeRate) {
+            emit Events.InputFeeRateUpdated(inputFeeRate, rates.inputFeeRate);
+            inputFeeRate = rates.inputFeeRate;
+        }
+        if (rates.outputFeeRate != outputFeeRate) {
+            emit Events.OutputFeeRateUpdated(outputFeeRate, rates.outputFeeRate);
+            outputFeeRate = rates.outputFeeRate;
+        }
+        if (rates.managementFeeRate != managementFeeRate) {
+            emit Events.ManagementFeeRateUpdated(managementFeeRate, rates.managementFeeRate);
+            managementFeeRate = rates.managementFeeRate;
+        }
+        if (rates.performanceFeeRate != performanceFeeRate) {
+            emit Events.PerformanceFeeRateUpdated(performanceFeeRate, rates.performanceFeeRate);
+            performanceFeeRate = rates.performanceFeeRate;
+        }
+        emit Events.FeeRateChangeExecuted(
+            rates.inputFeeRate,
+            rates.outputFeeRate,
+            rates.managementFeeRate,
+            rates.performanceFeeRate
+        );
+    }
+
+    function _clearFeeRateChange() internal {
+        delete pendingFeeRateChange;
+        delete pendingManagementFeeRate;
+        delete pendingPerformanceFeeRate;
+    }
+
+    /**
+     * @dev Applies a new fee rate change delay.
+     */
+    function _setFeeRateChangeDelay(uint256 _feeRateChangeDelay) internal {
+        uint256 oldDelay = feeRateChangeDelay;
+        feeRateChangeDelay = _feeRateChangeDelay;
+
+        emit Events.FeeRateChangeDelayUpdated(oldDelay, _feeRateChangeDelay);
+    }
+
+    /**
+     * @dev Resolves the fee rates for an operation. Nothing is charged when either the caller
+     * or the share account is exempt; otherwise the share balance of the account selects a tier.
+     * @param caller The address executing the operation.
+     * @param account The receiver of deposited shares or the owner of withdrawn shares.
+     */
+    function _feeRatesFor(address caller, address account) internal view returns (uint256 input, uint256 output) {
+        if (isFeeExempt[caller] || isFeeExempt[account]) return (0, 0);
+        input = inputFeeRate;
+        output = outputFeeRate;
+
+        uint256 balance = balanceOf(account);
+        for (uint256 i = feeTiers.length; i > 0; --i) {
+            FeeTier memory tier = feeTiers[i - 1];
+            if (balance >= tier.minShares) {
+                if (tier.inputFeeRate < input) input = tier.inputFeeRate;
+                if (tier.outputFeeRate < output) output = tier.outputFeeRate;
+                break;
+            }
         }
     }
 }
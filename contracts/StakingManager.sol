@@ -1,125 +1,148 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.29;
 
-import "./StakingInternal.sol";
+import "./StakingProxy.sol";
 
 /**
  * @title StakingManager
  * @dev Upgradeable staking contract that also acts as an ERC20 token representing staked shares.
+ * Implements the ERC4626 flows and delegates every other call to its modules.
  */
-contract StakingManager is StakingInternal {
+contract StakingManager is StakingProxy {
+    /// @dev First module of the chain the fallback delegates to
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address internal immutable firstModule;
+
     /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
+    constructor(address _firstModule) {
+        firstModule = _firstModule;
         _disableInitializers();
     }
 
     /**
-     * @dev Returns the decimals offset used for share calculations
-     * @return uint8 The number of decimal places offset between assets and shares
+     * @dev Runs the functions that live in the modules, which keep this contract under
+     * the contract size limit, on the storage of this contract.
      */
-    function _decimalsOffset() internal view override returns (uint8) {
-        return DECIMALS_OFFSET;
+    fallback() external {
+        _delegate(firstModule);
     }
 
     /**
-     * @dev Deposit assets to receive staking shares
-     * @param assets Amount of assets to deposit
-     * @param receiver Address that will receive the minted shares
-     * @return shares Amount of shares minted to the receiver
+     * @dev Returns the maximum assets `receiver` can deposit under the deposit caps
+     * @param receiver Address that would receive the minted shares
+     * @return uint256 Zero when paused or when the remaining room is below the minimum deposit
+     */
+    function maxDeposit(address receiver) public view override returns (uint256) {
+        if (paused() || isShutdown) return 0;
+        uint256 remaining = _remainingCap(depositCap, totalAssets());
+        uint256 walletRemaining = _remainingCap(walletDepositCap, _convertToAssets(balanceOf(receiver), Math.Rounding.Floor));
+        if (walletRemaining < remaining) remaining = walletRemaining;
+        return remaining < minDeposit ? 0 : remaining;
+    }
+
+    /**
+     * @dev Returns the maximum shares `receiver` can mint under the deposit caps
+     * @param receiver Address that would receive the minted shares
+     * @return uint256 The shares maxDeposit pays for after the input fee, unlimited when no cap applies
+     */
+    function maxMint(address receiver) public view override returns (uint256) {
+        uint256 maxAssets = maxDeposit(receiver);
+        if (maxAssets == type(uint256).max) return type(uint256).max;
+        // Mint charges the input fee on top, at most the receiver's rate whoever the caller is
+        (uint256 feeRate, ) = _feeRatesFor(receiver, receiver);
+        uint256 netAssets = maxAssets - Math.mulDiv(maxAssets, feeRate, 10000, Math.Rounding.Ceil);
+        return _convertToShares(netAssets, Math.Rounding.Floor);
+    }
+
+    /**
+     * @dev Returns the maximum assets `owner` can withdraw after the output fee
+     * @param owner Address that owns the shares
+     * @return uint256 Zero when paused, otherwise capped by the idle assets and the vault liquidity
      */
-    function deposit(
-        uint256 assets,
-        address receiver
-    )
-        public
-        override
-        amountGreaterThanZero(assets)
-        notZeroAddress(receiver)
-        nonReentrant
-        whenNotPaused
-        returns (uint256 shares)
-    {
-        // Calculate shares based on current exchange rate
-        shares = previewDeposit(assets);
-        // Process the deposit including fee calculations and vault interactions
-        _processDeposit(assets, shares, receiver);
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        if (paused()) return 0;
+        uint256 assets;
+        if (isShutdown) assets = _shutdownSharesToAssets(balanceOf(owner));
+        else (assets, ) = _previewRedeemFor(balanceOf(owner), owner);
+        uint256 liquidity = _idleAssets() + _availableLiquidity();
+        return assets < liquidity ? assets : liquidity;
     }
 
     /**
-     * @dev Withdraws assets by burning the corresponding shares.
-     * @param assets Amount of assets to withdraw
-     * @param receiver Address that will receive the withdrawn assets
-     * @param owner Address that owns the shares being burned
-     * @return shares Amount of shares burned for the withdrawal
+     * @dev Returns the maximum shares `owner` can redeem
+     * @param owner Address that owns the shares
+     * @return uint256 Zero when paused, otherwise capped by the idle assets and the vault liquidity
      */
-    function withdraw(
-        uint256 assets,
-        address receiver,
-        address owner
-    )
-        public
-        override
-        amountGreaterThanZero(assets)
-        notZeroAddress(receiver)
-        notZeroAddress(owner)
-        nonReentrant
-        whenNotPaused
-        returns (uint256 shares)
-    {
-        // Calculate shares required to withdraw the requested assets
-        shares = stakingVault.previewWithdraw(assets);
-        // Process withdrawal including fee calculations and vault interactions
-        _processWithdrawal(assets, shares, receiver, owner, true);
+    function maxRedeem(address owner) public view override returns (uint256) {
+        if (paused()) return 0;
+        return _redeemableShares(owner);
     }
 
     /**
-     * @dev Mint shares by depositing the equivalent amount of assets
+     * @dev Returns the shares the caller gets for depositing `assets`, after the input fee.
+     * The receiver is unknown, so the fee is the highest the caller can be charged: its exemption
+     * applies, while tiers and exemptions of the receiver only lower the fee deposit charges
+     * @param assets Amount of assets to deposit
+     * @return uint256 Shares minted by deposit at least
+     */
+    function previewDeposit(uint256 assets) public view override returns (uint256) {
+        return _previewDepositFor(assets, address(0));
+    }
+
+    /**
+     * @dev Returns the assets the caller pays to mint `shares`, including the highest input fee it can be charged
      * @param shares Amount of shares to mint
-     * @param receiver Address that will receive the minted shares
-     * @return assets Amount of assets required to mint the requested shares
+     * @return uint256 Assets taken by mint at most
      */
-    function mint(
-        uint256 shares,
-        address receiver
-    )
-        public
-        override
-        amountGreaterThanZero(shares)
-        notZeroAddress(receiver)
-        nonReentrant
-        whenNotPaused
-        returns (uint256 assets)
-    {
-        // Calculate assets required to mint the requested shares
-        assets = previewMint(shares);
-        // Process the deposit including fee calculations and vault interactions
-        _processDeposit(assets, shares, receiver);
+    function previewMint(uint256 shares) public view override returns (uint256) {
+        return _previewMintFor(shares, address(0));
     }
 
     /**
-     * @dev Redeem shares for equivalent assets
+     * @dev Returns the shares the caller burns to receive `assets`, including the highest output fee it can be charged
+     * @param assets Amount of assets to receive
+     * @return shares Shares burned by withdraw at most, pro-rata after a shutdown
+     */
+    function previewWithdraw(uint256 assets) public view override returns (uint256 shares) {
+        if (isShutdown) return _shutdownAssetsToShares(assets);
+        (shares, ) = _previewWithdrawFor(assets, address(0));
+    }
+
+    /**
+     * @dev Returns the assets the caller receives for redeeming `shares`, after the highest output fee it can pay
      * @param shares Amount of shares to redeem
-     * @param receiver Address that will receive the redeemed assets
-     * @param owner Address that owns the shares being redeemed
-     * @return assets Amount of assets received for the redeemed shares
+     * @return assets Assets sent by redeem at least, pro-rata after a shutdown
+     */
+    function previewRedeem(uint256 shares) public view override returns (uint256 assets) {
+        if (isShutdown) return _shutdownSharesToAssets(shares);
+        (assets, ) = _previewRedeemFor(shares, address(0));
+    }
+
+    /**
+     * @dev Deposit assets to receive staking shares, implemented by the StakingFlows module
+     */
+    function deposit(uint256, address) public override returns (uint256) {
+        _delegate(firstModule);
+    }
+
+    /**
+     * @dev Withdraws assets by burning the corresponding shares, implemented by the StakingFlows module
+     */
+    function withdraw(uint256, address, address) public override returns (uint256) {
+        _delegate(firstModule);
+    }
+
+    /**
+     * @dev Mint shares by depositing the equivalent amount of assets, implemented by the StakingFlows module
+     */
+    function mint(uint256, address) public override returns (uint256) {
+        _delegate(firstModule);
+    }
+
+    /**
+     * @dev Redeem shares for equivalent assets, implemented by the StakingFlows module
      */
-    function redeem(
-        uint256 shares,
-        address receiver,
-        address owner
-    )
-        public
-        override
-        amountGreaterThanZero(shares)
-        notZeroAddress(receiver)
-        notZeroAddress(owner)
-        nonReentrant
-        whenNotPaused
-        returns (uint256 assets)
-    {
-        // Calculate assets equivalent to the shares being redeemed
-        assets = previewRedeem(shares);
-        // Process redemption including fee calculations and vault interactions
-        _processWithdrawal(assets, shares, receiver, owner, false);
+    function redeem(uint256, address, address) public override returns (uint256) {
+        _delegate(firstModule);
     }
-}
\ No newline at end of file
+}
@@ -42,4 +42,22 @@ abstract contract StakingModifiers {
         if (newVault == currentVault) revert Errors.SameVaultAsset();
         _;
     }
+
+    /// @notice Reverts while a partial vault migration is running
+    modifier noActiveMigration(address migrationVault) {
+        if (migrationVault != address(0)) revert Errors.MigrationInProgress();
+        _;
+    }
+
+    /// @notice Reverts once the contract has been shut down
+    modifier notShutdown(bool shutdown) {
+        if (shutdown) revert Errors.ShutdownActive();
+        _;
+    }
+
+    /// @notice Reverts once the deadline has passed
+    modifier beforeDeadline(uint256 deadline) {
+        if (block.timestamp > deadline) revert Errors.DeadlineExpired(deadline);
+        _;
+    }
 }
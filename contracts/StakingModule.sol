@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "./StakingInternal.sol";
+
+/**
+ * @title StakingModule
+ * @dev Base of the modules the StakingManager delegates the calls it does not implement to.
+ * Modules run on the storage of the StakingManager proxy and chain the calls they do not implement
+ * to the next module, so the StakingManager and every module stay under the contract size limit.
+ */
+abstract contract StakingModule is StakingInternal {
+    /// @dev Module that receives the calls this module does not implement, or zero for the last module
+    address internal immutable nextModule;
+
+    constructor(address _nextModule) {
+        nextModule = _nextModule;
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Forwards the calls this module does not implement to the next module.
+     */
+    fallback() external {
+        if (nextModule == address(0)) revert();
+        _delegate(nextModule);
+    }
+}
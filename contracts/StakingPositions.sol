@@ -0,0 +1,327 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "./StakingModule.sol";
+
+/**
+ * @title StakingPositions
+ * @dev StakingManager module for the positions of share holders: referrals, locks, rewards,
+ * the withdrawal queue and the views over them and the accounting.
+ */
+contract StakingPositions is StakingModule {
+    using SafeERC20 for IERC20;
+
+    constructor(address _nextModule) StakingModule(_nextModule) {}
+
+    /**
+     * @dev Registers `code` for the caller so depositors can refer them without knowing their address
+     * @param code Referral code to register
+     */
+    function registerReferralCode(bytes32 code) external {
+        if (code == bytes32(0) || referralCodes[code] != address(0)) revert Errors.ReferralCodeTaken(code);
+        referralCodes[code] = _msgSender();
+        emit Events.ReferralCodeRegistered(code, _msgSender());
+    }
+
+    /**
+     * @dev Sends the referral rewards credited to the caller
+     * @param receiver Address that will receive the rewards
+     * @return assets Amount of assets sent
+     */
+    function claimReferralRewards(
+        address receiver
+    ) external nonReentrant notZeroAddress(receiver) validFee(referralRewards[_msgSender()]) returns (uint256 assets) {
+        assets = referralRewards[_msgSender()];
+        referralRewards[_msgSender()] = 0;
+        totalReferralRewards -= assets;
+        IERC20(asset()).safeTransfer(receiver, assets);
+
+        emit Events.ReferralRewardsClaimed(_msgSender(), receiver, assets);
+    }
+
+    /**
+     * @dev Locks shares for one of the lock terms in exchange for a lower output fee at maturity
+     * @param shares Amount of shares to lock
+     * @param termId Index of the lock term in getLockTerms
+     * @return lockId Id of the created lock
+     */
+    function lock(
+        uint256 shares,
+        uint256 termId
+    )
+        external
+        amountGreaterThanZero(shares)
+        nonReentrant
+        whenNotPaused
+        notShutdown(isShutdown)
+        returns (uint256 lockId)
+    {
+        if (termId >= lockTerms.length) revert Errors.InvalidLockTerm(termId);
+        LockTerm memory term = lockTerms[termId];
+        _holdShares(_msgSender(), shares);
+
+        lockId = nextLockId++;
+        uint256 unlockTime = block.timestamp + term.duration;
+        locks[lockId] = Lock({
+            owner: _msgSender(),
+            shares: shares,
+            unlockTime: unlockTime,
+            outputFeeRate: term.outputFeeRate,
+            earlyUnlockPenalty: term.earlyUnlockPenalty,
+            released: false
+        });
+        userLocks[_msgSender()].push(lockId);
+        totalLockedShares += shares;
+
+        emit Events.SharesLocked(lockId, _msgSender(), shares, unlockTime);
+    }
+
+    /**
+     * @dev Releases a lock and redeems its shares. Unlocking before the unlock time pays the lock's penalty
+     * @param lockId Id of the lock to release
+     * @param receiver Address that will receive the assets
+     * @return assets Amount of assets sent to the receiver
+     */
+    function unlock(
+        uint256 lockId,
+        address receiver
+    ) external notZeroAddress(receiver) nonReentrant whenNotPaused returns (uint256 assets) {
+        Lock storage userLock = locks[lockId];
+        if (userLock.owner == address(0)) revert Errors.LockNotFound(lockId);
+        if (userLock.owner != _msgSender()) revert Errors.NotLockOwner(lockId);
+        if (userLock.released) revert Errors.LockAlreadyReleased(lockId);
+
+        _accrueFees();
+        uint256 penaltyShares;
+        (assets, penaltyShares) = _releaseLock(lockId);
+        IERC20(asset()).safeTransfer(receiver, assets);
+        _mintTreasuryFees();
+
+        emit IERC4626.Withdraw(_msgSender(), receiver, _msgSender(), assets, userLock.shares);
+        emit Events.LockReleased(lockId, receiver, assets, penaltyShares);
+    }
+
+    /**
+     * @dev Sends every reward token earned by `account` to it. Callable by anyone.
+     * @param account Share holder to pay out
+     * @return amounts Amount of each reward token sent, in getRewardTokens order
+     */
+    function claimRewards(address account) external nonReentrant notZeroAddress(account) returns (uint256[] memory amounts) {
+        _updateRewards(account);
+        amounts = new uint256[](rewardTokens.length);
+        for (uint256 i = 0; i < rewardTokens.length; ++i) {
+            address token = rewardTokens[i];
+            uint256 amount = accruedRewards[token][account];
+            if (amount == 0) continue;
+
+            accruedRewards[token][account] = 0;
+            rewardReserved[token] -= amount;
+            amounts[i] = amount;
+            IERC20(token).safeTransfer(account, amount);
+
+            emit Events.RewardsClaimed(account, token, amount);
+        }
+    }
+
+    /**
+     * @dev Crystallizes pending management and performance fees without depositing or withdrawing
+     */
+    function accrue() external nonReentrant {
+        _accrueFees();
+    }
+
+    /**
+     * @dev Locks shares into a withdrawal request that is fulfilled once the vault has liquidity.
+     * @param shares Amount of shares to lock
+     * @param receiver Address that will receive the assets when claiming
+     * @param owner Address that owns the shares being locked
+     * @return requestId Id of the created withdrawal request
+     */
+    function requestWithdrawal(
+        uint256 shares,
+        address receiver,
+        address owner
+    )
+        external
+        amountGreaterThanZero(shares)
+        notZeroAddress(receiver)
+        notZeroAddress(owner)
+        nonReentrant
+        whenNotPaused
+        notShutdown(isShutdown)
+        returns (uint256 requestId)
+    {
+        _accrueFees();
+        if (_msgSender() != owner) _spendAllowance(owner, _msgSender(), shares);
+        _holdShares(owner, shares);
+
+        requestId = nextWithdrawalRequestId++;
+        withdrawalRequests[requestId] = WithdrawalRequest({
+            owner: owner,
+            receiver: receiver,
+            shares: shares,
+            assets: 0,
+            requestTime: block.timestamp,
+            fulfilled: false,
+            claimed: false
+        });
+        userWithdrawalRequests[owner].push(requestId);
+        queuedWithdrawalShares += shares;
+
+        emit Events.WithdrawalRequested(requestId, owner, receiver, shares);
+    }
+
+    /**
+     * @dev Fulfills queued withdrawal requests in FIFO order as vault liquidity allows. Callable by anyone.
+     * @param maxRequests Maximum number of requests to fulfill
+     * @return fulfilled Number of requests fulfilled
+     */
+    function processWithdrawalQueue(
+        uint256 maxRequests
+    ) external nonReentrant whenNotPaused notShutdown(isShutdown) returns (uint256 fulfilled) {
+        _accrueFees();
+        fulfilled = _processWithdrawalQueue(maxRequests);
+    }
+
+    /**
+     * @dev Sends the assets of a fulfilled withdrawal request to its receiver.
+     * After a shutdown, unfulfilled requests are fulfilled on claim
+     * @param requestId Id of the withdrawal request
+     * @return assets Amount of assets sent to the receiver
+     */
+    function claimWithdrawal(uint256 requestId) external nonReentrant returns (uint256 assets) {
+        WithdrawalRequest storage request = withdrawalRequests[requestId];
+        if (request.owner == address(0)) revert Errors.WithdrawalRequestNotFound(requestId);
+        if (_msgSender() != request.owner && _msgSender() != request.receiver) {
+            revert Errors.NotWithdrawalRequestParty(requestId);
+        }
+        // After a shutdown queued shares exit pro-rata like every other holder
+        if (!request.fulfilled && isShutdown) _fulfillShutdownRequest(requestId);
+        if (!request.fulfilled) revert Errors.WithdrawalNotFulfilled(requestId);
+        if (request.claimed) revert Errors.WithdrawalAlreadyClaimed(requestId);
+
+        request.claimed = true;
+        assets = request.assets;
+        claimableWithdrawalAssets -= assets;
+        IERC20(asset()).safeTransfer(request.receiver, assets);
+
+        emit Events.WithdrawalClaimed(requestId, request.receiver, assets);
+    }
+
+    /**
+     * @dev Returns the total assets staked by a user, valued like convertToAssets before the output fee.
+     * @param user The address of the user.
+     * @return The user's share of totalAssets across the vaults and the idle buffer.
+     */
+    function totalUserAssets(address user) external view returns (uint256) {
+        return _convertToAssets(balanceOf(user), Math.Rounding.Floor);
+    }
+
+    /**
+     * @dev Returns every component of the accounting so it can be reconciled on-chain.
+     * Staking vault shares split into fee shares and user vault shares, and
+     * managedAssets == userAssets + feeAssets, where userAssets is totalAssets and backs userShares.
+     * Fee shares include the management and performance fees that accrue on the next interaction.
+     * @return managedAssets The idle assets plus the assets held in all vaults.
+     * @return vaultShares The staking vault shares held by this contract.
+     * @return feeShares The staking vault shares that belong to the fee bucket.
+     * @return feeAssets The value of the fee shares in assets.
+     * @return userAssets The assets owned by share holders.
+     * @return userShares The StakingManager shares in circulation.
+     */
+    function getAccounting()
+        external
+        view
+        returns (
+            uint256 managedAssets,
+            uint256 vaultShares,
+            uint256 feeShares,
+            uint256 feeAssets,
+            uint256 userAssets,
+            uint256 userShares
+        )
+    {
+        managedAssets = _managedAssets();
+        vaultShares = stakingVault.balanceOf(address(this));
+        feeShares = totalFeeShares + _pendingFeeShares();
+        userAssets = _userAssets();
+        feeAssets = managedAssets - userAssets;
+        userShares = totalSupply();
+    }
+
+    /**
+     * @dev Returns the performance fee earned since the last crystallization.
+     * @return feeAssets The fee amount in assets.
+     * @return feeShares The vault shares that will be moved to the fee bucket.
+     */
+    function pendingPerformanceFee() external view returns (uint256 feeAssets, uint256 feeShares) {
+        (feeAssets, feeShares, ) = _pendingPerformanceFee(totalFeeShares);
+    }
+
+    /**
+     * @dev Returns the management fee streamed since the last accrual.
+     * @return feeAssets The fee amount in assets.
+     * @return feeShares The vault shares that will be moved to the fee bucket.
+     * @return elapsed The seconds since the last accrual.
+     */
+    function pendingManagementFee() external view returns (uint256 feeAssets, uint256 feeShares, uint256 elapsed) {
+        (feeShares, elapsed) = _pendingManagementFee();
+        feeAssets = stakingVault.convertToAssets(feeShares);
+    }
+
+    /**
+     * @dev Returns the ids of the withdrawal requests of a user that are not claimed yet.
+     * @param user The owner of the requests.
+     * @return requestIds The pending request ids, oldest first.
+     */
+    function getPendingWithdrawalRequests(address user) external view returns (uint256[] memory requestIds) {
+        uint256[] storage ids = userWithdrawalRequests[user];
+        uint256 count;
+        for (uint256 i = 0; i < ids.length; ++i) {
+            if (!withdrawalRequests[ids[i]].claimed) ++count;
+        }
+        requestIds = new uint256[](count);
+        count = 0;
+        for (uint256 i = 0; i < ids.length; ++i) {
+            if (!withdrawalRequests[ids[i]].claimed) requestIds[count++] = ids[i];
+        }
+    }
+
+    /**
+     * @dev Returns the totals of the withdrawal queue.
+     * @return pendingRequests The number of requests waiting to be fulfilled.
+     * @return pendingShares The shares locked in those requests.
+     * @return claimableAssets The assets reserved for fulfilled requests that are not claimed yet.
+     */
+    function getWithdrawalQueueInfo()
+        external
+        view
+        returns (uint256 pendingRequests, uint256 pendingShares, uint256 claimableAssets)
+    {
+        pendingRequests = nextWithdrawalRequestId - nextWithdrawalToFulfill;
+        pendingShares = queuedWithdrawalShares;
+        claimableAssets = claimableWithdrawalAssets;
+    }
+
+    /**
+     * @dev Returns the locks of a user that are not released yet.
+     * @param user The owner of the locks.
+     * @return lockIds The lock ids, oldest first.
+     * @return userLockDetails The lock of each id, including its unlock time.
+     */
+    function getUserLocks(address user) external view returns (uint256[] memory lockIds, Lock[] memory userLockDetails) {
+        uint256[] storage ids = userLocks[user];
+        uint256 count;
+        for (uint256 i = 0; i < ids.length; ++i) {
+            if (!locks[ids[i]].released) ++count;
+        }
+        lockIds = new uint256[](count);
+        userLockDetails = new Lock[](count);
+        count = 0;
+        for (uint256 i = 0; i < ids.length; ++i) {
+            if (locks[ids[i]].released) continue;
+            lockIds[count] = ids[i];
+            userLockDetails[count++] = locks[ids[i]];
+        }
+    }
+}
@@ -2,32 +2,46 @@
 pragma solidity ^0.8.29;
 
 import "./interfaces/IMorphoVault.sol";
-import "./StakingModifiers.sol";
-import "./StakingState.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "./StakingInternal.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-
-import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC4626Upgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/MulticallUpgradeable.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
 
 
 abstract contract StakingProxy is
-    Initializable,
+    StakingInternal,
     UUPSUpgradeable,
-    OwnableUpgradeable,
-    ReentrancyGuardUpgradeable,
+    ERC20PermitUpgradeable,
     ERC4626Upgradeable,
-    PausableUpgradeable,
-    StakingModifiers,
-    StakingState
+    MulticallUpgradeable
 {
+    /// @notice The reinitializer version this implementation upgrades proxies to
+    uint64 public constant REINITIALIZER_VERSION = 4;
+
+    /// @dev OpenZeppelin's Ownable storage, which still holds the owner of V1 proxies until {initializeV2}
+    /// @custom:storage-location erc7201:openzeppelin.storage.Ownable
+    struct LegacyOwnableStorage {
+        address _owner;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("openzeppelin.storage.Ownable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant LEGACY_OWNABLE_STORAGE = 0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300;
+
     /**
-     * @dev Returns the current version of the contract.
+     * @dev Returns the current version of the contract, following its latest reinitializer.
      */
     function version() external pure returns (string memory) {
-        return "1.0.0";
+        return string.concat(Strings.toString(REINITIALIZER_VERSION), ".0.0");
+    }
+
+    /**
+     * @dev Returns the version of the last initializer or reinitializer that ran on this proxy.
+     */
+    function initializedVersion() external view returns (uint64) {
+        return _getInitializedVersion();
     }
 
     /**
@@ -36,28 +50,32 @@ abstract contract StakingProxy is
      */
     function _authorizeUpgrade(
         address newImplementation
-    ) internal override onlyOwner {}
+    ) internal override onlyRole(UPGRADER_ROLE) {}
     
     /**
      * @dev Initializes the contract with the staking vault address.
      * @param _stakingVault The address of the IERC4626 vault where assets will be staked.
      * @param name The name of the ERC20 token.
      * @param symbol The symbol of the ERC20 token.
-     * @param owner The owner of the contract.
+     * @param owner The account receiving the admin role and every operational role.
+     * @param _feeRateChangeDelay The minimum delay between scheduling and executing fee rate changes.
      */
     function initialize(
         IMorphoVault _stakingVault,
         string memory name,
         string memory symbol,
-        address owner
+        address owner,
+        uint256 _feeRateChangeDelay
     ) public initializer notZeroAddress(address(_stakingVault)) notZeroAddress(owner) {
         // Initialize inherited contracts
-        __Ownable_init(owner);
+        __AccessControl_init();
         __ReentrancyGuard_init();
         __ERC20_init(name, symbol);
+        __ERC20Permit_init(name);
         __ERC4626_init(IERC20(_stakingVault.asset()));
         __Pausable_init();
         __UUPSUpgradeable_init();
+        __Multicall_init();
 
         // Initialize immutable-like variables (stored in storage for upgradeable contracts)
         stakingVault = _stakingVault;
@@ -65,21 +83,122 @@ abstract contract StakingProxy is
         // Initialize mutable state with 0% fees
         inputFeeRate = 0;
         outputFeeRate = 0;
+        if (_feeRateChangeDelay > MAX_FEE_RATE_CHANGE_DELAY) revert Errors.InvalidFeeRateChangeDelay();
+        _setFeeRateChangeDelay(_feeRateChangeDelay);
+        // Grant the admin and all operational roles to the owner
+        _grantDefaultRoles(owner);
+        // Start the fee checkpoints that older proxies get from initializeV4
+        _startFeeCheckpoints();
 
         emit Events.StakingVaultSet(_stakingVault, IERC20(asset()));
     }
 
+    /**
+     * @dev Upgrades a V1 proxy to role-based access control.
+     * Maps the V1 owner to the admin role and all operational roles and clears the ownership,
+     * so existing deployments keep working and roles remain the only admin model.
+     * Proxies initialized by this implementation have no V1 owner and only move to version 2.
+     * Only an admin, which the V1 owner becomes, can run it.
+     */
+    function initializeV2() external reinitializer(2) {
+        LegacyOwnableStorage storage $ = _getLegacyOwnableStorage();
+        if ($._owner != address(0)) {
+            _grantDefaultRoles($._owner);
+            delete $._owner;
+        }
+        _checkRole(DEFAULT_ADMIN_ROLE);
+    }
+
+    /**
+     * @dev Upgrades a V2 proxy to EIP-2612 permit support on the share token.
+     * Sets up the EIP-712 domain from the current token name, which V1 and V2 proxies never initialized.
+     */
+    function initializeV3() external reinitializer(3) onlyRole(UPGRADER_ROLE) {
+        __ERC20Permit_init(name());
+    }
+
+    /**
+     * @dev Upgrades a V3 proxy to the fee checkpoints introduced with fee-aware accounting.
+     * Starts the high-water mark and the management fee period from the upgrade,
+     * which V3 proxies only set on their first fee accrual.
+     */
+    function initializeV4() external reinitializer(4) onlyRole(UPGRADER_ROLE) {
+        _startFeeCheckpoints();
+    }
+
+    /**
+     * @dev Starts the high-water mark and the management fee period if they are not set yet.
+     */
+    function _startFeeCheckpoints() internal {
+        if (highWaterMark == 0) highWaterMark = _vaultSharePrice();
+        if (lastManagementFeeAccrual == 0) lastManagementFeeAccrual = block.timestamp;
+    }
+
+    /**
+     * @dev Returns the Ownable storage V1 proxies kept their owner in.
+     */
+    function _getLegacyOwnableStorage() private pure returns (LegacyOwnableStorage storage $) {
+        assembly {
+            $.slot := LEGACY_OWNABLE_STORAGE
+        }
+    }
+
+    /**
+     * @dev Grants the admin role and every operational role to `account`.
+     * @param account The address receiving the roles.
+     */
+    function _grantDefaultRoles(address account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, account);
+        _grantRole(FEE_MANAGER_ROLE, account);
+        _grantRole(PAUSER_ROLE, account);
+        _grantRole(MIGRATOR_ROLE, account);
+        _grantRole(TREASURER_ROLE, account);
+        _grantRole(UPGRADER_ROLE, account);
+        _grantRole(KEEPER_ROLE, account);
+    }
+
     /**
      * @dev Override totalAssets to resolve conflict and implement ERC4626 logic
-     * Returns the total amount of underlying assets held by the vault
+     * Returns the underlying assets owned by share holders, excluding the fee bucket
      */
     function totalAssets() public view override(ERC4626Upgradeable, StakingState) returns (uint256) {
-        // Return total assets from the underlying staking vault
-        return stakingVault.convertToAssets(stakingVault.balanceOf(address(this)));
+        // Return the staking vault, the allocation vaults and the idle buffer minus the fee bucket
+        return _userAssets();
+    }
+
+    /// @dev decimals function conflict resolution
+    function decimals() public view override(ERC20Upgradeable, ERC4626Upgradeable) returns (uint8) {
+        return super.decimals();
     }
 
     /// @dev asset function conflict resolution
-    function asset() public view override(StakingState, ERC4626Upgradeable) returns (address) {
-        return super.asset();
+    function asset() public view override(StakingInternal, ERC4626Upgradeable) returns (address) {
+        return ERC4626Upgradeable.asset();
+    }
+
+    /// @dev _update function conflict resolution
+    function _update(address from, address to, uint256 value) internal override(ERC20Upgradeable, StakingInternal) {
+        super._update(from, to, value);
+    }
+
+    /// @dev _decimalsOffset function conflict resolution
+    function _decimalsOffset() internal view override(StakingInternal, ERC4626Upgradeable) returns (uint8) {
+        return StakingInternal._decimalsOffset();
+    }
+
+    /// @dev _convertToShares function conflict resolution
+    function _convertToShares(
+        uint256 assets,
+        Math.Rounding rounding
+    ) internal view override(StakingInternal, ERC4626Upgradeable) returns (uint256) {
+        return StakingInternal._convertToShares(assets, rounding);
+    }
+
+    /// @dev _convertToAssets function conflict resolution
+    function _convertToAssets(
+        uint256 shares,
+        Math.Rounding rounding
+    ) internal view override(StakingInternal, ERC4626Upgradeable) returns (uint256) {
+        return StakingInternal._convertToAssets(shares, rounding);
     }
 }
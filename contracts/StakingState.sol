@@ -4,6 +4,7 @@ pragma solidity ^0.8.29;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "./interfaces/Events.sol";
 
 abstract contract StakingState {
@@ -22,29 +23,422 @@ abstract contract StakingState {
     // Maximum fee rate (10% = 1000 basis points)
     uint256 public constant MAX_FEE_RATE = 1000;
 
+    // Role allowed to change the input and output fee rates
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+
+    // Role allowed to pause and unpause staking operations
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    // Role allowed to migrate assets to a new vault
+    bytes32 public constant MIGRATOR_ROLE = keccak256("MIGRATOR_ROLE");
+
+    // Role allowed to withdraw collected fee shares
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+
+    // Role allowed to upgrade the implementation
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+
+    // Role allowed to rebalance assets between vaults
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
     // Total shares minted from staked fees
     uint256 public totalFeeShares;
 
     /// @dev Offset to convert token decimals to 18 decimals for share calculations
     uint8 public DECIMALS_OFFSET;
 
+    // Maximum delay that can be configured for fee rate changes
+    uint256 public constant MAX_FEE_RATE_CHANGE_DELAY = 30 days;
+
+    /// @dev Fee rates waiting for their timelock to expire
+    struct FeeRateChange {
+        uint256 inputFeeRate;
+        uint256 outputFeeRate;
+        uint256 activationTime; // zero when no change is pending
+    }
+
+    // Minimum delay between scheduling and executing a fee rate change
+    uint256 public feeRateChangeDelay;
+
+    // Fee rate change scheduled by the fee manager
+    FeeRateChange public pendingFeeRateChange;
+
+    // Sum of all fee recipient weights in basis points (10000 = 100%)
+    uint256 public constant TOTAL_FEE_WEIGHT = 10000;
+
+    // Maximum number of fee recipients to keep distribution gas bounded
+    uint256 public constant MAX_FEE_RECIPIENTS = 10;
+
+    /// @dev Beneficiary receiving a weighted cut of collected fees
+    struct FeeRecipient {
+        address account;
+        uint256 weight; // basis points of TOTAL_FEE_WEIGHT
+    }
+
+    // Beneficiaries of distributed fees
+    FeeRecipient[] internal feeRecipients;
+
+    // Maximum performance fee rate (20% = 2000 basis points)
+    uint256 public constant MAX_PERFORMANCE_FEE_RATE = 2000;
+
+    // Vault shares used to quote the vault share price; covers shares with up to 36 more decimals than the asset
+    uint256 public constant SHARE_PRICE_PRECISION = 1e36;
+
+    // Performance fee rate in basis points, charged on vault share price growth above the high-water mark
+    uint256 public performanceFeeRate;
+
+    // Highest vault share price on which the performance fee has been charged
+    uint256 public highWaterMark;
+
+    // Period over which the management fee rate is charged
+    uint256 public constant SECONDS_PER_YEAR = 365 days;
+
+    // Annual management fee rate in basis points, charged per second on user-owned assets
+    uint256 public managementFeeRate;
+
+    // Timestamp of the last management fee accrual
+    uint256 public lastManagementFeeAccrual;
+
+    // Maximum number of fee tiers to keep fee resolution gas bounded
+    uint256 public constant MAX_FEE_TIERS = 10;
+
+    /// @dev Discounted fee rates for accounts holding at least `minShares`
+    struct FeeTier {
+        uint256 minShares;
+        uint256 inputFeeRate;
+        uint256 outputFeeRate;
+    }
+
+    // Accounts that pay no input or output fees
+    mapping(address => bool) public isFeeExempt;
+
+    // Volume-based fee tiers sorted by ascending share threshold
+    FeeTier[] internal feeTiers;
+
+    // Maximum total assets the contract accepts (0 = unlimited)
+    uint256 public depositCap;
+
+    // Maximum assets a single receiver can hold (0 = unlimited)
+    uint256 public walletDepositCap;
+
+    // Minimum assets accepted per deposit
+    uint256 public minDeposit;
+
+    // Maximum cooldown that can be configured for queued withdrawals
+    uint256 public constant MAX_WITHDRAWAL_COOLDOWN = 30 days;
+
+    /// @dev Shares locked for a queued withdrawal
+    struct WithdrawalRequest {
+        address owner;
+        address receiver;
+        uint256 shares;
+        uint256 assets; // net assets reserved once fulfilled
+        uint256 requestTime;
+        bool fulfilled;
+        bool claimed;
+    }
+
+    // Queued withdrawals by request id
+    mapping(uint256 => WithdrawalRequest) public withdrawalRequests;
+
+    // Request ids created by each owner
+    mapping(address => uint256[]) internal userWithdrawalRequests;
+
+    // Id assigned to the next withdrawal request
+    uint256 public nextWithdrawalRequestId;
+
+    // Id of the oldest request waiting to be fulfilled
+    uint256 public nextWithdrawalToFulfill;
+
+    // Shares locked in requests that are not fulfilled yet
+    uint256 public queuedWithdrawalShares;
+
+    // Assets held by the contract for fulfilled requests that are not claimed yet
+    uint256 public claimableWithdrawalAssets;
+
+    // Minimum time between requesting a withdrawal and its fulfillment
+    uint256 public withdrawalCooldown;
+
+    // Sum of all vault target weights in basis points (10000 = 100%)
+    uint256 public constant TOTAL_ALLOCATION_WEIGHT = 10000;
+
+    // Maximum number of vaults next to the staking vault to keep routing gas bounded
+    uint256 public constant MAX_ALLOCATION_VAULTS = 5;
+
+    /// @dev Additional vault receiving a target share of user assets
+    struct VaultAllocation {
+        IERC4626 vault;
+        uint256 weight; // basis points of TOTAL_ALLOCATION_WEIGHT
+    }
+
+    // Vaults next to the staking vault; the staking vault gets the remaining weight and holds the fee shares
+    VaultAllocation[] internal allocationVaults;
+
+    // Vault receiving the staking vault assets during a partial migration (zero when none is running)
+    IERC4626 public migrationVault;
+
+    // Assets moved to the migration vault so far
+    uint256 public migratedAssets;
+
+    // Migration vault shares received so far
+    uint256 public migratedShares;
+
+    // Set for good by an emergency shutdown; deposits and migrations stay blocked and holders exit pro-rata
+    bool public isShutdown;
+
+    // Shares held by this contract for the fee bucket after a shutdown
+    uint256 public shutdownFeeShares;
+
+    // Maximum share of total assets that can be kept idle (50% = 5000 basis points)
+    uint256 public constant MAX_BUFFER_RATE = 5000;
+
+    // Target share of total assets kept idle in the contract to serve withdrawals, in basis points
+    uint256 public bufferRate;
+
+    // Maximum number of reward tokens to keep share transfer gas bounded
+    uint256 public constant MAX_REWARD_TOKENS = 5;
+
+    // Scale of the reward per share accumulators
+    uint256 public constant REWARD_PRECISION = 1e36;
+
+    /// @dev Reward tokens streamed linearly to share holders
+    struct RewardStream {
+        uint256 rate; // tokens per second
+        uint256 startTime;
+        uint256 endTime;
+        uint256 lastUpdate;
+        uint256 rewardPerShare; // scaled by REWARD_PRECISION
+    }
+
+    // Tokens distributed to share holders
+    address[] internal rewardTokens;
+
+    // Current stream and accumulator of each reward token
+    mapping(address => RewardStream) public rewardStreams;
+
+    // Reward tokens still to be streamed or claimed; anything above is unallocated
+    mapping(address => uint256) public rewardReserved;
+
+    // Accumulator value at the last update of each holder, by token
+    mapping(address => mapping(address => uint256)) internal rewardPerSharePaid;
+
+    // Rewards earned but not claimed yet, by token and holder
+    mapping(address => mapping(address => uint256)) internal accruedRewards;
+
+    // Maximum number of lock terms to keep lock term lookups gas bounded
+    uint256 public constant MAX_LOCK_TERMS = 5;
+
+    // Longest lock term that can be configured
+    uint256 public constant MAX_LOCK_DURATION = 365 days;
+
+    // Maximum early unlock penalty (20% = 2000 basis points)
+    uint256 public constant MAX_EARLY_UNLOCK_PENALTY = 2000;
+
+    /// @dev Lock duration with its fee terms
+    struct LockTerm {
+        uint256 duration;
+        uint256 outputFeeRate; // applied on unlocks after maturity
+        uint256 earlyUnlockPenalty; // basis points of the locked shares moved to the fee bucket
+    }
+
+    /// @dev Shares locked by their owner until `unlockTime`
+    struct Lock {
+        address owner;
+        uint256 shares;
+        uint256 unlockTime;
+        uint256 outputFeeRate;
+        uint256 earlyUnlockPenalty;
+        bool released;
+    }
+
+    // Lock terms offered to holders, sorted by ascending duration
+    LockTerm[] internal lockTerms;
+
+    // Locks by id
+    mapping(uint256 => Lock) public locks;
+
+    // Lock ids created by each owner
+    mapping(address => uint256[]) internal userLocks;
+
+    // Id assigned to the next lock
+    uint256 public nextLockId;
+
+    // Shares held by this contract for locks that are not released yet
+    uint256 public totalLockedShares;
+
+    // Maximum share of the input fee credited to referrers (50% = 5000 basis points)
+    uint256 public constant MAX_REFERRAL_FEE_SHARE = 5000;
+
+    // Share of the input fee of referred deposits credited to the referrer, in basis points
+    uint256 public referralFeeShare;
+
+    // Referrer behind each registered referral code
+    mapping(bytes32 => address) public referralCodes;
+
+    // Total assets deposited through each referrer
+    mapping(address => uint256) public referredAssets;
+
+    // Referral rewards in assets each referrer can claim
+    mapping(address => uint256) public referralRewards;
+
+    // Assets held by this contract for unclaimed referral rewards
+    uint256 public totalReferralRewards;
+
+    // Account receiving fees as StakingManager shares (zero keeps fees in the fee bucket)
+    address public feeTreasury;
+
+    /// @dev Shorter fee rate change delay waiting for the current delay to expire
+    struct FeeRateChangeDelayChange {
+        uint256 delay;
+        uint256 activationTime; // zero when no change is pending
+    }
+
+    // Fee rate change delay reduction scheduled by the admin
+    FeeRateChangeDelayChange public pendingFeeRateChangeDelay;
+
+    /// @dev Every fee rate the fee manager schedules through `pendingFeeRateChange`
+    struct FeeRates {
+        uint256 inputFeeRate;
+        uint256 outputFeeRate;
+        uint256 managementFeeRate;
+        uint256 performanceFeeRate;
+    }
+
+    // Management and performance fee rates of `pendingFeeRateChange`, which activate together with it
+    uint256 public pendingManagementFeeRate;
+    uint256 public pendingPerformanceFeeRate;
+
+    // Highest share price on which the performance fee has been charged, for the vaults next to the staking vault
+    mapping(IERC4626 => uint256) public vaultHighWaterMarks;
+
+    // Shares held by this contract for the locks and queued withdrawals of each owner, which earn rewards for it
+    mapping(address => uint256) internal heldShares;
+
+    /**
+     * @dev Returns the total assets owned by share holders.
+     * It is calculated by converting the shares held in the staking vault and every allocation vault into assets,
+     * adding the idle assets held by the contract and subtracting the fee bucket, including pending fees.
+     * @return The assets backing the StakingManager shares.
+     */
+    function totalAssets() public view virtual returns (uint256) {
+        return _userAssets();
+    }
+
+    /**
+     * @dev Returns the assets held in the staking vault and all allocation vaults.
+     */
+    function _totalVaultAssets() internal view returns (uint256) {
+        return _vaultAssets(stakingVault) + _otherVaultAssets();
+    }
+
+    /**
+     * @dev Returns the assets held outside the staking vault, in the allocation vaults and the migration vault.
+     */
+    function _otherVaultAssets() internal view returns (uint256 assets) {
+        IERC4626[] memory vaults = _vaults();
+        for (uint256 i = 1; i < vaults.length; ++i) {
+            assets += _vaultAssets(vaults[i]);
+        }
+    }
+
     /**
-     * @dev Returns the total assets staked by a user.
-     * @param user The address of the user.
-     * @return The total assets staked by the user.
+     * @dev Returns the assets held by this contract that are not reserved for claimable withdrawals
+     * or referral rewards.
      */
-    function totalUserAssets(address user) external view returns (uint256) {
-        return stakingVault.previewRedeem(IERC20(address(this)).balanceOf(user));
+    function _idleAssets() internal view returns (uint256) {
+        return IERC20(asset()).balanceOf(address(this)) - claimableWithdrawalAssets - totalReferralRewards;
     }
 
     /**
-     * @dev Returns the total assets in the vault.
-     * This is the total amount of assets that have been staked in the vault from stakingManager.
-     * It is calculated by converting the total shares of the contract into assets.
-     * @return The total assets in the vault.
+     * @dev Returns the assets backing all shares: idle assets plus everything held in the vaults.
      */
-    function totalAssets() external view virtual returns (uint256) {
-        return stakingVault.convertToAssets(stakingVault.balanceOf(address(this)));
+    function _managedAssets() internal view returns (uint256) {
+        return _idleAssets() + _totalVaultAssets();
+    }
+
+    /**
+     * @dev Returns the managed assets minus the fee bucket, including fees not accrued yet.
+     * After a shutdown the fee bucket is held as shares, so all managed assets are returned.
+     */
+    function _userAssets() internal view returns (uint256) {
+        uint256 managed = _managedAssets();
+        uint256 feeAssets = stakingVault.convertToAssets(totalFeeShares + _pendingFeeShares());
+        return managed > feeAssets ? managed - feeAssets : 0;
+    }
+
+    /**
+     * @dev Converts shares to their pro-rata part of the shutdown assets, rounding down.
+     */
+    function _shutdownSharesToAssets(uint256 shares) internal view returns (uint256) {
+        uint256 supply = IERC20(address(this)).totalSupply();
+        return supply == 0 ? 0 : Math.mulDiv(shares, _managedAssets(), supply);
+    }
+
+    /**
+     * @dev Converts assets to the shares burned for them after a shutdown, rounding up.
+     */
+    function _shutdownAssetsToShares(uint256 assets) internal view returns (uint256) {
+        uint256 total = _managedAssets();
+        return total == 0 ? 0 : Math.mulDiv(assets, IERC20(address(this)).totalSupply(), total, Math.Rounding.Ceil);
+    }
+
+    /**
+     * @dev Returns the idle assets the buffer should hold at the current total assets.
+     */
+    function _bufferTarget() internal view returns (uint256) {
+        return (_managedAssets() * bufferRate) / 10000;
+    }
+
+    /**
+     * @dev Makes sure `assets` are held idle by this contract, withdrawing the shortfall from the vaults.
+     */
+    function _pullIdleAssets(uint256 assets) internal {
+        uint256 idle = _idleAssets();
+        if (assets > idle) _withdrawFromVaults(assets - idle);
+    }
+
+    /**
+     * @dev Returns every vault holding assets: the staking vault, the allocation vaults and the migration vault.
+     */
+    function _vaults() internal view returns (IERC4626[] memory vaults) {
+        uint256 count = allocationVaults.length;
+        bool migrating = address(migrationVault) != address(0);
+        vaults = new IERC4626[](count + (migrating ? 2 : 1));
+        vaults[0] = stakingVault;
+        for (uint256 i = 0; i < count; ++i) {
+            vaults[i + 1] = allocationVaults[i].vault;
+        }
+        if (migrating) vaults[count + 1] = migrationVault;
+    }
+
+    /**
+     * @dev Returns the assets held by this contract in `vault`.
+     */
+    function _vaultAssets(IERC4626 vault) internal view returns (uint256) {
+        return vault.convertToAssets(vault.balanceOf(address(this)));
+    }
+
+    /**
+     * @dev Returns the assets that can be withdrawn from `vault` for users.
+     * Fee shares held in the staking vault are not available.
+     */
+    function _liquidAssets(IERC4626 vault) internal view returns (uint256 liquid) {
+        liquid = vault.maxWithdraw(address(this));
+        if (vault == stakingVault) {
+            uint256 vaultShares = vault.balanceOf(address(this));
+            uint256 userAssets = vaultShares > totalFeeShares ? vault.previewRedeem(vaultShares - totalFeeShares) : 0;
+            if (userAssets < liquid) liquid = userAssets;
+        }
+    }
+
+    /**
+     * @dev Returns the assets that can be withdrawn from all vaults right now.
+     */
+    function _availableLiquidity() internal view returns (uint256 available) {
+        IERC4626[] memory vaults = _vaults();
+        for (uint256 i = 0; i < vaults.length; ++i) {
+            available += _liquidAssets(vaults[i]);
+        }
     }
 
     /**
@@ -59,22 +453,35 @@ abstract contract StakingState {
     ) internal pure returns (uint256 feeAmount) {
         feeAmount = (assets * feeRate) / 10000;
     }
+
+    /**
+     * @dev Calculates the gross assets that leave `netAssets` after a fee at `feeRate`.
+     * @param netAssets The assets remaining after the fee.
+     * @param feeRate The fee rate in basis points.
+     * @param rounding The rounding direction.
+     * @return grossAssets The assets including the fee.
+     */
+    function _grossAssets(
+        uint256 netAssets,
+        uint256 feeRate,
+        Math.Rounding rounding
+    ) internal pure returns (uint256 grossAssets) {
+        grossAssets = Math.mulDiv(netAssets, 10000, 10000 - feeRate, rounding);
+    }
     
     function _depositIntoVault(
         uint256 assets
     ) internal returns (uint256 totalShares) {
-        IERC20(asset()).forceApprove(address(stakingVault), assets);
-        totalShares = stakingVault.deposit(assets, address(this));
-        IERC20(asset()).forceApprove(address(stakingVault), 0);
+        totalShares = _depositInto(stakingVault, assets);
     }
 
-    function _userShares(
-        uint256 totalShares,
-        uint256 assets,
-        uint256 feeAmount
-    ) internal pure returns (uint256 userShares) {
-        uint256 feeShares = (totalShares * feeAmount) / assets;
-        userShares = totalShares - feeShares;
+    function _depositInto(
+        IERC4626 vault,
+        uint256 assets
+    ) internal returns (uint256 shares) {
+        IERC20(asset()).forceApprove(address(vault), assets);
+        shares = vault.deposit(assets, address(this));
+        IERC20(asset()).forceApprove(address(vault), 0);
     }
 
     function _feeShares(
@@ -85,15 +492,6 @@ abstract contract StakingState {
         feeShares = (vaultShare * feeAmount) / assets;
     }
 
-    function _splitShares(
-        uint256 totalShares,
-        uint256 assets,
-        uint256 feeAmount
-    ) internal pure returns (uint256 feeShares, uint256 userShares) {
-        feeShares = (totalShares * feeAmount) / assets;
-        userShares = totalShares - feeShares;
-    }
-
     function _handleInputFeeShares(uint256 feeAmount, uint256 feeShares) internal {
         if (feeAmount > 0) {
             totalFeeShares += feeShares;
@@ -108,12 +506,147 @@ abstract contract StakingState {
         }
     }
 
-    function asset() public view virtual returns (address);
+    /**
+     * @dev Calculates the management fee on user-owned assets in every vault and the idle buffer
+     * for the time since the last accrual.
+     * @return feeShares The fee amount in staking vault shares.
+     * @return elapsed The seconds since the last accrual.
+     */
+    function _pendingManagementFee() internal view returns (uint256 feeShares, uint256 elapsed) {
+        uint256 lastAccrual = lastManagementFeeAccrual;
+        if (lastAccrual == 0) return (0, 0);
+        elapsed = block.timestamp - lastAccrual;
+
+        uint256 vaultShares = stakingVault.balanceOf(address(this));
+        uint256 otherAssets = _otherVaultAssets() + _idleAssets();
+        if (vaultShares >= totalFeeShares) {
+            feeShares = ((vaultShares - totalFeeShares) * managementFeeRate * elapsed) / (10000 * SECONDS_PER_YEAR);
+        } else {
+            // The fee bucket also claims assets held outside the staking vault, which are not charged
+            uint256 excessAssets = stakingVault.convertToAssets(totalFeeShares - vaultShares);
+            otherAssets = otherAssets > excessAssets ? otherAssets - excessAssets : 0;
+        }
+
+        // Assets in the other vaults and the idle buffer are charged in staking vault shares
+        if (otherAssets > 0) {
+            uint256 feeAssets = (otherAssets * managementFeeRate * elapsed) / (10000 * SECONDS_PER_YEAR);
+            feeShares += stakingVault.convertToShares(feeAssets);
+        }
+    }
+
+    /**
+     * @dev Records the streamed management fee and restarts the accrual period.
+     */
+    function _accrueManagementFee() internal {
+        (uint256 feeShares, uint256 elapsed) = _pendingManagementFee();
+        lastManagementFeeAccrual = block.timestamp;
+        if (feeShares > 0) {
+            totalFeeShares += feeShares;
+            emit Events.ManagementFeeAccrued(elapsed, stakingVault.convertToAssets(feeShares), feeShares);
+        }
+    }
+
+    /**
+     * @dev Returns the value of SHARE_PRICE_PRECISION staking vault shares in assets.
+     */
+    function _vaultSharePrice() internal view returns (uint256) {
+        return _sharePrice(stakingVault);
+    }
+
+    /**
+     * @dev Returns the value of SHARE_PRICE_PRECISION `vault` shares in assets.
+     */
+    function _sharePrice(IERC4626 vault) internal view returns (uint256) {
+        return vault.convertToAssets(SHARE_PRICE_PRECISION);
+    }
+
+    /**
+     * @dev Calculates the performance fee on user-owned vault shares for the price growth of every vault
+     * above its high-water mark.
+     * @param bucketShares The vault shares in the fee bucket, which are not charged.
+     * @return feeAssets The fee amount in assets.
+     * @return feeShares The fee amount in staking vault shares.
+     * @return price The current staking vault share price.
+     */
+    function _pendingPerformanceFee(
+        uint256 bucketShares
+    ) internal view returns (uint256 feeAssets, uint256 feeShares, uint256 price) {
+        price = _vaultSharePrice();
+        if (performanceFeeRate == 0) return (0, 0, price);
+
+        uint256 gain;
+        IERC4626[] memory vaults = _vaults();
+        for (uint256 i = 1; i < vaults.length; ++i) {
+            gain += _vaultGain(vaults[i]);
+        }
+
+        uint256 mark = highWaterMark;
+        if (mark != 0 && price > mark) {
+            uint256 vaultShares = stakingVault.balanceOf(address(this));
+            if (vaultShares >= bucketShares) {
+                gain += ((vaultShares - bucketShares) * (price - mark)) / SHARE_PRICE_PRECISION;
+            } else {
+                // The fee bucket grows with the staking vault price even where its assets are held elsewhere
+                uint256 bucketGain = ((bucketShares - vaultShares) * (price - mark)) / SHARE_PRICE_PRECISION;
+                gain = gain > bucketGain ? gain - bucketGain : 0;
+            }
+        }
+        feeAssets = _calculateFeeAmount(gain, performanceFeeRate);
+        feeShares = stakingVault.convertToShares(feeAssets);
+    }
 
     /**
-     * @dev This empty reserved space is put in place to allow future versions to add new
-     * variables without shifting down storage in the inheritance chain.
-     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     * @dev Returns the price growth of the shares held in `vault` above its high-water mark, in assets.
      */
-    uint256[50] private __gap;
-}
+    function _vaultGain(IERC4626 vault) internal view returns (uint256) {
+        uint256 mark = vaultHighWaterMarks[vault];
+        uint256 price = _sharePrice(vault);
+        if (mark == 0 || price <= mark) return 0;
+        return (vault.balanceOf(address(this)) * (price - mark)) / SHARE_PRICE_PRECISION;
+    }
+
+    /**
+     * @dev Crystallizes the pending performance fee and raises the high-water marks.
+     * Vaults without a high-water mark start from their current share price.
+     */
+    function _accruePerformanceFee() internal {
+        (uint256 feeAssets, uint256 feeShares, uint256 price) = _pendingPerformanceFee(totalFeeShares);
+        if (price > highWaterMark) highWaterMark = price;
+        IERC4626[] memory vaults = _vaults();
+        for (uint256 i = 1; i < vaults.length; ++i) {
+            uint256 vaultPrice = _sharePrice(vaults[i]);
+            if (vaultPrice > vaultHighWaterMarks[vaults[i]]) vaultHighWaterMarks[vaults[i]] = vaultPrice;
+        }
+        if (feeShares > 0) {
+            totalFeeShares += feeShares;
+            emit Events.PerformanceFeeCollected(feeAssets, feeShares, price);
+        }
+    }
+
+    /**
+     * @dev Returns the vault shares `_accrueFees` would move to the fee bucket right now.
+     */
+    function _pendingFeeShares() internal view returns (uint256 feeShares) {
+        if (isShutdown) return 0;
+        (feeShares, ) = _pendingManagementFee();
+        (, uint256 performanceShares, ) = _pendingPerformanceFee(totalFeeShares + feeShares);
+        feeShares += performanceShares;
+    }
+
+    /**
+     * @dev Crystallizes all time and yield based fees before balances change.
+     */
+    function _accrueFees() internal {
+        // Fees stop once the contract is shut down
+        if (isShutdown) return;
+        _accrueManagementFee();
+        _accruePerformanceFee();
+        _mintTreasuryFees();
+    }
+
+    function asset() public view virtual returns (address);
+
+    function _withdrawFromVaults(uint256 assets) internal virtual;
+
+    function _mintTreasuryFees() internal virtual;
+}
\ No newline at end of file
@@ -0,0 +1,368 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "./StakingModule.sol";
+import "./interfaces/IStakingVaults.sol";
+import "./interfaces/Errors.sol";
+
+/**
+ * @title StakingVaults
+ * @dev StakingManager module for the administration of the vaults: the idle buffer, allocations,
+ * migrations, pausing and the emergency shutdown.
+ */
+contract StakingVaults is IStakingVaults, StakingModule {
+    constructor(address _nextModule) StakingModule(_nextModule) {}
+
+    /**
+     * @dev Allows the admin to set the share of total assets kept idle to serve withdrawals.
+     * Deposits top up the buffer; `rebalanceBuffer` corrects it in both directions.
+     * @param _bufferRate The target rate in basis points, at most MAX_BUFFER_RATE.
+     */
+    function setBufferRate(uint256 _bufferRate) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_bufferRate > MAX_BUFFER_RATE) revert Errors.InvalidBufferRate();
+
+        uint256 oldRate = bufferRate;
+        bufferRate = _bufferRate;
+
+        emit Events.BufferRateUpdated(oldRate, _bufferRate);
+    }
+
+    /**
+     * @dev Allows the keeper to bring the idle buffer back to its target.
+     * Excess idle assets are deposited into the staking vault, a shortfall is withdrawn
+     * from the vaults as far as their liquidity allows.
+     */
+    function rebalanceBuffer() external onlyRole(KEEPER_ROLE) nonReentrant whenNotPaused notShutdown(isShutdown) {
+        _accrueFees();
+        uint256 idle = _idleAssets();
+        uint256 target = _bufferTarget();
+        if (idle > target) {
+            _depositIntoVault(idle - target);
+        } else if (target > idle) {
+            uint256 amount = target - idle;
+            uint256 available = _availableLiquidity();
+            if (amount > available) amount = available;
+            _withdrawFromVaults(amount);
+        }
+
+        emit Events.BufferRebalanced(_idleAssets(), target);
+    }
+
+    /**
+     * @dev Returns the idle assets held by the contract and the buffer target.
+     */
+    function getBufferInfo() external view returns (uint256 idleAssets, uint256 targetAssets) {
+        idleAssets = _idleAssets();
+        targetAssets = _bufferTarget();
+    }
+
+    /**
+     * @dev Pauses stake and unstake operations. Can only be called by the pauser.
+     * Not available after a shutdown so holders can always exit.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) notShutdown(isShutdown) {
+        _pause();
+    }
+
+    /**
+     * @dev Allows the admin to shut the contract down for good during an incident at the underlying vaults.
+     * Pending fees are charged one last time and the fee bucket is converted into shares held by this
+     * contract, so it exits pro-rata like any holder. As many assets as the vaults can pay out are
+     * withdrawn and held idle. Deposits and migrations stay blocked afterwards and the contract is unpaused.
+     */
+    function emergencyShutdown() external onlyRole(DEFAULT_ADMIN_ROLE) nonReentrant notShutdown(isShutdown) {
+        _accrueFees();
+        uint256 poolAssets = _managedAssets();
+        uint256 feeAssets = stakingVault.previewRedeem(totalFeeShares);
+        uint256 supply = totalSupply();
+
+        // Price the fee bucket at the value per share of the user-owned assets
+        uint256 feeClaim;
+        if (feeAssets > 0) {
+            feeClaim = supply == 0 || poolAssets <= feeAssets
+                ? feeAssets * 10 ** _decimalsOffset()
+                : Math.mulDiv(supply, feeAssets, poolAssets - feeAssets);
+            _mint(address(this), feeClaim);
+        }
+        totalFeeShares = 0;
+        shutdownFeeShares = feeClaim;
+        isShutdown = true;
+        if (paused()) _unpause();
+
+        // Redeem as much as possible into idle assets
+        IERC4626[] memory vaults = _vaults();
+        for (uint256 i = 0; i < vaults.length; ++i) {
+            uint256 amount = vaults[i].maxWithdraw(address(this));
+            if (amount > 0) vaults[i].withdraw(amount, address(this), address(this));
+        }
+
+        emit Events.EmergencyShutdown(_idleAssets(), _totalVaultAssets(), feeClaim);
+    }
+
+    /**
+     * @dev Unpauses stake and unstake operations. Can only be called by the pauser.
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Migrates all staked assets from the current vault to a new vault.
+     * This function handles the complexity of different exchange rates between vaults.
+     * @param newVault The new IERC4626 vault to migrate to.
+     */
+    function migrateVault(IERC4626 newVault) 
+        external 
+        onlyRole(MIGRATOR_ROLE) 
+        notZeroAddress(address(newVault))
+        notSameVault(address(newVault), address(stakingVault))
+        validAssets(newVault.asset(), stakingVault.asset())
+        noActiveMigration(address(migrationVault))
+        notShutdown(isShutdown)
+    {
+        if (_isAllocationVault(newVault)) revert Errors.InvalidAllocationVaults();
+        IERC4626 oldVault = stakingVault;
+        uint256 totalShares = oldVault.balanceOf(address(this));
+        if (totalShares == 0) revert Errors.NoAssetsToMigrate();
+        // Charge fees earned in the old vault before its share price stops applying
+        _accrueFees();
+        // Redeem all shares from the old vault
+        uint256 totalAssetsRedeemed = oldVault.redeem(totalShares, address(this), address(this));
+        // Update the vault reference
+        stakingVault = newVault;
+        // Deposit all redeemed assets into the new vault
+        uint256 newSharesReceived = _depositIntoVault(totalAssetsRedeemed);
+        // Carry the fee bucket over in new vault share units
+        totalFeeShares = Math.mulDiv(newSharesReceived, totalFeeShares, totalShares);
+        // Restart the high-water mark from the new vault share price
+        highWaterMark = _vaultSharePrice();
+        emit Events.VaultMigrationCompleted(oldVault, newVault, totalAssetsRedeemed, newSharesReceived);
+    }
+
+    /**
+     * @dev Allows the migrator to replace the vaults receiving a target share of user assets.
+     * The staking vault gets the weight left over and keeps holding the fee shares.
+     * Vaults dropped from the list must be emptied first by setting their weight to zero and rebalancing.
+     * @param vaults The allocation vaults, using the same asset as the staking vault.
+     * @param weights The target weight of each vault in basis points.
+     */
+    function setAllocationVaults(
+        IERC4626[] calldata vaults,
+        uint256[] calldata weights
+    ) external onlyRole(MIGRATOR_ROLE) noActiveMigration(address(migrationVault)) notShutdown(isShutdown) {
+        if (vaults.length != weights.length) revert Errors.ArrayLengthMismatch();
+        if (vaults.length > MAX_ALLOCATION_VAULTS) revert Errors.InvalidAllocationVaults();
+
+        for (uint256 i = 0; i < allocationVaults.length; ++i) {
+            IERC4626 oldVault = allocationVaults[i].vault;
+            bool kept;
+            for (uint256 j = 0; j < vaults.length; ++j) {
+                if (vaults[j] == oldVault) kept = true;
+            }
+            if (!kept && oldVault.balanceOf(address(this)) > 0) revert Errors.AllocationVaultNotEmpty(address(oldVault));
+        }
+
+        delete allocationVaults;
+        uint256 totalWeight;
+        for (uint256 i = 0; i < vaults.length; ++i) {
+            IERC4626 vault = vaults[i];
+            if (address(vault) == address(0)) revert Errors.ZeroAddress();
+            if (vault == stakingVault || _isAllocationVault(vault)) revert Errors.InvalidAllocationVaults();
+            if (vault.asset() != asset()) revert Errors.DifferentVaultAsset();
+            totalWeight += weights[i];
+            allocationVaults.push(VaultAllocation(vault, weights[i]));
+        }
+        if (totalWeight > TOTAL_ALLOCATION_WEIGHT) revert Errors.InvalidAllocationWeights();
+
+        emit Events.AllocationVaultsUpdated(vaults, weights);
+    }
+
+    /**
+     * @dev Returns every vault with its target weight and current assets, the staking vault first.
+     */
+    function getAllocations() external view returns (
+        IERC4626[] memory vaults,
+        uint256[] memory weights,
+        uint256[] memory assets
+    ) {
+        (vaults, weights) = _allocationTargets();
+        assets = new uint256[](vaults.length);
+        for (uint256 i = 0; i < vaults.length; ++i) {
+            assets[i] = _vaultAssets(vaults[i]);
+        }
+    }
+
+    /**
+     * @dev Allows the keeper to move assets between vaults toward their target weights.
+     * Fee assets stay in the staking vault; vaults short on liquidity are drained as far as possible.
+     */
+    function rebalance()
+        external
+        onlyRole(KEEPER_ROLE)
+        nonReentrant
+        whenNotPaused
+        noActiveMigration(address(migrationVault))
+        notShutdown(isShutdown)
+    {
+        _accrueFees();
+        (IERC4626[] memory vaults, uint256[] memory weights) = _allocationTargets();
+        uint256 total = _totalVaultAssets();
+        uint256 feeAssets = stakingVault.previewRedeem(totalFeeShares);
+        uint256 allocatable = total > feeAssets ? total - feeAssets : 0;
+
+        // Step 1: Pull the excess out of overweight vaults
+        uint256[] memory targets = new uint256[](vaults.length);
+        uint256 moved;
+        for (uint256 i = 0; i < vaults.length; ++i) {
+            targets[i] = (allocatable * weights[i]) / TOTAL_ALLOCATION_WEIGHT;
+            if (i == 0) targets[i] += feeAssets;
+            uint256 current = _vaultAssets(vaults[i]);
+            if (current <= targets[i]) continue;
+            uint256 amount = current - targets[i];
+            uint256 liquid = _liquidAssets(vaults[i]);
+            if (amount > liquid) amount = liquid;
+            if (amount == 0) continue;
+            vaults[i].withdraw(amount, address(this), address(this));
+            moved += amount;
+        }
+
+        // Step 2: Push it into underweight vaults, leftovers go back to the staking vault
+        uint256 remaining = moved;
+        for (uint256 i = 1; i < vaults.length && remaining > 0; ++i) {
+            uint256 current = _vaultAssets(vaults[i]);
+            if (current >= targets[i]) continue;
+            uint256 amount = targets[i] - current;
+            if (amount > remaining) amount = remaining;
+            uint256 maxAmount = vaults[i].maxDeposit(address(this));
+            if (amount > maxAmount) amount = maxAmount;
+            if (amount == 0) continue;
+            _depositInto(vaults[i], amount);
+            remaining -= amount;
+        }
+        if (remaining > 0) _depositIntoVault(remaining);
+
+        emit Events.Rebalanced(moved, _totalVaultAssets());
+    }
+
+    /**
+     * @dev Allows the migrator to start moving the staking vault assets to a new vault in chunks.
+     * Both vaults count towards totalAssets until the migration is completed.
+     * @param newVault The IERC4626 vault to migrate to.
+     */
+    function startVaultMigration(IERC4626 newVault)
+        external
+        onlyRole(MIGRATOR_ROLE)
+        notZeroAddress(address(newVault))
+        notSameVault(address(newVault), address(stakingVault))
+        validAssets(newVault.asset(), stakingVault.asset())
+        noActiveMigration(address(migrationVault))
+        notShutdown(isShutdown)
+    {
+        if (_isAllocationVault(newVault)) revert Errors.InvalidAllocationVaults();
+        migrationVault = newVault;
+        migratedAssets = 0;
+        migratedShares = 0;
+
+        emit Events.VaultMigrationStarted(stakingVault, newVault);
+    }
+
+    /**
+     * @dev Allows the migrator to move a chunk of user assets to the migration vault.
+     * Fee shares stay in the staking vault until the migration is completed.
+     * @param shares The staking vault shares to move, capped at the shares left to migrate.
+     * @param minAssetsOut The minimum assets redeemed from the staking vault.
+     * @param minSharesOut The minimum migration vault shares received.
+     * @return assets The assets moved.
+     * @return newShares The migration vault shares received.
+     */
+    function migrateVaultChunk(
+        uint256 shares,
+        uint256 minAssetsOut,
+        uint256 minSharesOut
+    )
+        external
+        onlyRole(MIGRATOR_ROLE)
+        nonReentrant
+        amountGreaterThanZero(shares)
+        notShutdown(isShutdown)
+        returns (uint256 assets, uint256 newShares)
+    {
+        IERC4626 newVault = migrationVault;
+        if (address(newVault) == address(0)) revert Errors.NoMigrationInProgress();
+        _accrueFees();
+
+        uint256 remaining = _sharesToMigrate();
+        if (remaining == 0) revert Errors.NoAssetsToMigrate();
+        if (shares > remaining) shares = remaining;
+        (assets, newShares) = _moveToMigrationVault(shares, minAssetsOut, minSharesOut);
+
+        emit Events.VaultMigrationProgress(stakingVault, newVault, assets, newShares, remaining - shares);
+    }
+
+    /**
+     * @dev Allows the migrator to move the fee shares and switch the staking vault
+     * once every user share has left the old vault.
+     * @param minAssetsOut The minimum assets redeemed for the remaining staking vault shares.
+     * @param minSharesOut The minimum migration vault shares received for them.
+     */
+    function completeVaultMigration(
+        uint256 minAssetsOut,
+        uint256 minSharesOut
+    ) external onlyRole(MIGRATOR_ROLE) nonReentrant notShutdown(isShutdown) {
+        IERC4626 newVault = migrationVault;
+        if (address(newVault) == address(0)) revert Errors.NoMigrationInProgress();
+        _accrueFees();
+
+        uint256 remaining = _sharesToMigrate();
+        if (remaining > 0) revert Errors.MigrationNotComplete(remaining);
+
+        // Everything left in the old vault backs the fee bucket
+        IERC4626 oldVault = stakingVault;
+        uint256 feeShares = oldVault.balanceOf(address(this));
+        uint256 newFeeShares;
+        if (feeShares > 0) {
+            (, newFeeShares) = _moveToMigrationVault(feeShares, minAssetsOut, minSharesOut);
+        }
+        // Fee shares not held in the old vault are backed by assets already moved to the new vault
+        if (totalFeeShares > feeShares) {
+            newFeeShares += newVault.convertToShares(oldVault.convertToAssets(totalFeeShares - feeShares));
+        }
+        totalFeeShares = newFeeShares;
+        stakingVault = newVault;
+        migrationVault = IERC4626(address(0));
+        // Restart the high-water mark from the new vault share price
+        highWaterMark = _vaultSharePrice();
+
+        emit Events.VaultMigrationCompleted(oldVault, newVault, migratedAssets, migratedShares);
+    }
+
+    /**
+     * @dev Returns migration information for the current vault state.
+     * @param newVault The potential new vault to migrate to.
+     * @return currentAssets Current total assets in the vault.
+     * @return currentShares Current total shares in the vault.
+     * @return projectedAssets Projected assets after migration.
+     * @return projectedShares Projected shares after migration.
+     * @return movedAssets Assets already moved to `newVault` by a running partial migration.
+     * @return movedShares Shares of `newVault` already received by a running partial migration.
+     */
+    function getMigrationInfo(IERC4626 newVault) external view returns (
+        uint256 currentAssets,
+        uint256 currentShares,
+        uint256 projectedAssets,
+        uint256 projectedShares,
+        uint256 movedAssets,
+        uint256 movedShares
+    ) {
+        currentShares = stakingVault.balanceOf(address(this));
+        currentAssets = stakingVault.previewRedeem(currentShares);
+        if (currentAssets > 0) {
+            projectedShares = newVault.previewDeposit(currentAssets);
+            projectedAssets = newVault.previewRedeem(projectedShares);
+        }
+        if (newVault == migrationVault) {
+            movedAssets = migratedAssets;
+            movedShares = migratedShares;
+        }
+    }
+}
@@ -28,4 +28,139 @@ interface Errors {
 
     /// @notice Error thrown when trying to migrate with no assets in the current vault.
     error NoAssetsToMigrate();
+
+    /// @notice Error thrown when there is no fee rate change to execute or cancel.
+    error NoPendingFeeRateChange();
+
+    /// @notice Error thrown when executing a fee rate change before its activation time.
+    error FeeRateChangeNotReady(uint256 activationTime);
+
+    /// @notice Error thrown when setting a fee rate change delay above the maximum.
+    error InvalidFeeRateChangeDelay();
+
+    /// @notice Error thrown when there is no fee rate change delay reduction to execute.
+    error NoPendingFeeRateChangeDelay();
+
+    /// @notice Error thrown when paired input arrays have different lengths.
+    error ArrayLengthMismatch();
+
+    /// @notice Error thrown when setting no fee recipients or more than the maximum.
+    error InvalidFeeRecipientsCount();
+
+    /// @notice Error thrown when fee recipient weights do not add up to 100%.
+    error InvalidFeeRecipientWeights();
+
+    /// @notice Error thrown when distributing fees without configured recipients.
+    error NoFeeRecipients();
+
+    /// @notice Error thrown when fee tiers are too many or not sorted by ascending threshold.
+    error InvalidFeeTiers();
+
+    /// @notice Error thrown when a deposit is smaller than the minimum deposit.
+    error DepositBelowMinimum(uint256 assets, uint256 minDeposit);
+
+    /// @notice Error thrown when a deposit would exceed the global deposit cap.
+    error DepositCapExceeded(uint256 assets, uint256 remaining);
+
+    /// @notice Error thrown when a deposit would exceed the per-wallet deposit cap.
+    error WalletDepositCapExceeded(address receiver, uint256 assets, uint256 remaining);
+
+    /// @notice Error thrown when setting a withdrawal cooldown above the maximum.
+    error InvalidWithdrawalCooldown();
+
+    /// @notice Error thrown when a withdrawal request does not exist.
+    error WithdrawalRequestNotFound(uint256 requestId);
+
+    /// @notice Error thrown when the caller is neither the owner nor the receiver of a withdrawal request.
+    error NotWithdrawalRequestParty(uint256 requestId);
+
+    /// @notice Error thrown when claiming a withdrawal request that is not fulfilled yet.
+    error WithdrawalNotFulfilled(uint256 requestId);
+
+    /// @notice Error thrown when claiming a withdrawal request twice.
+    error WithdrawalAlreadyClaimed(uint256 requestId);
+
+    /// @notice Error thrown when allocation vaults are too many, duplicated or include the staking vault.
+    error InvalidAllocationVaults();
+
+    /// @notice Error thrown when allocation vault weights add up to more than 100%.
+    error InvalidAllocationWeights();
+
+    /// @notice Error thrown when removing an allocation vault that still holds assets.
+    error AllocationVaultNotEmpty(address vault);
+
+    /// @notice Error thrown when the vaults cannot pay out the requested assets.
+    error InsufficientVaultLiquidity(uint256 requested, uint256 available);
+
+    /// @notice Error thrown when an action is not allowed while a partial vault migration is running.
+    error MigrationInProgress();
+
+    /// @notice Error thrown when continuing or completing a partial vault migration that was not started.
+    error NoMigrationInProgress();
+
+    /// @notice Error thrown when completing a partial vault migration before all user assets are moved.
+    error MigrationNotComplete(uint256 remainingShares);
+
+    /// @notice Error thrown when a migration step or a redeem returns fewer assets than the caller's minimum.
+    error InsufficientAssetsOut(uint256 assets, uint256 minAssetsOut);
+
+    /// @notice Error thrown when a migration step or a deposit returns fewer shares than the caller's minimum.
+    error InsufficientSharesOut(uint256 shares, uint256 minSharesOut);
+
+    /// @notice Error thrown when a deposit or withdrawal is executed after its deadline.
+    error DeadlineExpired(uint256 deadline);
+
+    /// @notice Error thrown when a mint costs more assets than the caller's maximum.
+    error ExcessiveAssetsIn(uint256 assets, uint256 maxAssets);
+
+    /// @notice Error thrown when a withdrawal burns more shares than the caller's maximum.
+    error ExcessiveSharesIn(uint256 shares, uint256 maxShares);
+
+    /// @notice Error thrown when an asset permit fails and the existing allowance does not cover the deposit.
+    error PermitFailed();
+
+    /// @notice Error thrown when an action is blocked because the contract has been shut down.
+    error ShutdownActive();
+
+    /// @notice Error thrown when the idle buffer rate exceeds the maximum.
+    error InvalidBufferRate();
+
+    /// @notice Error thrown when a reward token is the asset, the share token or already registered.
+    error InvalidRewardToken();
+
+    /// @notice Error thrown when registering more reward tokens than allowed.
+    error TooManyRewardTokens();
+
+    /// @notice Error thrown when funding rewards for a token that is not registered.
+    error RewardTokenNotRegistered(address token);
+
+    /// @notice Error thrown when a reward stream starts in the past or does not end after its start.
+    error InvalidRewardSchedule();
+
+    /// @notice Error thrown when lock terms are unsorted, too many, or out of range.
+    error InvalidLockTerms();
+
+    /// @notice Error thrown when locking shares for a term that does not exist.
+    error InvalidLockTerm(uint256 termId);
+
+    /// @notice Error thrown when a lock does not exist.
+    error LockNotFound(uint256 lockId);
+
+    /// @notice Error thrown when someone other than the owner releases a lock.
+    error NotLockOwner(uint256 lockId);
+
+    /// @notice Error thrown when a lock has already been released.
+    error LockAlreadyReleased(uint256 lockId);
+
+    /// @notice Error thrown when the referral share of the input fee exceeds the maximum.
+    error InvalidReferralFeeShare();
+
+    /// @notice Error thrown when a deposit refers its own caller or receiver.
+    error InvalidReferrer();
+
+    /// @notice Error thrown when registering an empty or already registered referral code.
+    error ReferralCodeTaken(bytes32 code);
+
+    /// @notice Error thrown when depositing with a referral code that is not registered.
+    error UnknownReferralCode(bytes32 code);
 }
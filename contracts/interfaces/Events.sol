@@ -32,4 +32,140 @@ interface Events {
         uint256 totalAssetsRedeemed, 
         uint256 newSharesReceived
     );
+
+    /// @notice Emitted when a fee rate change is scheduled.
+    event FeeRateChangeScheduled(
+        uint256 inputFeeRate,
+        uint256 outputFeeRate,
+        uint256 managementFeeRate,
+        uint256 performanceFeeRate,
+        uint256 activationTime
+    );
+
+    /// @notice Emitted when a scheduled fee rate change is applied.
+    event FeeRateChangeExecuted(
+        uint256 inputFeeRate,
+        uint256 outputFeeRate,
+        uint256 managementFeeRate,
+        uint256 performanceFeeRate
+    );
+
+    /// @notice Emitted when a scheduled fee rate change is cancelled.
+    event FeeRateChangeCancelled(
+        uint256 inputFeeRate,
+        uint256 outputFeeRate,
+        uint256 managementFeeRate,
+        uint256 performanceFeeRate
+    );
+
+    /// @notice Emitted when the fee rate change delay is updated.
+    event FeeRateChangeDelayUpdated(uint256 oldDelay, uint256 newDelay);
+
+    /// @notice Emitted when a shorter fee rate change delay is scheduled.
+    event FeeRateChangeDelayScheduled(uint256 newDelay, uint256 activationTime);
+
+    /// @notice Emitted when the fee recipients are replaced.
+    event FeeRecipientsUpdated(address[] accounts, uint256[] weights);
+
+    /// @notice Emitted when a fee recipient receives its cut of distributed fees.
+    event FeeRecipientPaid(address indexed recipient, uint256 assets);
+
+    /// @notice Emitted when fee shares are redeemed and distributed to the fee recipients.
+    event FeesDistributed(uint256 shares, uint256 assets);
+
+    /// @notice Emitted when the performance fee rate is updated.
+    event PerformanceFeeRateUpdated(uint256 oldFeeRate, uint256 newFeeRate);
+
+    /// @notice Emitted when the performance fee is crystallized above the high-water mark.
+    event PerformanceFeeCollected(uint256 feeAmount, uint256 feeShares, uint256 highWaterMark);
+
+    /// @notice Emitted when the management fee rate is updated.
+    event ManagementFeeRateUpdated(uint256 oldFeeRate, uint256 newFeeRate);
+
+    /// @notice Emitted when the streamed management fee is recorded.
+    event ManagementFeeAccrued(uint256 elapsed, uint256 feeAmount, uint256 feeShares);
+
+    /// @notice Emitted when an account is added to or removed from the fee exemption list.
+    event FeeExemptionUpdated(address indexed account, bool exempt);
+
+    /// @notice Emitted when the volume-based fee tiers are replaced.
+    event FeeTiersUpdated(uint256[] minShares, uint256[] inputFeeRates, uint256[] outputFeeRates);
+
+    /// @notice Emitted when the deposit limits are updated.
+    event DepositLimitsUpdated(uint256 depositCap, uint256 walletDepositCap, uint256 minDeposit);
+
+    /// @notice Emitted when the withdrawal cooldown is updated.
+    event WithdrawalCooldownUpdated(uint256 oldCooldown, uint256 newCooldown);
+
+    /// @notice Emitted when shares are locked into a withdrawal request.
+    event WithdrawalRequested(uint256 indexed requestId, address indexed owner, address indexed receiver, uint256 shares);
+
+    /// @notice Emitted when a withdrawal request is fulfilled and its assets are reserved.
+    event WithdrawalFulfilled(uint256 indexed requestId, uint256 assets, uint256 feeAmount);
+
+    /// @notice Emitted when the assets of a fulfilled withdrawal request are sent to the receiver.
+    event WithdrawalClaimed(uint256 indexed requestId, address indexed receiver, uint256 assets);
+
+    /// @notice Emitted when the allocation vaults and their target weights are replaced.
+    event AllocationVaultsUpdated(IERC4626[] vaults, uint256[] weights);
+
+    /// @notice Emitted when assets are moved between vaults toward their target weights.
+    event Rebalanced(uint256 movedAssets, uint256 totalAssets);
+
+    /// @notice Emitted when a partial vault migration is started.
+    event VaultMigrationStarted(IERC4626 oldVault, IERC4626 newVault);
+
+    /// @notice Emitted when a chunk of assets is moved during a partial vault migration.
+    event VaultMigrationProgress(
+        IERC4626 oldVault,
+        IERC4626 newVault,
+        uint256 assetsMoved,
+        uint256 sharesReceived,
+        uint256 remainingShares
+    );
+
+    /// @notice Emitted when the contract is shut down and the fee bucket is converted into shares.
+    event EmergencyShutdown(uint256 idleAssets, uint256 vaultAssets, uint256 feeClaimShares);
+
+    /// @notice Emitted when the idle buffer rate is updated.
+    event BufferRateUpdated(uint256 oldRate, uint256 newRate);
+
+    /// @notice Emitted when the idle buffer is brought back toward its target.
+    event BufferRebalanced(uint256 idleAssets, uint256 targetAssets);
+
+    /// @notice Emitted when a reward token is registered.
+    event RewardTokenAdded(address indexed token);
+
+    /// @notice Emitted when a reward stream is funded or extended.
+    event RewardsFunded(address indexed token, uint256 amount, uint256 rate, uint256 startTime, uint256 endTime);
+
+    /// @notice Emitted when accrued rewards are sent to a share holder.
+    event RewardsClaimed(address indexed account, address indexed token, uint256 amount);
+
+    /// @notice Emitted when the lock terms are replaced.
+    event LockTermsUpdated(uint256[] durations, uint256[] outputFeeRates, uint256[] earlyUnlockPenalties);
+
+    /// @notice Emitted when shares are locked for a term.
+    event SharesLocked(uint256 indexed lockId, address indexed owner, uint256 shares, uint256 unlockTime);
+
+    /// @notice Emitted when a lock is released and its shares are redeemed.
+    event LockReleased(uint256 indexed lockId, address indexed receiver, uint256 assets, uint256 penaltyShares);
+
+    /// @notice Emitted when the referral share of the input fee is updated.
+    event ReferralFeeShareUpdated(uint256 oldShare, uint256 newShare);
+
+    /// @notice Emitted when a referral code is registered.
+    event ReferralCodeRegistered(bytes32 indexed code, address indexed referrer);
+
+    /// @notice Emitted when a referred deposit credits part of its input fee to the referrer.
+    event ReferralFeeCollected(address indexed referrer, address indexed receiver, uint256 assets, uint256 referralAmount);
+
+    /// @notice Emitted when a referrer claims its referral rewards.
+    event ReferralRewardsClaimed(address indexed referrer, address indexed receiver, uint256 assets);
+
+    /// @notice Emitted when the fee treasury is updated.
+    event FeeTreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
+
+    /// @notice Emitted when collected fees are minted as shares to the fee treasury.
+    event TreasuryFeesMinted(address indexed treasury, uint256 feeAssets, uint256 shares);
 }
@@ -5,17 +5,139 @@ import "@openzeppelin/contracts/interfaces/IERC4626.sol";
 
 interface IStakingAdmin {
     /**
-     * @notice Set the input fee rate for staking operations.
+     * @notice Schedule a new performance fee rate charged on yield above the high-water mark.
+     * @param _performanceFeeRate The new performance fee rate in basis points.
+     */
+    function setPerformanceFeeRate(uint256 _performanceFeeRate) external;
+
+    /**
+     * @notice Schedule a new annual management fee rate charged per second on user-owned assets.
+     * @param _managementFeeRate The new annual management fee rate in basis points.
+     */
+    function setManagementFeeRate(uint256 _managementFeeRate) external;
+
+    /**
+     * @notice Schedule a new input fee rate for staking operations.
      * @param _inputFeeRate The new input fee rate in basis points.
      */
     function setInputFeeRate(uint256 _inputFeeRate) external;
 
     /**
-     * @notice Set the output fee rate for unstaking operations.
+     * @notice Schedule a new output fee rate for unstaking operations.
      * @param _outputFeeRate The new output fee rate in basis points.
      */
     function setOutputFeeRate(uint256 _outputFeeRate) external;
 
+    /**
+     * @notice Apply the pending fee rate change after its activation time.
+     */
+    function executeFeeRateChange() external;
+
+    /**
+     * @notice Cancel the pending fee rate change.
+     */
+    function cancelFeeRateChange() external;
+
+    /**
+     * @notice Set the minimum delay between scheduling and executing fee rate changes.
+     * A shorter delay is only scheduled and applies once the current delay has passed.
+     * @param _feeRateChangeDelay The new delay in seconds.
+     */
+    function setFeeRateChangeDelay(uint256 _feeRateChangeDelay) external;
+
+    /**
+     * @notice Apply the pending fee rate change delay reduction after its activation time.
+     */
+    function executeFeeRateChangeDelay() external;
+
+    /**
+     * @notice Exempt an account from input and output fees.
+     * @param account The account to update.
+     * @param exempt Whether the account pays no fees.
+     */
+    function setFeeExemption(address account, bool exempt) external;
+
+    /**
+     * @notice Replace the volume-based fee tiers.
+     * @param minShares The share balance thresholds in strictly ascending order.
+     * @param inputFeeRates The input fee rate of each tier in basis points.
+     * @param outputFeeRates The output fee rate of each tier in basis points.
+     */
+    function setFeeTiers(
+        uint256[] calldata minShares,
+        uint256[] calldata inputFeeRates,
+        uint256[] calldata outputFeeRates
+    ) external;
+
+    /**
+     * @notice Replace the lock terms offered to holders.
+     * @param durations The lock durations in strictly ascending order.
+     * @param outputFeeRates The output fee rate applied on unlocks after maturity, in basis points.
+     * @param earlyUnlockPenalties The share of locked shares moved to the fee bucket on early unlocks, in basis points.
+     */
+    function setLockTerms(
+        uint256[] calldata durations,
+        uint256[] calldata outputFeeRates,
+        uint256[] calldata earlyUnlockPenalties
+    ) external;
+
+    /**
+     * @notice Set the share of the input fee of referred deposits credited to the referrer.
+     * @param _referralFeeShare The share in basis points.
+     */
+    function setReferralFeeShare(uint256 _referralFeeShare) external;
+
+    /**
+     * @notice Get the input and output fee rates an account pays after exemptions and tiers.
+     * @param account The account depositing or withdrawing.
+     * @return input The effective input fee rate in basis points.
+     * @return output The effective output fee rate in basis points.
+     */
+    function effectiveFeeRates(address account) external view returns (uint256 input, uint256 output);
+
+    /**
+     * @notice Set the global cap, per-wallet cap and minimum size for deposits.
+     * @param _depositCap The maximum total assets (0 = unlimited).
+     * @param _walletDepositCap The maximum assets per receiver (0 = unlimited).
+     * @param _minDeposit The minimum assets per deposit.
+     */
+    function setDepositLimits(uint256 _depositCap, uint256 _walletDepositCap, uint256 _minDeposit) external;
+
+    /**
+     * @notice Set the minimum time between requesting a queued withdrawal and its fulfillment.
+     * @param _withdrawalCooldown The cooldown in seconds.
+     */
+    function setWithdrawalCooldown(uint256 _withdrawalCooldown) external;
+
+    /**
+     * @notice Register a token that is streamed to share holders.
+     * @param token The reward token.
+     */
+    function addRewardToken(address token) external;
+
+    /**
+     * @notice Stream reward tokens to share holders between `startTime` and `endTime`.
+     * @param token The registered reward token.
+     * @param amount The tokens pulled from the caller.
+     * @param startTime The start of the stream.
+     * @param endTime The end of the stream.
+     */
+    function fundRewards(address token, uint256 amount, uint256 startTime, uint256 endTime) external;
+
+    /**
+     * @notice Get the registered reward tokens.
+     * @return The reward token addresses.
+     */
+    function getRewardTokens() external view returns (address[] memory);
+
+    /**
+     * @notice Get the rewards an account can claim for a token.
+     * @param token The reward token.
+     * @param account The share holder.
+     * @return The claimable reward amount.
+     */
+    function pendingRewards(address token, address account) external view returns (uint256);
+
     /**
      * @notice Withdraw staked fee shares by redeeming them for assets.
      * @param recipient The address to receive the redeemed assets.
@@ -24,39 +146,40 @@ interface IStakingAdmin {
     function withdrawFeeShares(address recipient, uint256 shares) external;
 
     /**
-     * @notice Get the total assets from staked fees.
-     * @return The total assets that can be redeemed from fee shares.
+     * @notice Set the account that receives fees as StakingManager shares.
+     * @param treasury The fee treasury, or the zero address to keep fees in the fee bucket.
      */
-    function totalFeeAssets() external view returns (uint256);
+    function setFeeTreasury(address treasury) external;
 
     /**
-     * @notice Pause stake and unstake operations.
+     * @notice Replace the fee recipients and their basis-point weights.
+     * @param accounts The addresses receiving fees.
+     * @param weights The share of fees each address receives.
      */
-    function pause() external;
+    function setFeeRecipients(address[] calldata accounts, uint256[] calldata weights) external;
 
     /**
-     * @notice Unpause stake and unstake operations.
+     * @notice Redeem all fee shares and pay each fee recipient its cut.
      */
-    function unpause() external;
+    function distributeFees() external;
 
     /**
-     * @notice Migrate all staked assets from the current vault to a new vault.
-     * @param newVault The new IERC4626 vault to migrate to.
+     * @notice Get the configured fee recipients and their weights.
+     * @return accounts The fee recipient addresses.
+     * @return weights The basis-point weight of each recipient.
      */
-    function migrateVault(IERC4626 newVault) external;
+    function getFeeRecipients() external view returns (address[] memory accounts, uint256[] memory weights);
 
     /**
-     * @notice Get migration information for a potential vault migration.
-     * @param newVault The potential new vault to migrate to.
-     * @return currentAssets Current total assets in the vault.
-     * @return currentShares Current total shares in the vault.
-     * @return projectedAssets Projected assets after migration.
-     * @return projectedShares Projected shares after migration.
+     * @notice Get the assets an account would receive from the next fee distribution.
+     * @param account The fee recipient address.
+     * @return The claimable assets.
      */
-    function getMigrationInfo(IERC4626 newVault) external view returns (
-        uint256 currentAssets,
-        uint256 currentShares,
-        uint256 projectedAssets,
-        uint256 projectedShares
-    );
+    function claimableFees(address account) external view returns (uint256);
+
+    /**
+     * @notice Get the total assets from staked fees.
+     * @return The total assets that can be redeemed from fee shares.
+     */
+    function totalFeeAssets() external view returns (uint256);
 }
@@ -0,0 +1,447 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "@openzeppelin/contracts/access/IAccessControl.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/interfaces/IERC5267.sol";
+import "@openzeppelin/contracts/interfaces/IERC1967.sol";
+import "@openzeppelin/contracts/interfaces/draft-IERC1822.sol";
+import "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "../StakingState.sol";
+import "./IMorphoVault.sol";
+import "./IStakingAdmin.sol";
+import "./IStakingVaults.sol";
+import "./Errors.sol";
+import "./Events.sol";
+
+/**
+ * @title IStakingManager
+ * @dev Full interface of a StakingManager proxy: the functions of the StakingManager and of every module
+ * its fallback delegates to, and the events and errors any of them emits.
+ */
+interface IStakingManager is
+    IERC4626,
+    IERC20Permit,
+    IERC5267,
+    IERC1822Proxiable,
+    IERC1967,
+    IAccessControl,
+    IERC20Errors,
+    IStakingAdmin,
+    IStakingVaults,
+    Events,
+    Errors
+{
+    /// @notice Emitted when the pause is triggered by `account`.
+    event Paused(address account);
+
+    /// @notice Emitted when the pause is lifted by `account`.
+    event Unpaused(address account);
+
+    /// @notice Emitted when the contract has been initialized or reinitialized.
+    event Initialized(uint64 version);
+
+    /// @notice Error thrown when calling a paused function.
+    error EnforcedPause();
+
+    /// @notice Error thrown when calling a function that needs the contract to be paused.
+    error ExpectedPause();
+
+    /// @notice Error thrown when the contract is already initialized.
+    error InvalidInitialization();
+
+    /// @notice Error thrown when a permit signature is past its deadline.
+    error ERC2612ExpiredSignature(uint256 deadline);
+
+    /// @notice Error thrown when a permit is not signed by the owner.
+    error ERC2612InvalidSigner(address signer, address owner);
+
+    /// @notice Error thrown when a permit uses another nonce than the next one of the owner.
+    error InvalidAccountNonce(address account, uint256 currentNonce);
+
+    /// @notice Error thrown on a reentrant call.
+    error ReentrancyGuardReentrantCall();
+
+    /// @notice Error thrown when a token transfer fails.
+    error SafeERC20FailedOperation(address token);
+
+    /// @notice Error thrown when an initializer-only function is called outside of initialization.
+    error NotInitializing();
+
+    /// @notice Error thrown when an upgrade is not called through the proxy.
+    error UUPSUnauthorizedCallContext();
+
+    /// @notice Error thrown when the new implementation reports another proxiable UUID.
+    error UUPSUnsupportedProxiableUUID(bytes32 slot);
+
+    /// @notice Error thrown when the new implementation has no code.
+    error ERC1967InvalidImplementation(address implementation);
+
+    // ========== Initialization and upgrades ==========
+
+    /// @notice Initialize a new proxy.
+    function initialize(
+        IMorphoVault _stakingVault,
+        string memory name,
+        string memory symbol,
+        address owner,
+        uint256 _feeRateChangeDelay
+    ) external;
+
+    /// @notice Upgrade a V1 proxy to role-based access control.
+    function initializeV2() external;
+
+    /// @notice Upgrade a V2 proxy to EIP-2612 permit support on the share token.
+    function initializeV3() external;
+
+    /// @notice Upgrade a V3 proxy to the fee checkpoints of fee-aware accounting.
+    function initializeV4() external;
+
+    /// @notice Get the version of the last initializer or reinitializer that ran on the proxy.
+    function initializedVersion() external view returns (uint64);
+
+    /// @notice Get the version of the implementation.
+    function version() external pure returns (string memory);
+
+    /// @notice Get the reinitializer version the implementation upgrades proxies to.
+    function REINITIALIZER_VERSION() external view returns (uint64);
+
+    /// @notice Get the version of the UUPS upgrade interface.
+    function UPGRADE_INTERFACE_VERSION() external view returns (string memory);
+
+    /// @notice Upgrade the proxy to `newImplementation` and call it with `data`.
+    function upgradeToAndCall(address newImplementation, bytes memory data) external payable;
+
+    /// @notice Execute a batch of calls on the contract, e.g. every pending reinitializer during an upgrade.
+    function multicall(bytes[] calldata data) external returns (bytes[] memory results);
+
+    // ========== Roles and pause ==========
+
+    /// @notice Check whether the contract implements an interface.
+    function supportsInterface(bytes4 interfaceId) external view returns (bool);
+
+    /// @notice Check whether deposits and withdrawals are paused.
+    function paused() external view returns (bool);
+
+    function DEFAULT_ADMIN_ROLE() external view returns (bytes32);
+
+    function FEE_MANAGER_ROLE() external view returns (bytes32);
+
+    function PAUSER_ROLE() external view returns (bytes32);
+
+    function MIGRATOR_ROLE() external view returns (bytes32);
+
+    function TREASURER_ROLE() external view returns (bytes32);
+
+    function UPGRADER_ROLE() external view returns (bytes32);
+
+    function KEEPER_ROLE() external view returns (bytes32);
+
+    // ========== Deposits and withdrawals ==========
+
+    /// @notice Deposit assets, reverting if fewer than `minShares` shares are received or the deadline has passed.
+    function depositWithMinShares(
+        uint256 assets,
+        address receiver,
+        uint256 minShares,
+        uint256 deadline
+    ) external returns (uint256 shares);
+
+    /// @notice Mint shares, reverting if more than `maxAssets` assets are required or the deadline has passed.
+    function mintWithMaxAssets(
+        uint256 shares,
+        address receiver,
+        uint256 maxAssets,
+        uint256 deadline
+    ) external returns (uint256 assets);
+
+    /// @notice Withdraw assets, reverting if more than `maxShares` shares are burned or the deadline has passed.
+    function withdrawWithMaxShares(
+        uint256 assets,
+        address receiver,
+        address owner,
+        uint256 maxShares,
+        uint256 deadline
+    ) external returns (uint256 shares);
+
+    /// @notice Redeem shares, reverting if fewer than `minAssets` assets are received or the deadline has passed.
+    function redeemWithMinAssets(
+        uint256 shares,
+        address receiver,
+        address owner,
+        uint256 minAssets,
+        uint256 deadline
+    ) external returns (uint256 assets);
+
+    /// @notice Deposit assets using an EIP-2612 permit on the asset.
+    function depositWithPermit(
+        uint256 assets,
+        address receiver,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 shares);
+
+    /// @notice Mint shares using an EIP-2612 permit on the asset for up to `maxAssets`.
+    function mintWithPermit(
+        uint256 shares,
+        address receiver,
+        uint256 maxAssets,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 assets);
+
+    /// @notice Deposit assets on behalf of a referrer, who is credited part of the input fee.
+    function depositWithReferral(uint256 assets, address receiver, address referrer) external returns (uint256 shares);
+
+    /// @notice Deposit assets on behalf of the referrer registered for `referralCode`.
+    function depositWithReferralCode(
+        uint256 assets,
+        address receiver,
+        bytes32 referralCode
+    ) external returns (uint256 shares);
+
+    /// @notice Mint shares on behalf of a referrer, who is credited part of the input fee.
+    function mintWithReferral(uint256 shares, address receiver, address referrer) external returns (uint256 assets);
+
+    /// @notice Mint shares on behalf of the referrer registered for `referralCode`.
+    function mintWithReferralCode(
+        uint256 shares,
+        address receiver,
+        bytes32 referralCode
+    ) external returns (uint256 assets);
+
+    // ========== Positions ==========
+
+    /// @notice Register `code` for the caller so depositors can refer them.
+    function registerReferralCode(bytes32 code) external;
+
+    /// @notice Send the referral rewards credited to the caller to `receiver`.
+    function claimReferralRewards(address receiver) external returns (uint256 assets);
+
+    /// @notice Lock shares for one of the lock terms in exchange for a lower output fee at maturity.
+    function lock(uint256 shares, uint256 termId) external returns (uint256 lockId);
+
+    /// @notice Release a lock and redeem its shares, paying the penalty before the unlock time.
+    function unlock(uint256 lockId, address receiver) external returns (uint256 assets);
+
+    /// @notice Send every reward token earned by `account` to it.
+    function claimRewards(address account) external returns (uint256[] memory amounts);
+
+    /// @notice Crystallize pending management and performance fees.
+    function accrue() external;
+
+    /// @notice Lock shares into a withdrawal request that is fulfilled once the vault has liquidity.
+    function requestWithdrawal(uint256 shares, address receiver, address owner) external returns (uint256 requestId);
+
+    /// @notice Fulfill up to `maxRequests` queued withdrawal requests in FIFO order.
+    function processWithdrawalQueue(uint256 maxRequests) external returns (uint256 fulfilled);
+
+    /// @notice Send the assets of a fulfilled withdrawal request to its receiver.
+    function claimWithdrawal(uint256 requestId) external returns (uint256 assets);
+
+    // ========== Views ==========
+
+    /// @notice Get the assets the shares of `user` are worth in the staking vault.
+    function totalUserAssets(address user) external view returns (uint256);
+
+    /// @notice Get every component of the accounting so it can be reconciled on-chain.
+    function getAccounting()
+        external
+        view
+        returns (
+            uint256 managedAssets,
+            uint256 vaultShares,
+            uint256 feeShares,
+            uint256 feeAssets,
+            uint256 userAssets,
+            uint256 userShares
+        );
+
+    /// @notice Get the performance fee earned since the last crystallization.
+    function pendingPerformanceFee() external view returns (uint256 feeAssets, uint256 feeShares);
+
+    /// @notice Get the management fee streamed since the last accrual.
+    function pendingManagementFee() external view returns (uint256 feeAssets, uint256 feeShares, uint256 elapsed);
+
+    /// @notice Get the ids of the withdrawal requests of `user` that are not claimed yet.
+    function getPendingWithdrawalRequests(address user) external view returns (uint256[] memory requestIds);
+
+    /// @notice Get the totals of the withdrawal queue.
+    function getWithdrawalQueueInfo()
+        external
+        view
+        returns (uint256 pendingRequests, uint256 pendingShares, uint256 claimableAssets);
+
+    /// @notice Get the locks of `user` that are not released yet.
+    function getUserLocks(
+        address user
+    ) external view returns (uint256[] memory lockIds, StakingState.Lock[] memory userLockDetails);
+
+    /// @notice Get the fee tiers, ordered by minimum balance.
+    function getFeeTiers() external view returns (StakingState.FeeTier[] memory);
+
+    /// @notice Get the lock terms, indexed by term id.
+    function getLockTerms() external view returns (StakingState.LockTerm[] memory);
+
+    // ========== State ==========
+
+    function stakingVault() external view returns (IERC4626);
+
+    function DECIMALS_OFFSET() external view returns (uint8);
+
+    function inputFeeRate() external view returns (uint256);
+
+    function outputFeeRate() external view returns (uint256);
+
+    function performanceFeeRate() external view returns (uint256);
+
+    function managementFeeRate() external view returns (uint256);
+
+    function pendingPerformanceFeeRate() external view returns (uint256);
+
+    function pendingManagementFeeRate() external view returns (uint256);
+
+    function pendingFeeRateChange()
+        external
+        view
+        returns (uint256 inputFeeRate, uint256 outputFeeRate, uint256 activationTime);
+
+    function feeRateChangeDelay() external view returns (uint256);
+
+    function pendingFeeRateChangeDelay() external view returns (uint256 delay, uint256 activationTime);
+
+    function highWaterMark() external view returns (uint256);
+
+    function vaultHighWaterMarks(IERC4626 vault) external view returns (uint256);
+
+    function lastManagementFeeAccrual() external view returns (uint256);
+
+    function totalFeeShares() external view returns (uint256);
+
+    function shutdownFeeShares() external view returns (uint256);
+
+    function feeTreasury() external view returns (address);
+
+    function isFeeExempt(address account) external view returns (bool);
+
+    function depositCap() external view returns (uint256);
+
+    function walletDepositCap() external view returns (uint256);
+
+    function minDeposit() external view returns (uint256);
+
+    function withdrawalRequests(
+        uint256 requestId
+    )
+        external
+        view
+        returns (
+            address owner,
+            address receiver,
+            uint256 shares,
+            uint256 assets,
+            uint256 requestTime,
+            bool fulfilled,
+            bool claimed
+        );
+
+    function nextWithdrawalRequestId() external view returns (uint256);
+
+    function nextWithdrawalToFulfill() external view returns (uint256);
+
+    function queuedWithdrawalShares() external view returns (uint256);
+
+    function claimableWithdrawalAssets() external view returns (uint256);
+
+    function withdrawalCooldown() external view returns (uint256);
+
+    function migrationVault() external view returns (IERC4626);
+
+    function migratedAssets() external view returns (uint256);
+
+    function migratedShares() external view returns (uint256);
+
+    function isShutdown() external view returns (bool);
+
+    function bufferRate() external view returns (uint256);
+
+    function rewardStreams(
+        address token
+    )
+        external
+        view
+        returns (uint256 rate, uint256 startTime, uint256 endTime, uint256 lastUpdate, uint256 rewardPerShare);
+
+    function rewardReserved(address token) external view returns (uint256);
+
+    function locks(
+        uint256 lockId
+    )
+        external
+        view
+        returns (
+            address owner,
+            uint256 shares,
+            uint256 unlockTime,
+            uint256 outputFeeRate,
+            uint256 earlyUnlockPenalty,
+            bool released
+        );
+
+    function nextLockId() external view returns (uint256);
+
+    function totalLockedShares() external view returns (uint256);
+
+    function referralFeeShare() external view returns (uint256);
+
+    function referralCodes(bytes32 code) external view returns (address);
+
+    function referredAssets(address referrer) external view returns (uint256);
+
+    function referralRewards(address referrer) external view returns (uint256);
+
+    function totalReferralRewards() external view returns (uint256);
+
+    // ========== Limits ==========
+
+    function MAX_FEE_RATE() external view returns (uint256);
+
+    function MAX_PERFORMANCE_FEE_RATE() external view returns (uint256);
+
+    function MAX_FEE_RATE_CHANGE_DELAY() external view returns (uint256);
+
+    function MAX_FEE_RECIPIENTS() external view returns (uint256);
+
+    function MAX_FEE_TIERS() external view returns (uint256);
+
+    function MAX_WITHDRAWAL_COOLDOWN() external view returns (uint256);
+
+    function MAX_ALLOCATION_VAULTS() external view returns (uint256);
+
+    function MAX_BUFFER_RATE() external view returns (uint256);
+
+    function MAX_REWARD_TOKENS() external view returns (uint256);
+
+    function MAX_LOCK_TERMS() external view returns (uint256);
+
+    function MAX_LOCK_DURATION() external view returns (uint256);
+
+    function MAX_EARLY_UNLOCK_PENALTY() external view returns (uint256);
+
+    function MAX_REFERRAL_FEE_SHARE() external view returns (uint256);
+
+    function TOTAL_FEE_WEIGHT() external view returns (uint256);
+
+    function TOTAL_ALLOCATION_WEIGHT() external view returns (uint256);
+
+    function SHARE_PRICE_PRECISION() external view returns (uint256);
+
+    function REWARD_PRECISION() external view returns (uint256);
+
+    function SECONDS_PER_YEAR() external view returns (uint256);
+}
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+
+interface IStakingVaults {
+    /**
+     * @notice Set the share of total assets kept idle in the contract to serve withdrawals.
+     * @param _bufferRate The target rate in basis points.
+     */
+    function setBufferRate(uint256 _bufferRate) external;
+
+    /**
+     * @notice Move assets between the idle buffer and the vaults toward the buffer target.
+     */
+    function rebalanceBuffer() external;
+
+    /**
+     * @notice Get the idle assets held by the contract and the buffer target.
+     * @return idleAssets The assets held idle, excluding claimable withdrawals.
+     * @return targetAssets The idle assets the buffer aims for.
+     */
+    function getBufferInfo() external view returns (uint256 idleAssets, uint256 targetAssets);
+
+    /**
+     * @notice Pause stake and unstake operations.
+     */
+    function pause() external;
+
+    /**
+     * @notice Unpause stake and unstake operations.
+     */
+    function unpause() external;
+
+    /**
+     * @notice Shut the contract down for good, moving vault assets to idle and letting holders exit pro-rata.
+     */
+    function emergencyShutdown() external;
+
+    /**
+     * @notice Migrate all staked assets from the current vault to a new vault.
+     * @param newVault The new IERC4626 vault to migrate to.
+     */
+    function migrateVault(IERC4626 newVault) external;
+
+    /**
+     * @notice Replace the vaults that receive a target share of user assets next to the staking vault.
+     * @param vaults The allocation vaults, using the same asset as the staking vault.
+     * @param weights The target weight of each vault in basis points; the staking vault gets the rest.
+     */
+    function setAllocationVaults(IERC4626[] calldata vaults, uint256[] calldata weights) external;
+
+    /**
+     * @notice Get every vault with its target weight and current assets, the staking vault first.
+     * @return vaults The staking vault followed by the allocation vaults.
+     * @return weights The target weight of each vault in basis points.
+     * @return assets The assets currently held in each vault.
+     */
+    function getAllocations() external view returns (
+        IERC4626[] memory vaults,
+        uint256[] memory weights,
+        uint256[] memory assets
+    );
+
+    /**
+     * @notice Move assets between vaults toward their target weights, as far as liquidity allows.
+     */
+    function rebalance() external;
+
+    /**
+     * @notice Start moving the staking vault assets to a new vault over several transactions.
+     * @param newVault The IERC4626 vault to migrate to.
+     */
+    function startVaultMigration(IERC4626 newVault) external;
+
+    /**
+     * @notice Move a chunk of user assets from the staking vault to the migration vault.
+     * @param shares The staking vault shares to move, capped at the shares left to migrate.
+     * @param minAssetsOut The minimum assets redeemed from the staking vault.
+     * @param minSharesOut The minimum migration vault shares received.
+     * @return assets The assets moved.
+     * @return newShares The migration vault shares received.
+     */
+    function migrateVaultChunk(
+        uint256 shares,
+        uint256 minAssetsOut,
+        uint256 minSharesOut
+    ) external returns (uint256 assets, uint256 newShares);
+
+    /**
+     * @notice Move the fee shares and switch the staking vault once all user assets are migrated.
+     * @param minAssetsOut The minimum assets redeemed for the remaining staking vault shares.
+     * @param minSharesOut The minimum migration vault shares received for them.
+     */
+    function completeVaultMigration(uint256 minAssetsOut, uint256 minSharesOut) external;
+
+    /**
+     * @notice Get migration information for a potential vault migration.
+     * @param newVault The potential new vault to migrate to.
+     * @return currentAssets Current total assets in the vault.
+     * @return currentShares Current total shares in the vault.
+     * @return projectedAssets Projected assets after migration.
+     * @return projectedShares Projected shares after migration.
+     * @return movedAssets Assets already moved to `newVault` by a running partial migration.
+     * @return movedShares Shares of `newVault` already received by a running partial migration.
+     */
+    function getMigrationInfo(IERC4626 newVault) external view returns (
+        uint256 currentAssets,
+        uint256 currentShares,
+        uint256 projectedAssets,
+        uint256 projectedShares,
+        uint256 movedAssets,
+        uint256 movedShares
+    );
+}
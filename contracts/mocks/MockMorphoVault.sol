@@ -6,6 +6,9 @@ import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
 
 /// @notice A mock ERC4626 vault for testing purposes
 contract MockMorphoVault is ERC4626 {
+    /// @notice Assets that can be withdrawn, simulating a highly utilized market
+    uint256 public availableLiquidity = type(uint256).max;
+
     constructor(
         IERC20 asset_
     ) ERC20("Mock ERC4626 Vault", "m4626") ERC4626(asset_) {}
@@ -13,4 +16,21 @@ contract MockMorphoVault is ERC4626 {
     function DECIMALS_OFFSET() external pure returns (uint8) {
         return 12;
     }
+
+    function setAvailableLiquidity(uint256 liquidity) external {
+        availableLiquidity = liquidity;
+    }
+
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        uint256 assets = super.maxWithdraw(owner);
+        return assets < availableLiquidity ? assets : availableLiquidity;
+    }
+
+    function maxRedeem(address owner) public view override returns (uint256) {
+        uint256 shares = super.maxRedeem(owner);
+        uint256 liquidShares = availableLiquidity == type(uint256).max
+            ? type(uint256).max
+            : _convertToShares(availableLiquidity, Math.Rounding.Floor);
+        return shares < liquidShares ? shares : liquidShares;
+    }
 }
@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import "../interfaces/IMorphoVault.sol";
+import "../StakingModifiers.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC4626Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+
+/// @notice Storage of the first released StakingManager, kept as the reference layout for upgrade tests
+abstract contract StakingStateV1 {
+    IERC4626 public stakingVault;
+    uint256 public inputFeeRate;
+    uint256 public outputFeeRate;
+    uint256 public totalFeeShares;
+    uint8 public DECIMALS_OFFSET;
+
+    uint256[50] private __gap;
+}
+
+/// @notice The first released StakingManager (1.0.0), deployed behind proxies that upgrade to the current build
+contract StakingManagerV1 is
+    Initializable,
+    UUPSUpgradeable,
+    OwnableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    ERC4626Upgradeable,
+    PausableUpgradeable,
+    StakingModifiers,
+    StakingStateV1
+{
+    using SafeERC20 for IERC20;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        IMorphoVault _stakingVault,
+        string memory name,
+        string memory symbol,
+        address owner
+    ) public initializer notZeroAddress(address(_stakingVault)) notZeroAddress(owner) {
+        __Ownable_init(owner);
+        __ReentrancyGuard_init();
+        __ERC20_init(name, symbol);
+        __ERC4626_init(IERC20(_stakingVault.asset()));
+        __Pausable_init();
+        __UUPSUpgradeable_init();
+
+        stakingVault = _stakingVault;
+        DECIMALS_OFFSET = _stakingVault.DECIMALS_OFFSET();
+    }
+
+    function version() external pure returns (string memory) {
+        return "1.0.0";
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    function _decimalsOffset() internal view override returns (uint8) {
+        return DECIMALS_OFFSET;
+    }
+
+    function totalAssets() public view override returns (uint256) {
+        return stakingVault.convertToAssets(stakingVault.balanceOf(address(this)));
+    }
+
+    function setInputFeeRate(uint256 _inputFeeRate) external onlyOwner {
+        if (_inputFeeRate > 1000) revert Errors.InvalidFeeRate();
+        inputFeeRate = _inputFeeRate;
+    }
+
+    function setOutputFeeRate(uint256 _outputFeeRate) external onlyOwner {
+        if (_outputFeeRate > 1000) revert Errors.InvalidFeeRate();
+        outputFeeRate = _outputFeeRate;
+    }
+
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    function deposit(
+        uint256 assets,
+        address receiver
+    )
+        public
+        override
+        amountGreaterThanZero(assets)
+        notZeroAddress(receiver)
+        nonReentrant
+        whenNotPaused
+        returns (uint256 shares)
+    {
+        shares = previewDeposit(assets);
+        uint256 vaultShare = stakingVault.previewDeposit(assets);
+        uint256 feeAmount = (assets * inputFeeRate) / 10000;
+        totalFeeShares += (vaultShare * feeAmount) / assets;
+
+        _deposit(_msgSender(), receiver, assets, shares - (shares * feeAmount) / assets);
+        IERC20(asset()).forceApprove(address(stakingVault), assets);
+        stakingVault.deposit(assets, address(this));
+        IERC20(asset()).forceApprove(address(stakingVault), 0);
+    }
+
+    function redeem(
+        uint256 shares,
+        address receiver,
+        address owner
+    )
+        public
+        override
+        amountGreaterThanZero(shares)
+        notZeroAddress(receiver)
+        notZeroAddress(owner)
+        nonReentrant
+        whenNotPaused
+        returns (uint256 assets)
+    {
+        assets = previewRedeem(shares);
+        uint256 feeAmount = (assets * outputFeeRate) / 10000;
+        uint256 feeShares = (shares * feeAmount) / assets;
+        totalFeeShares += feeShares;
+
+        stakingVault.withdraw(assets - feeAmount, address(this), address(this));
+        _withdraw(_msgSender(), receiver, owner, assets - feeAmount, shares - feeShares);
+    }
+}
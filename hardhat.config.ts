@@ -7,6 +7,7 @@ import "@nomicfoundation/hardhat-network-helpers"
 import "@nomicfoundation/hardhat-ethers"
 import "@nomicfoundation/hardhat-chai-matchers"
 import "@openzeppelin/hardhat-upgrades"
+import "./tasks/staking"
 
 const config: HardhatUserConfig = {
     defaultNetwork: "hardhat",
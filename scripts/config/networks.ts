@@ -0,0 +1,53 @@
+export interface DeployConfig {
+    // Existing staking vault; a MockMorphoVault is deployed on local networks when omitted
+    vault?: string
+    // Expected asset of the vault; a mock ERC20Token is deployed on local networks when omitted
+    asset?: string
+    // Share token name and symbol
+    name: string
+    symbol: string
+    // Owner receiving every role; defaults to the deployer
+    owner?: string
+    // Fee rates in basis points, applied to the StakingManager on every run
+    inputFeeRate: number
+    outputFeeRate: number
+    // Minimum delay in seconds between scheduling and executing fee rate changes, set by the initializer; defaults to 0
+    feeRateChangeDelay?: number
+}
+
+// Networks whose chain is disposable, so mocks may be deployed on them
+export const LOCAL_NETWORKS = ["hardhat", "localhost"]
+
+export const deployConfigs: Record<string, DeployConfig> = {
+    hardhat: {
+        name: "Staking Manager Token",
+        symbol: "SMT",
+        inputFeeRate: 0,
+        outputFeeRate: 0,
+    },
+    localhost: {
+        name: "Staking Manager Token",
+        symbol: "SMT",
+        inputFeeRate: 0,
+        outputFeeRate: 0,
+    },
+    bscTestnet: {
+        vault: process.env.VAULT_ADDRESS,
+        asset: process.env.ASSET_ADDRESS,
+        name: "Staking Manager Token",
+        symbol: "SMT",
+        owner: process.env.OWNER_ADDRESS,
+        inputFeeRate: 0,
+        outputFeeRate: 0,
+    },
+    bsc: {
+        vault: process.env.VAULT_ADDRESS,
+        asset: process.env.ASSET_ADDRESS,
+        name: "Staking Manager Token",
+        symbol: "SMT",
+        owner: process.env.OWNER_ADDRESS,
+        inputFeeRate: 0,
+        outputFeeRate: 0,
+        feeRateChangeDelay: 3 * 24 * 60 * 60,
+    },
+}
@@ -1,84 +1,46 @@
-import { ethers, upgrades } from "hardhat"
-import { StakingManager, MockMorphoVault, ERC20Token } from "../typechain-types"
+import { ethers, network } from "hardhat"
+import { IStakingManager } from "../typechain-types"
+import { deployConfigs } from "./config/networks"
+import { deployStakingManager } from "./utils/deploy"
+import { manifestPath } from "./utils/manifest"
 
 async function main() {
-    console.log("Deploying StakingManager with proxy pattern...")
+    console.log(`Deploying StakingManager with proxy pattern to ${network.name}...`)
 
     // Get the deployer account
     const [deployer] = await ethers.getSigners()
     console.log("Deploying contracts with account:", deployer.address)
 
-    // Deploy mock token for testing
-    console.log("Deploying mock ERC20 token...")
-    const ERC20TokenFactory = await ethers.getContractFactory("ERC20Token")
-    const token = (await ERC20TokenFactory.deploy(
-        "Test Token",
-        "TEST"
-    )) as ERC20Token
-    await token.waitForDeployment()
-    console.log("Mock ERC20 token deployed to:", await token.getAddress())
-
-    // Deploy mock vault
-    console.log("Deploying mock Morpho vault...")
-    const MockMorphoVaultFactory = await ethers.getContractFactory("MockMorphoVault")
-    const vault = (await MockMorphoVaultFactory.deploy(
-        await token.getAddress()
-    )) as MockMorphoVault
-    await vault.waitForDeployment()
-    console.log("Mock Morpho vault deployed to:", await vault.getAddress())
-
-    // Deploy the upgradeable StakingManager
-    console.log("Deploying upgradeable StakingManager...")
-    const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
-    
-    const stakingManager = (await upgrades.deployProxy(
-        StakingManagerFactory,
-        [
-            await vault.getAddress(), // _stakingVault
-            "Staking Manager Token", // name
-            "SMT", // symbol
-            deployer.address // owner
-        ],
-        {
-            initializer: 'initialize',
-            kind: 'uups'
-        }
-    )) as unknown as StakingManager
-
-    await stakingManager.waitForDeployment()
-    const stakingManagerAddress = await stakingManager.getAddress()
+    // Load the network config
+    const config = deployConfigs[network.name]
+    if (!config) {
+        throw new Error(`No deploy config for network ${network.name}. Add one to scripts/config/networks.ts.`)
+    }
 
-    console.log("StakingManager proxy deployed to:", stakingManagerAddress)
-    console.log("Implementation address:", await upgrades.erc1967.getImplementationAddress(stakingManagerAddress))
-    console.log("Admin address:", await upgrades.erc1967.getAdminAddress(stakingManagerAddress))
+    // Deploy whatever the manifest does not record yet
+    const manifest = await deployStakingManager(config)
+    const { StakingManager: proxy } = manifest.contracts
+    console.log("Manifest written to:", manifestPath(network.name))
 
     // Verify the deployment
     console.log("\nVerifying deployment...")
+    const stakingManager = (await ethers.getContractAt("IStakingManager", proxy!.address)) as IStakingManager
     console.log("StakingManager name:", await stakingManager.name())
     console.log("StakingManager symbol:", await stakingManager.symbol())
-    console.log("StakingManager owner:", await stakingManager.owner())
     console.log("StakingManager vault:", await stakingManager.stakingVault())
     console.log("StakingManager token:", await stakingManager.asset())
+    console.log("StakingManager fees:", await stakingManager.inputFeeRate(), await stakingManager.outputFeeRate())
 
-    // Set up some initial tokens for testing
-    console.log("\nSetting up test environment...")
-    const testAmount = ethers.parseEther("10000")
-    await token.transfer(deployer.address, testAmount)
-    console.log(`Transferred ${ethers.formatEther(testAmount)} tokens to deployer`)
-
-    return {
-        token: await token.getAddress(),
-        vault: await vault.getAddress(),
-        stakingManager: stakingManagerAddress
-    }
+    return manifest
 }
 
 main()
-    .then((contracts) => {
+    .then((manifest) => {
         console.log("\n=== Deployment Summary ===")
-        console.log("Token:", contracts.token)
-        console.log("Vault:", contracts.vault)
-        console.log("StakingManager Proxy:", contracts.stakingManager)
+        if (manifest.contracts.ERC20Token) console.log("Token:", manifest.contracts.ERC20Token.address)
+        if (manifest.contracts.MockMorphoVault) console.log("Vault:", manifest.contracts.MockMorphoVault.address)
+        console.log("StakingManager Proxy:", manifest.contracts.StakingManager!.address)
+        console.log("StakingManager Implementation:", manifest.contracts.StakingManager!.implementation)
         console.log("==========================")
         process.exit(0)
     })
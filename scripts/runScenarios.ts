@@ -0,0 +1,28 @@
+import { network } from "hardhat"
+import { loadScenario, loadScenarios, runScenario } from "./utils/scenario"
+
+async function main() {
+    if (network.name !== "hardhat") {
+        throw new Error("Scenarios deploy mocks and run on the local hardhat network only.")
+    }
+
+    // Run the scenario file given in SCENARIO, otherwise every scenario in the scenarios folder
+    const scenarios = process.env.SCENARIO ? [loadScenario(process.env.SCENARIO)] : loadScenarios()
+    for (const scenario of scenarios) {
+        console.log(`\n=== ${scenario.name} ===`)
+        if (scenario.description) console.log(scenario.description)
+        await runScenario(scenario, (message) => console.log(`  ${message}`))
+        console.log(`Scenario "${scenario.name}" passed`)
+    }
+    return scenarios.length
+}
+
+main()
+    .then((count) => {
+        console.log(`\n${count} scenario(s) passed`)
+        process.exit(0)
+    })
+    .catch((error) => {
+        console.error("Scenario failed:", error)
+        process.exit(1)
+    })
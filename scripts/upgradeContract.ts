@@ -1,5 +1,40 @@
-import { ethers, upgrades } from "hardhat"
-import { StakingManager } from "../typechain-types"
+import { ethers, network, upgrades } from "hardhat"
+import { readManifest, writeManifest } from "./utils/manifest"
+import { deployStakingModules } from "./utils/modules"
+import { guardedUpgrade } from "./utils/upgrade"
+
+// Deploys a populated StakingManager to rehearse the upgrade on the local hardhat network
+async function deployLocalFixture(): Promise<{ proxyAddress: string; holders: string[] }> {
+    const [deployer, ...users] = await ethers.getSigners()
+    const ERC20TokenFactory = await ethers.getContractFactory("ERC20Token")
+    const token = await ERC20TokenFactory.deploy("Test Token", "TEST")
+    await token.waitForDeployment()
+    const MockMorphoVaultFactory = await ethers.getContractFactory("MockMorphoVault")
+    const vault = await MockMorphoVaultFactory.deploy(await token.getAddress())
+    await vault.waitForDeployment()
+
+    const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
+    const proxy = await upgrades.deployProxy(
+        StakingManagerFactory,
+        [await vault.getAddress(), "Staking Manager Token", "SMT", deployer.address, 0],
+        { initializer: "initialize", kind: "uups", constructorArgs: await deployStakingModules() }
+    )
+    await proxy.waitForDeployment()
+    const proxyAddress = await proxy.getAddress()
+    const stakingManager = await ethers.getContractAt("IStakingManager", proxyAddress)
+
+    // Stake from a few accounts with fees on, so balances and the fee bucket are non-zero
+    await stakingManager.setInputFeeRate(100)
+    await stakingManager.setOutputFeeRate(100)
+    const holders = users.slice(0, 3)
+    for (const holder of holders) {
+        const amount = ethers.parseUnits("1000", 6)
+        await token.transfer(holder.address, amount)
+        await token.connect(holder).approve(proxyAddress, amount)
+        await stakingManager.connect(holder).deposit(amount, holder.address)
+    }
+    return { proxyAddress, holders: holders.map((holder) => holder.address) }
+}
 
 async function main() {
     console.log("Upgrading StakingManager...")
@@ -8,30 +43,48 @@ async function main() {
     const [deployer] = await ethers.getSigners()
     console.log("Upgrading contract with account:", deployer.address)
 
-    // Retrieve the proxy address from environment variables or command-line arguments
-    const PROXY_ADDRESS = process.env.PROXY_ADDRESS || process.argv[2]
+    // Retrieve the proxy address from environment variables, command-line arguments or the deployment manifest,
+    // which the in-process hardhat network cannot reuse
+    const manifest = network.name === "hardhat" ? undefined : readManifest(network.name)
+    let PROXY_ADDRESS = process.env.PROXY_ADDRESS || process.argv[2] || manifest?.contracts.StakingManager?.address
+    let holders = (process.env.HOLDERS || "").split(",").filter((holder) => holder !== "")
     if (!PROXY_ADDRESS) {
-        throw new Error("Proxy address not provided. Set the PROXY_ADDRESS environment variable or pass it as a command-line argument.")
+        if (network.name !== "hardhat") {
+            throw new Error(
+                "Proxy address not provided. Set the PROXY_ADDRESS environment variable, pass it as a command-line argument or deploy with scripts/deploy.ts first."
+            )
+        }
+        console.log("No proxy address provided, deploying a local fixture...")
+        const fixture = await deployLocalFixture()
+        PROXY_ADDRESS = fixture.proxyAddress
+        holders = fixture.holders
     }
 
-    // Get the current implementation
-    const currentImpl = await upgrades.erc1967.getImplementationAddress(PROXY_ADDRESS)
-    console.log("Current implementation:", currentImpl)
-
-    // Deploy the new implementation
-    console.log("Deploying new implementation...")
-    const StakingManagerV2Factory = await ethers.getContractFactory("StakingManager")
-    
-    const upgraded = await upgrades.upgradeProxy(PROXY_ADDRESS, StakingManagerV2Factory)
-    await upgraded.waitForDeployment()
+    const report = await guardedUpgrade(PROXY_ADDRESS, {
+        holders,
+        allowDrift: (process.env.ALLOW_DRIFT || "").split(",").filter((field) => field !== ""),
+        maxAssetDriftBps: BigInt(process.env.MAX_ASSET_DRIFT_BPS || "1"),
+    })
 
-    const newImpl = await upgrades.erc1967.getImplementationAddress(PROXY_ADDRESS)
-    console.log("New implementation:", newImpl)
+    // Keep the deployment manifest in sync with the proxy
+    const record = manifest?.contracts.StakingManager
+    if (manifest && record && record.address === PROXY_ADDRESS) {
+        record.implementation = report.newImplementation
+        record.implementationArgs = report.implementationArgs
+        Object.assign(manifest.contracts, report.modules)
+        writeManifest(manifest)
+    }
 
-    // Verify the upgrade
-    const stakingManager = StakingManagerV2Factory.attach(PROXY_ADDRESS) as StakingManager
-    console.log("Contract name:", await stakingManager.name())
-    console.log("Contract owner:", await stakingManager.owner())
+    console.log("Previous implementation:", report.previousImplementation)
+    console.log("New implementation:", report.newImplementation)
+    console.log("Reinitializers run:", report.reinitializers.join(", ") || "none")
+    console.table(
+        Object.keys(report.after).map((field) => ({
+            field,
+            before: String(report.before[field]),
+            after: String(report.after[field]),
+        }))
+    )
 
     console.log("Upgrade completed successfully!")
 }
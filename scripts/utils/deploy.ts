@@ -0,0 +1,166 @@
+import { ethers, network, upgrades } from "hardhat"
+import { IStakingManager } from "../../typechain-types"
+import { DeployConfig, LOCAL_NETWORKS } from "../config/networks"
+import {
+    ContractRecord,
+    DeploymentManifest,
+    MANIFEST_DIR,
+    ModuleRecords,
+    readManifest,
+    writeManifest,
+} from "./manifest"
+import { deployModuleRecords, implementationArgs, STAKING_MODULES } from "./modules"
+
+export interface DeployOptions {
+    // Network the config and manifest belong to; defaults to the network hardhat runs on
+    networkName?: string
+    // Directory holding one `<network>.json` manifest per network
+    manifestDir?: string
+}
+
+/**
+ * Returns whether a manifest record still points to deployed code.
+ * Local chains are disposable, so their stale records are redeployed, while remote ones abort the run.
+ */
+async function isDeployed(name: string, record: ContractRecord | undefined, isLocal: boolean): Promise<boolean> {
+    if (!record) return false
+    if ((await ethers.provider.getCode(record.address)) !== "0x") return true
+    if (isLocal) return false
+    throw new Error(`${name} at ${record.address} in the manifest has no code on this network.`)
+}
+
+/**
+ * Deploys a StakingManager proxy as described by a network config and records it in the network manifest.
+ * Mocks are only deployed on local networks without a configured vault.
+ * Contracts already recorded in the manifest are reused, so an interrupted or repeated run resumes where it stopped.
+ */
+export async function deployStakingManager(
+    config: DeployConfig,
+    options: DeployOptions = {}
+): Promise<DeploymentManifest> {
+    const { networkName = network.name, manifestDir = MANIFEST_DIR } = options
+    const isLocal = LOCAL_NETWORKS.includes(networkName)
+    const [deployer] = await ethers.getSigners()
+    const owner = ethers.getAddress(config.owner || deployer.address)
+    const chainId = Number((await ethers.provider.getNetwork()).chainId)
+
+    const manifest = readManifest(networkName, manifestDir) || { network: networkName, chainId, contracts: {} }
+    if (manifest.chainId !== chainId) {
+        throw new Error(`Manifest for ${networkName} belongs to chain ${manifest.chainId}, not ${chainId}.`)
+    }
+    const { contracts } = manifest
+
+    // Resolve the staking vault, deploying mocks on local networks only
+    let vaultAddress = config.vault
+    if (!vaultAddress) {
+        if (!isLocal) throw new Error(`No vault configured for ${networkName}.`)
+        if (!config.asset && !(await isDeployed("ERC20Token", contracts.ERC20Token, isLocal))) {
+            const args = ["Test Token", "TEST"]
+            const token = await (await ethers.getContractFactory("ERC20Token")).deploy(args[0], args[1])
+            await token.waitForDeployment()
+            contracts.ERC20Token = { address: await token.getAddress(), args }
+            writeManifest(manifest, manifestDir)
+        }
+        if (!(await isDeployed("MockMorphoVault", contracts.MockMorphoVault, isLocal))) {
+            const args = [config.asset || contracts.ERC20Token!.address]
+            const vault = await (await ethers.getContractFactory("MockMorphoVault")).deploy(args[0])
+            await vault.waitForDeployment()
+            contracts.MockMorphoVault = { address: await vault.getAddress(), args }
+            writeManifest(manifest, manifestDir)
+        }
+        vaultAddress = contracts.MockMorphoVault!.address
+    }
+    vaultAddress = ethers.getAddress(vaultAddress)
+    const vault = await ethers.getContractAt("IMorphoVault", vaultAddress)
+    if (config.asset && (await vault.asset()) !== ethers.getAddress(config.asset)) {
+        throw new Error(`Vault ${vaultAddress} does not use the configured asset ${config.asset}.`)
+    }
+
+    // Deploy the proxy, or check the recorded one matches the config
+    const args = [vaultAddress, config.name, config.symbol, owner, String(config.feeRateChangeDelay ?? 0)]
+    const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
+    if (await isDeployed("StakingManager", contracts.StakingManager, isLocal)) {
+        const record = contracts.StakingManager!
+        if (record.args.join() !== args.join()) {
+            throw new Error(`StakingManager at ${record.address} was deployed with [${record.args}], not [${args}].`)
+        }
+        // Upgrades record their implementation and modules, which cannot be read back from the proxy
+        const implementation = await upgrades.erc1967.getImplementationAddress(record.address)
+        if (implementation !== record.implementation) {
+            throw new Error(
+                `StakingManager at ${record.address} was upgraded to ${implementation} without updating the manifest.`
+            )
+        }
+        await syncFeeRates(await ethers.getContractAt("IStakingManager", record.address), config)
+        return manifest
+    }
+
+    if ((config.inputFeeRate > 0 || config.outputFeeRate > 0) && owner !== deployer.address) {
+        throw new Error("Initial fee rates can only be set when the deployer owns the StakingManager.")
+    }
+
+    // Reuse the modules of an interrupted run, or deploy a new chain of them
+    let modulesDeployed = true
+    for (const name of STAKING_MODULES) {
+        modulesDeployed &&= await isDeployed(name, contracts[name], isLocal)
+    }
+    if (!modulesDeployed) {
+        Object.assign(contracts, await deployModuleRecords())
+        writeManifest(manifest, manifestDir)
+    }
+    const constructorArgs = implementationArgs(contracts as ModuleRecords)
+    const proxy = await upgrades.deployProxy(StakingManagerFactory, args, {
+        initializer: "initialize",
+        kind: "uups",
+        constructorArgs,
+    })
+    await proxy.waitForDeployment()
+    const proxyAddress = await proxy.getAddress()
+    contracts.StakingManager = {
+        address: proxyAddress,
+        implementation: await upgrades.erc1967.getImplementationAddress(proxyAddress),
+        implementationArgs: constructorArgs,
+        args,
+    }
+    writeManifest(manifest, manifestDir)
+
+    await syncFeeRates(await ethers.getContractAt("IStakingManager", proxyAddress), config)
+    return manifest
+}
+
+/**
+ * Brings the fee rates of a StakingManager in line with the config.
+ * Rates that differ from the config are set, which schedules them when a fee rate change delay applies.
+ * A scheduled change matching the config is executed once its delay has passed.
+ */
+async function syncFeeRates(stakingManager: IStakingManager, config: DeployConfig): Promise<void> {
+    // Compare with the scheduled rates, which replace the current ones
+    const pending = await stakingManager.pendingFeeRateChange()
+    const [inputFeeRate, outputFeeRate] =
+        pending.activationTime > 0n
+            ? [pending.inputFeeRate, pending.outputFeeRate]
+            : await Promise.all([stakingManager.inputFeeRate(), stakingManager.outputFeeRate()])
+    const setInput = inputFeeRate !== BigInt(config.inputFeeRate)
+    const setOutput = outputFeeRate !== BigInt(config.outputFeeRate)
+    if (setInput || setOutput) await checkFeeManager(stakingManager)
+    if (setInput) await (await stakingManager.setInputFeeRate(config.inputFeeRate)).wait()
+    if (setOutput) await (await stakingManager.setOutputFeeRate(config.outputFeeRate)).wait()
+
+    // Without a delay the rates are already applied
+    const { activationTime } = await stakingManager.pendingFeeRateChange()
+    if (activationTime === 0n) return
+    const { timestamp } = (await ethers.provider.getBlock("latest"))!
+    if (BigInt(timestamp) < activationTime) {
+        console.log(`Fee rate change scheduled, run the deployment again after ${activationTime} to execute it.`)
+        return
+    }
+    await checkFeeManager(stakingManager)
+    await (await stakingManager.executeFeeRateChange()).wait()
+}
+
+async function checkFeeManager(stakingManager: IStakingManager): Promise<void> {
+    const [deployer] = await ethers.getSigners()
+    if (!(await stakingManager.hasRole(await stakingManager.FEE_MANAGER_ROLE(), deployer.address))) {
+        throw new Error("The fee rates differ from the config, but the deployer is not a fee manager.")
+    }
+}
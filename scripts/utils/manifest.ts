@@ -0,0 +1,49 @@
+import fs from "fs"
+import path from "path"
+
+// Kept free of the hardhat runtime, so tasks loaded from the hardhat config can read manifests too
+export const MANIFEST_DIR = path.join(__dirname, "..", "..", "deployments")
+
+export interface ContractRecord {
+    address: string
+    args: string[]
+}
+
+export interface ProxyRecord extends ContractRecord {
+    implementation: string
+    // Constructor arguments of the implementation, which takes the first of its modules
+    implementationArgs: string[]
+}
+
+// Modules of the current StakingManager implementation, each taking the next one as its constructor argument
+export interface ModuleRecords {
+    StakingFlows: ContractRecord
+    StakingPositions: ContractRecord
+    StakingAdmin: ContractRecord
+    StakingVaults: ContractRecord
+}
+
+export interface DeploymentManifest {
+    network: string
+    chainId: number
+    contracts: {
+        ERC20Token?: ContractRecord
+        MockMorphoVault?: ContractRecord
+        StakingManager?: ProxyRecord
+    } & Partial<ModuleRecords>
+}
+
+export function manifestPath(networkName: string, manifestDir = MANIFEST_DIR): string {
+    return path.join(manifestDir, `${networkName}.json`)
+}
+
+export function readManifest(networkName: string, manifestDir = MANIFEST_DIR): DeploymentManifest | undefined {
+    const file = manifestPath(networkName, manifestDir)
+    if (!fs.existsSync(file)) return undefined
+    return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest
+}
+
+export function writeManifest(manifest: DeploymentManifest, manifestDir = MANIFEST_DIR): void {
+    fs.mkdirSync(manifestDir, { recursive: true })
+    fs.writeFileSync(manifestPath(manifest.network, manifestDir), JSON.stringify(manifest, null, 4) + "\n")
+}
@@ -0,0 +1,41 @@
+import { ethers } from "hardhat"
+import { ModuleRecords } from "./manifest"
+
+// Modules the StakingManager fallback delegates to, in the order unknown calls are forwarded through them
+export const STAKING_MODULES: (keyof ModuleRecords)[] = [
+    "StakingFlows",
+    "StakingPositions",
+    "StakingAdmin",
+    "StakingVaults",
+]
+
+/**
+ * Deploys the modules of a StakingManager implementation, the last one first so each one can forward to the next.
+ * Returns every module with its address and constructor arguments.
+ */
+export async function deployModuleRecords(): Promise<ModuleRecords> {
+    const records: Partial<ModuleRecords> = {}
+    let nextModule = ethers.ZeroAddress
+    for (const name of [...STAKING_MODULES].reverse()) {
+        const module = await (await ethers.getContractFactory(name)).deploy(nextModule)
+        await module.waitForDeployment()
+        records[name] = { address: await module.getAddress(), args: [nextModule] }
+        nextModule = records[name].address
+    }
+    return records as ModuleRecords
+}
+
+/**
+ * Returns the constructor arguments of a StakingManager implementation running on `modules`.
+ */
+export function implementationArgs(modules: ModuleRecords): string[] {
+    return [modules[STAKING_MODULES[0]].address]
+}
+
+/**
+ * Deploys the modules of a StakingManager implementation.
+ * Returns the constructor arguments of the StakingManager implementation, which only takes the first module.
+ */
+export async function deployStakingModules(): Promise<string[]> {
+    return implementationArgs(await deployModuleRecords())
+}
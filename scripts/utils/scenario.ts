@@ -0,0 +1,236 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { ethers, upgrades } from "hardhat"
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers"
+import { ERC20Token, IStakingManager, StakingManagerV1 } from "../../typechain-types"
+import { deployStakingManager } from "./deploy"
+import { decodeError } from "../../sdk/errors"
+import { getInitializedVersion, guardedUpgrade } from "./upgrade"
+
+export const SCENARIO_DIR = path.join(__dirname, "..", "..", "scenarios")
+
+// Amounts are decimal strings, in asset units for assets and in share units for shares
+export interface Expectations {
+    // Asset balances of accounts
+    assets?: Record<string, string>
+    // StakingManager share balances of accounts
+    shares?: Record<string, string>
+    totalAssets?: string
+    totalSupply?: string
+    totalFeeAssets?: string
+    // Version of the last initializer or reinitializer that ran on the proxy
+    initializedVersion?: number
+}
+
+export type Step = (
+    | { action: "deposit"; account: string; assets: string; receiver?: string }
+    | { action: "mint"; account: string; shares: string; receiver?: string }
+    | { action: "withdraw"; account: string; assets: string; receiver?: string }
+    | { action: "redeem"; account: string; shares: string; receiver?: string }
+    | { action: "setFees"; input?: number; output?: number }
+    // Redeems fee shares, in vault share units, defaulting to the whole fee bucket
+    | { action: "withdrawFeeShares"; recipient: string; shares?: string }
+    // Deploys a fresh mock vault for the asset and migrates to it
+    | { action: "migrate" }
+    // Upgrades the proxy to the current build through the guarded upgrade pipeline
+    | { action: "upgrade" }
+) & {
+    // Custom error the step must revert with
+    reverts?: string
+    expect?: Expectations
+}
+
+export interface Scenario {
+    name: string
+    description?: string
+    // Scenario accounts and their starting asset balances
+    accounts: Record<string, string>
+    // Implementation the proxy starts on, the current build unless set
+    implementation?: "StakingManager" | "StakingManagerV1"
+    inputFeeRate?: number
+    outputFeeRate?: number
+    steps: Step[]
+}
+
+export function loadScenario(file: string): Scenario {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as Scenario
+}
+
+export function loadScenarios(scenarioDir = SCENARIO_DIR): Scenario[] {
+    return fs
+        .readdirSync(scenarioDir)
+        .filter((file) => file.endsWith(".json"))
+        .sort()
+        .map((file) => loadScenario(path.join(scenarioDir, file)))
+}
+
+/**
+ * Runs a scenario against a fresh StakingManager with mocks on the local hardhat network.
+ * Each step runs as the owner or a named scenario account and then checks its expectations,
+ * throwing on the first step that does not behave as described.
+ */
+export async function runScenario(scenario: Scenario, log: (message: string) => void = () => {}): Promise<void> {
+    const [owner, ...signers] = await ethers.getSigners()
+    const proxyAddress = await deployScenarioProxy(scenario, owner)
+    const stakingManager = (await ethers.getContractAt("IStakingManager", proxyAddress)) as unknown as IStakingManager
+    const token = (await ethers.getContractAt("ERC20Token", await stakingManager.asset())) as unknown as ERC20Token
+
+    // Fund the accounts and approve the StakingManager once
+    const accounts: Record<string, HardhatEthersSigner> = { owner }
+    const assetDecimals = await token.decimals()
+    const shareDecimals = await stakingManager.decimals()
+    const vaultDecimals = await (await ethers.getContractAt("IERC4626", await stakingManager.stakingVault())).decimals()
+    Object.keys(scenario.accounts).forEach((name, i) => (accounts[name] = signers[i]))
+    for (const [name, balance] of Object.entries(scenario.accounts)) {
+        const signer = accounts[name]
+        await token.transfer(
+            signer.address,
+            ethers.parseUnits(balance, assetDecimals) - (await token.balanceOf(signer))
+        )
+        await token.connect(signer).approve(proxyAddress, ethers.MaxUint256)
+    }
+
+    const account = (name: string) => {
+        if (!accounts[name]) throw new Error(`Unknown account ${name} in scenario ${scenario.name}.`)
+        return accounts[name]
+    }
+    const parseAssets = (amount: string) => ethers.parseUnits(amount, assetDecimals)
+    const parseShares = (amount: string) => ethers.parseUnits(amount, shareDecimals)
+
+    for (const [i, step] of scenario.steps.entries()) {
+        const label = `${scenario.name} step ${i + 1} (${step.action})`
+        log(label)
+        let reverted = false
+        try {
+            await runStep(step)
+        } catch (error) {
+            const decoded = decodeError(stakingManager.interface, error)
+            if (!step.reverts || decoded?.name !== step.reverts) {
+                const reason = decoded ? decoded.name : error instanceof Error ? error.message : String(error)
+                throw new Error(`${label} failed: ${reason}`)
+            }
+            reverted = true
+        }
+        if (step.reverts && !reverted) throw new Error(`${label} did not revert with ${step.reverts}.`)
+        if (step.expect) await checkExpectations(label, step.expect)
+    }
+
+    async function runStep(step: Step): Promise<void> {
+        switch (step.action) {
+            case "deposit": {
+                const signer = account(step.account)
+                const receiver = account(step.receiver || step.account)
+                await (await stakingManager.connect(signer).deposit(parseAssets(step.assets), receiver)).wait()
+                break
+            }
+            case "mint": {
+                const signer = account(step.account)
+                const receiver = account(step.receiver || step.account)
+                await (await stakingManager.connect(signer).mint(parseShares(step.shares), receiver)).wait()
+                break
+            }
+            case "withdraw": {
+                const signer = account(step.account)
+                const receiver = account(step.receiver || step.account)
+                const assets = parseAssets(step.assets)
+                await (await stakingManager.connect(signer).withdraw(assets, receiver, signer)).wait()
+                break
+            }
+            case "redeem": {
+                const signer = account(step.account)
+                const receiver = account(step.receiver || step.account)
+                const shares = parseShares(step.shares)
+                await (await stakingManager.connect(signer).redeem(shares, receiver, signer)).wait()
+                break
+            }
+            case "setFees":
+                if (step.input !== undefined) await (await stakingManager.setInputFeeRate(step.input)).wait()
+                if (step.output !== undefined) await (await stakingManager.setOutputFeeRate(step.output)).wait()
+                break
+            case "withdrawFeeShares": {
+                const shares = step.shares
+                    ? ethers.parseUnits(step.shares, vaultDecimals)
+                    : await stakingManager.totalFeeShares()
+                await (await stakingManager.withdrawFeeShares(account(step.recipient), shares)).wait()
+                break
+            }
+            case "migrate": {
+                const MockMorphoVaultFactory = await ethers.getContractFactory("MockMorphoVault")
+                const newVault = await MockMorphoVaultFactory.deploy(await token.getAddress())
+                await newVault.waitForDeployment()
+                await (await stakingManager.migrateVault(await newVault.getAddress())).wait()
+                break
+            }
+            case "upgrade":
+                await guardedUpgrade(proxyAddress, { holders: Object.values(accounts).map((a) => a.address) })
+                break
+            default:
+                throw new Error(`Unknown action ${(step as { action: string }).action}.`)
+        }
+    }
+
+    async function checkExpectations(label: string, expected: Expectations): Promise<void> {
+        const mismatches: string[] = []
+        const check = (field: string, actual: bigint, amount: string, decimals: bigint) => {
+            if (actual !== ethers.parseUnits(amount, decimals)) {
+                mismatches.push(`${field}: expected ${amount}, got ${ethers.formatUnits(actual, decimals)}`)
+            }
+        }
+        for (const [name, amount] of Object.entries(expected.assets || {})) {
+            check(`assets of ${name}`, await token.balanceOf(account(name)), amount, assetDecimals)
+        }
+        for (const [name, amount] of Object.entries(expected.shares || {})) {
+            check(`shares of ${name}`, await stakingManager.balanceOf(account(name)), amount, shareDecimals)
+        }
+        if (expected.totalAssets !== undefined) {
+            check("totalAssets", await stakingManager.totalAssets(), expected.totalAssets, assetDecimals)
+        }
+        if (expected.totalSupply !== undefined) {
+            check("totalSupply", await stakingManager.totalSupply(), expected.totalSupply, shareDecimals)
+        }
+        if (expected.totalFeeAssets !== undefined) {
+            check("totalFeeAssets", await stakingManager.totalFeeAssets(), expected.totalFeeAssets, assetDecimals)
+        }
+        if (expected.initializedVersion !== undefined) {
+            const actual = await getInitializedVersion(proxyAddress)
+            if (actual !== BigInt(expected.initializedVersion)) {
+                mismatches.push(`initializedVersion: expected ${expected.initializedVersion}, got ${actual}`)
+            }
+        }
+        if (mismatches.length > 0) throw new Error(`${label} drifted:\n  ${mismatches.join("\n  ")}`)
+    }
+}
+
+/**
+ * Deploys the StakingManager proxy a scenario starts from, with mocks for the asset and the vault.
+ * A StakingManagerV1 proxy is deployed as the first release did, so an upgrade step runs every reinitializer.
+ */
+async function deployScenarioProxy(scenario: Scenario, owner: HardhatEthersSigner): Promise<string> {
+    if (scenario.implementation === "StakingManagerV1") {
+        const token = await (await ethers.getContractFactory("ERC20Token")).deploy("Test Token", "TEST")
+        await token.waitForDeployment()
+        const vault = await (await ethers.getContractFactory("MockMorphoVault")).deploy(await token.getAddress())
+        await vault.waitForDeployment()
+        const v1 = (await upgrades.deployProxy(
+            await ethers.getContractFactory("StakingManagerV1"),
+            [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address],
+            { initializer: "initialize", kind: "uups" }
+        )) as unknown as StakingManagerV1
+        if (scenario.inputFeeRate) await (await v1.setInputFeeRate(scenario.inputFeeRate)).wait()
+        if (scenario.outputFeeRate) await (await v1.setOutputFeeRate(scenario.outputFeeRate)).wait()
+        return v1.getAddress()
+    }
+
+    const manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "scenario-"))
+    const manifest = await deployStakingManager(
+        {
+            name: "Staking Manager Token",
+            symbol: "SMT",
+            inputFeeRate: scenario.inputFeeRate || 0,
+            outputFeeRate: scenario.outputFeeRate || 0,
+        },
+        { manifestDir }
+    ).finally(() => fs.rmSync(manifestDir, { recursive: true, force: true }))
+    return manifest.contracts.StakingManager!.address
+}
@@ -0,0 +1,171 @@
+import { ethers, network, upgrades } from "hardhat"
+import { UpgradeOptions } from "@openzeppelin/hardhat-upgrades"
+import { IStakingManager, StakingManager } from "../../typechain-types"
+import { ModuleRecords } from "./manifest"
+import { deployModuleRecords, implementationArgs } from "./modules"
+
+// ERC-7201 slot of OpenZeppelin's Initializable storage, holding the last initialized version
+const INITIALIZABLE_STORAGE = "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00"
+
+// Snapshot fields valued in assets, which move with vault yield and streamed fees between blocks
+const ASSET_FIELDS = ["totalAssets"]
+
+export type Snapshot = Record<string, string | bigint | boolean>
+
+export interface GuardedUpgradeOptions {
+    // Known share holders whose balances must survive the upgrade
+    holders?: string[]
+    // Snapshot fields that are reported but allowed to change, e.g. when the upgrade redefines them
+    allowDrift?: string[]
+    // Tolerated change of asset-valued fields, in basis points
+    maxAssetDriftBps?: bigint
+}
+
+export interface UpgradeReport {
+    previousImplementation: string
+    newImplementation: string
+    // Constructor arguments of the new implementation and the modules it runs on
+    implementationArgs: string[]
+    modules: ModuleRecords
+    reinitializers: string[]
+    before: Snapshot
+    after: Snapshot
+}
+
+/**
+ * Reads the version of the last initializer or reinitializer that ran on a proxy.
+ * Reads the storage slot directly, so it also works for implementations without `initializedVersion()`.
+ */
+export async function getInitializedVersion(proxyAddress: string): Promise<bigint> {
+    const slot = await ethers.provider.getStorage(proxyAddress, INITIALIZABLE_STORAGE)
+    return BigInt(slot) & ((1n << 64n) - 1n)
+}
+
+/**
+ * Captures the state an upgrade must preserve.
+ */
+export async function takeSnapshot(stakingManager: IStakingManager, holders: string[] = []): Promise<Snapshot> {
+    const snapshot: Snapshot = {
+        stakingVault: await stakingManager.stakingVault(),
+        asset: await stakingManager.asset(),
+        paused: await stakingManager.paused(),
+        totalSupply: await stakingManager.totalSupply(),
+        totalAssets: await stakingManager.totalAssets(),
+        totalFeeShares: await stakingManager.totalFeeShares(),
+        inputFeeRate: await stakingManager.inputFeeRate(),
+        outputFeeRate: await stakingManager.outputFeeRate(),
+    }
+    for (const holder of holders) {
+        snapshot[`balanceOf(${holder})`] = await stakingManager.balanceOf(holder)
+    }
+    return snapshot
+}
+
+/**
+ * Compares two snapshots and returns one line per drifted field.
+ */
+export function diffSnapshots(
+    before: Snapshot,
+    after: Snapshot,
+    maxAssetDriftBps = 0n,
+    allowDrift: string[] = []
+): string[] {
+    const diff: string[] = []
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        const previous = before[key]
+        const current = after[key]
+        if (previous === current || allowDrift.includes(key)) continue
+        if (ASSET_FIELDS.includes(key) && typeof previous === "bigint" && typeof current === "bigint") {
+            const drift = previous > current ? previous - current : current - previous
+            if (drift * 10000n <= previous * maxAssetDriftBps) continue
+        }
+        diff.push(`${key}: ${previous} -> ${current}`)
+    }
+    return diff
+}
+
+/**
+ * Upgrades a StakingManager proxy to the current build and verifies nothing drifted.
+ * Validates the storage layout against the current implementation, deploys the new implementation,
+ * runs every pending `initializeV<N>` reinitializer atomically with the upgrade and compares snapshots taken
+ * before and after.
+ * On the local hardhat network a drift reverts the chain to its state before the upgrade. On live networks the
+ * upgrade and the reinitializers are already mined when the snapshots are compared, so a drift is only reported
+ * after the fact; rehearse the upgrade on the local network first.
+ */
+export async function guardedUpgrade(
+    proxyAddress: string,
+    options: GuardedUpgradeOptions = {}
+): Promise<UpgradeReport> {
+    const { holders = [], allowDrift = [], maxAssetDriftBps = 0n } = options
+    const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
+    const stakingManager = await ethers.getContractAt("IStakingManager", proxyAddress)
+    const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxyAddress)
+
+    // Reject incompatible storage layouts before anything is deployed, which the module address does not affect.
+    // The plugin encodes the constructor arguments while validating, although its validation options omit them
+    const validateOptions: UpgradeOptions = { kind: "uups", constructorArgs: [ethers.ZeroAddress] }
+    await upgrades.validateUpgrade(proxyAddress, StakingManagerFactory, validateOptions)
+    // The new implementation runs on modules deployed with it
+    const modules = await deployModuleRecords()
+    const constructorArgs = implementationArgs(modules)
+    const newImplementation = (await upgrades.prepareUpgrade(proxyAddress, StakingManagerFactory, {
+        kind: "uups",
+        constructorArgs,
+    })) as string
+
+    // Every reinitializer between the proxy's version and the new implementation's one has to run in order
+    const targetVersion = await (
+        StakingManagerFactory.attach(newImplementation) as StakingManager
+    ).REINITIALIZER_VERSION()
+    const initializedVersion = await getInitializedVersion(proxyAddress)
+    const reinitializers: string[] = []
+    for (let v = initializedVersion + 1n; v <= targetVersion; v++) {
+        reinitializers.push(`initializeV${v}`)
+    }
+
+    const before = await takeSnapshot(stakingManager, holders)
+    const chainSnapshot = network.name === "hardhat" ? await network.provider.send("evm_snapshot") : undefined
+
+    // Every reinitializer runs in one multicall with the upgrade, so no other call can land between them
+    const calls = reinitializers.map((reinitializer) =>
+        StakingManagerFactory.interface.encodeFunctionData(reinitializer)
+    )
+    await upgrades.upgradeProxy(proxyAddress, StakingManagerFactory, {
+        kind: "uups",
+        constructorArgs,
+        call: calls.length > 0 ? { fn: "multicall", args: [calls] } : undefined,
+    })
+
+    const after = await takeSnapshot(stakingManager, holders)
+    const diff = diffSnapshots(before, after, maxAssetDriftBps, allowDrift)
+
+    // Post-upgrade invariants on the implementation and its reinitializers
+    if ((await upgrades.erc1967.getImplementationAddress(proxyAddress)) !== newImplementation) {
+        diff.push(`implementation: expected ${newImplementation}`)
+    }
+    if ((await getInitializedVersion(proxyAddress)) !== targetVersion) {
+        diff.push(`initializedVersion: expected ${targetVersion}`)
+    }
+    if ((await stakingManager.version()) !== `${targetVersion}.0.0`) {
+        diff.push(`version: expected ${targetVersion}.0.0`)
+    }
+
+    if (diff.length > 0) {
+        if (chainSnapshot !== undefined) {
+            await network.provider.send("evm_revert", [chainSnapshot])
+            throw new Error(`State drifted during the upgrade, reverted:\n  ${diff.join("\n  ")}`)
+        }
+        throw new Error(`State drifted during the upgrade, which is already on-chain:\n  ${diff.join("\n  ")}`)
+    }
+
+    return {
+        previousImplementation,
+        newImplementation,
+        implementationArgs: constructorArgs,
+        modules,
+        reinitializers,
+        before,
+        after,
+    }
+}
@@ -0,0 +1,354 @@
+import {
+    BigNumberish,
+    ContractRunner,
+    ContractTransactionResponse,
+    Interface,
+    MaxUint256,
+    TransactionReceipt,
+    ZeroAddress,
+} from "ethers"
+import type { IERC20Metadata, IStakingManager } from "../typechain-types"
+import type { TypedLogDescription } from "../typechain-types/common"
+import { IERC20Metadata__factory } from "../typechain-types/factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory"
+import { IStakingManager__factory } from "../typechain-types/factories/contracts/interfaces/IStakingManager__factory"
+import { Errors__factory } from "../typechain-types/factories/contracts/interfaces/Errors__factory"
+import { decodeError, DecodedError } from "./errors"
+
+const FEE_DENOMINATOR = 10000n
+
+export type StakingManagerEventName = keyof IStakingManager["filters"] & string
+
+/**
+ * A quote for an ERC4626 operation with the fee the account pays on it at most, as charged by the previews.
+ */
+export interface Quote {
+    assets: bigint
+    shares: bigint
+    fee: bigint
+}
+
+export interface StakingManagerStatus {
+    version: string
+    stakingVault: string
+    asset: string
+    paused: boolean
+    isShutdown: boolean
+    inputFeeRate: bigint
+    outputFeeRate: bigint
+    totalFeeShares: bigint
+    totalFeeAssets: bigint
+    totalAssets: bigint
+    totalSupply: bigint
+}
+
+/**
+ * A fee rate change waiting for its activation time, in basis points and seconds since the epoch.
+ */
+export interface PendingFeeRateChange {
+    inputFeeRate: bigint
+    outputFeeRate: bigint
+    activationTime: bigint
+}
+
+export interface DepositOptions {
+    // Receiver of the shares, defaults to the signer
+    receiver?: string
+    // Approve the exact missing allowance before depositing
+    approve?: boolean
+    // Slippage bound; uses the protected variant together with `deadline`
+    minShares?: BigNumberish
+    deadline?: BigNumberish
+}
+
+export interface MintOptions extends Omit<DepositOptions, "minShares"> {
+    maxAssets?: BigNumberish
+}
+
+export interface WithdrawOptions {
+    // Receiver of the assets and owner of the shares, both default to the signer
+    receiver?: string
+    owner?: string
+    // Slippage bound; uses the protected variant together with `deadline`
+    maxShares?: BigNumberish
+    deadline?: BigNumberish
+}
+
+export interface RedeemOptions extends Omit<WithdrawOptions, "maxShares"> {
+    minAssets?: BigNumberish
+}
+
+/**
+ * Error thrown by the client when a StakingManager call reverts, carrying the decoded custom error.
+ */
+export class StakingManagerError extends Error {
+    constructor(readonly errorName: string, readonly errorArgs: unknown[], readonly cause: unknown) {
+        super(`StakingManager reverted with ${errorName}(${errorArgs.join(", ")})`)
+        this.name = "StakingManagerError"
+    }
+}
+
+/**
+ * Typed client for a StakingManager deployment.
+ * Quotes apply the fee rates of the quoted account, transactions are sent by the runner,
+ * and reverts are rethrown as `StakingManagerError` with the decoded custom error.
+ */
+export class StakingManagerClient {
+    readonly contract: IStakingManager
+    private readonly errorsInterface: Interface = Errors__factory.createInterface()
+    private assetContract?: IERC20Metadata
+
+    constructor(address: string, readonly runner: ContractRunner) {
+        this.contract = IStakingManager__factory.connect(address, runner)
+    }
+
+    /**
+     * Returns the asset token of the StakingManager.
+     */
+    async asset(): Promise<IERC20Metadata> {
+        if (!this.assetContract) {
+            this.assetContract = IERC20Metadata__factory.connect(await this.contract.asset(), this.runner)
+        }
+        return this.assetContract
+    }
+
+    async getStatus(): Promise<StakingManagerStatus> {
+        const c = this.contract
+        const [version, stakingVault, asset, paused, isShutdown, inputFeeRate, outputFeeRate] = await Promise.all([
+            c.version(),
+            c.stakingVault(),
+            c.asset(),
+            c.paused(),
+            c.isShutdown(),
+            c.inputFeeRate(),
+            c.outputFeeRate(),
+        ])
+        const [totalFeeShares, totalFeeAssets, totalAssets, totalSupply] = await Promise.all([
+            c.totalFeeShares(),
+            c.totalFeeAssets(),
+            c.totalAssets(),
+            c.totalSupply(),
+        ])
+        return {
+            version,
+            stakingVault,
+            asset,
+            paused,
+            isShutdown,
+            inputFeeRate,
+            outputFeeRate,
+            totalFeeShares,
+            totalFeeAssets,
+            totalAssets,
+            totalSupply,
+        }
+    }
+
+    // ========== Quotes ==========
+
+    async quoteDeposit(assets: bigint, account?: string): Promise<Quote> {
+        const from = await this.accountOr(account)
+        const [[input], shares] = await Promise.all([
+            this.previewFeeRates(from),
+            this.contract.previewDeposit(assets, { from }),
+        ])
+        return { assets, shares, fee: (assets * input) / FEE_DENOMINATOR }
+    }
+
+    async quoteMint(shares: bigint, account?: string): Promise<Quote> {
+        const from = await this.accountOr(account)
+        const [[input], assets] = await Promise.all([
+            this.previewFeeRates(from),
+            this.contract.previewMint(shares, { from }),
+        ])
+        return { assets, shares, fee: (assets * input) / FEE_DENOMINATOR }
+    }
+
+    async quoteWithdraw(assets: bigint, account?: string): Promise<Quote> {
+        const from = await this.accountOr(account)
+        const [[, output], shares] = await Promise.all([
+            this.previewFeeRates(from),
+            this.contract.previewWithdraw(assets, { from }),
+        ])
+        // The output fee is added on top of the withdrawn assets, rounding up like the contract
+        const grossAssets = ceilDiv(assets * FEE_DENOMINATOR, FEE_DENOMINATOR - output)
+        return { assets, shares, fee: grossAssets - assets }
+    }
+
+    async quoteRedeem(shares: bigint, account?: string): Promise<Quote> {
+        const from = await this.accountOr(account)
+        const [[, output], assets, grossAssets] = await Promise.all([
+            this.previewFeeRates(from),
+            this.contract.previewRedeem(shares, { from }),
+            this.contract.convertToAssets(shares),
+        ])
+        return { assets, shares, fee: (grossAssets * output) / FEE_DENOMINATOR }
+    }
+
+    // ========== Allowance ==========
+
+    async allowance(owner?: string): Promise<bigint> {
+        const asset = await this.asset()
+        return asset.allowance(await this.accountOr(owner), await this.contract.getAddress())
+    }
+
+    /**
+     * Approves the StakingManager for `assets` if the current allowance is lower.
+     * @returns The approval receipt, or null when the allowance already covers `assets`.
+     */
+    async ensureAllowance(assets: bigint, exact = true): Promise<TransactionReceipt | null> {
+        if ((await this.allowance()) >= assets) return null
+        const asset = await this.asset()
+        return this.send(asset.approve(await this.contract.getAddress(), exact ? assets : MaxUint256))
+    }
+
+    // ========== Deposits and withdrawals ==========
+
+    async deposit(assets: bigint, options: DepositOptions = {}): Promise<TransactionReceipt> {
+        const receiver = await this.accountOr(options.receiver)
+        if (options.approve) await this.ensureAllowance(assets)
+        if (options.minShares === undefined && options.deadline === undefined) {
+            return this.send(this.contract.deposit(assets, receiver))
+        }
+        const { minShares = 0n, deadline = MaxUint256 } = options
+        return this.send(this.contract.depositWithMinShares(assets, receiver, minShares, deadline))
+    }
+
+    async mint(shares: bigint, options: MintOptions = {}): Promise<TransactionReceipt> {
+        const receiver = await this.accountOr(options.receiver)
+        if (options.approve) await this.ensureAllowance((await this.quoteMint(shares)).assets)
+        if (options.maxAssets === undefined && options.deadline === undefined) {
+            return this.send(this.contract.mint(shares, receiver))
+        }
+        const { maxAssets = MaxUint256, deadline = MaxUint256 } = options
+        return this.send(this.contract.mintWithMaxAssets(shares, receiver, maxAssets, deadline))
+    }
+
+    async withdraw(assets: bigint, options: WithdrawOptions = {}): Promise<TransactionReceipt> {
+        const receiver = await this.accountOr(options.receiver)
+        const owner = await this.accountOr(options.owner)
+        if (options.maxShares === undefined && options.deadline === undefined) {
+            return this.send(this.contract.withdraw(assets, receiver, owner))
+        }
+        const { maxShares = MaxUint256, deadline = MaxUint256 } = options
+        return this.send(this.contract.withdrawWithMaxShares(assets, receiver, owner, maxShares, deadline))
+    }
+
+    async redeem(shares: bigint, options: RedeemOptions = {}): Promise<TransactionReceipt> {
+        const receiver = await this.accountOr(options.receiver)
+        const owner = await this.accountOr(options.owner)
+        if (options.minAssets === undefined && options.deadline === undefined) {
+            return this.send(this.contract.redeem(shares, receiver, owner))
+        }
+        const { minAssets = 0n, deadline = MaxUint256 } = options
+        return this.send(this.contract.redeemWithMinAssets(shares, receiver, owner, minAssets, deadline))
+    }
+
+    // ========== Admin ==========
+
+    /**
+     * Schedules new input and output fee rates. Without a `feeRateChangeDelay` they apply immediately,
+     * otherwise they only apply through `executeFeeRateChange` once the delay has passed.
+     * Each rate is scheduled in its own transaction, and rescheduling restarts the delay.
+     */
+    async scheduleFeeRates(rates: { input?: BigNumberish; output?: BigNumberish }): Promise<TransactionReceipt[]> {
+        const receipts: TransactionReceipt[] = []
+        if (rates.input !== undefined) receipts.push(await this.send(this.contract.setInputFeeRate(rates.input)))
+        if (rates.output !== undefined) receipts.push(await this.send(this.contract.setOutputFeeRate(rates.output)))
+        return receipts
+    }
+
+    /**
+     * Returns the scheduled fee rate change, or null when none is pending.
+     */
+    async getPendingFeeRateChange(): Promise<PendingFeeRateChange | null> {
+        const { inputFeeRate, outputFeeRate, activationTime } = await this.contract.pendingFeeRateChange()
+        return activationTime === 0n ? null : { inputFeeRate, outputFeeRate, activationTime }
+    }
+
+    async executeFeeRateChange(): Promise<TransactionReceipt> {
+        return this.send(this.contract.executeFeeRateChange())
+    }
+
+    async cancelFeeRateChange(): Promise<TransactionReceipt> {
+        return this.send(this.contract.cancelFeeRateChange())
+    }
+
+    async pause(): Promise<TransactionReceipt> {
+        return this.send(this.contract.pause())
+    }
+
+    async unpause(): Promise<TransactionReceipt> {
+        return this.send(this.contract.unpause())
+    }
+
+    /**
+     * Redeems fee shares, in vault share units, defaulting to the whole fee bucket.
+     */
+    async withdrawFeeShares(recipient: string, shares?: bigint): Promise<TransactionReceipt> {
+        const amount = shares ?? (await this.contract.totalFeeShares())
+        return this.send(this.contract.withdrawFeeShares(recipient, amount))
+    }
+
+    async migrateVault(newVault: string): Promise<TransactionReceipt> {
+        return this.send(this.contract.migrateVault(newVault))
+    }
+
+    // ========== Errors and events ==========
+
+    /**
+     * Decodes the custom error of a failed call, preferring the errors declared in `Errors`.
+     */
+    decodeError(error: unknown): DecodedError | null {
+        return decodeError(this.errorsInterface, error) || decodeError(this.contract.interface, error)
+    }
+
+    /**
+     * Returns the typed `name` events the StakingManager emitted in a transaction.
+     */
+    async parseEvents<K extends StakingManagerEventName>(
+        receipt: TransactionReceipt,
+        name: K
+    ): Promise<TypedLogDescription<IStakingManager["filters"][K]>[]> {
+        const address = (await this.contract.getAddress()).toLowerCase()
+        const events: TypedLogDescription<IStakingManager["filters"][K]>[] = []
+        for (const log of receipt.logs) {
+            if (log.address.toLowerCase() !== address) continue
+            const parsed = this.contract.interface.parseLog(log)
+            if (parsed && (parsed.name === name || parsed.signature === name)) {
+                events.push(parsed as unknown as TypedLogDescription<IStakingManager["filters"][K]>)
+            }
+        }
+        return events
+    }
+
+    // Fee rates the previews charge: the account's exemption applies, tiers of receivers and owners do not
+    private async previewFeeRates(account: string): Promise<[bigint, bigint]> {
+        const [exempt, [input, output]] = await Promise.all([
+            this.contract.isFeeExempt(account),
+            this.contract.effectiveFeeRates(ZeroAddress),
+        ])
+        return exempt ? [0n, 0n] : [input, output]
+    }
+
+    private async accountOr(account?: string): Promise<string> {
+        if (account) return account
+        if (!this.runner || !("getAddress" in this.runner)) {
+            throw new Error("An account is required when the client has no signer.")
+        }
+        return (this.runner as { getAddress(): Promise<string> }).getAddress()
+    }
+
+    private async send(tx: Promise<ContractTransactionResponse>): Promise<TransactionReceipt> {
+        try {
+            return (await (await tx).wait())!
+        } catch (error) {
+            const decoded = this.decodeError(error)
+            if (decoded) throw new StakingManagerError(decoded.name, decoded.args, error)
+            throw error
+        }
+    }
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b
+}
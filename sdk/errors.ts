@@ -0,0 +1,39 @@
+import { isCallException, type Interface } from "ethers"
+
+export interface DecodedError {
+    name: string
+    args: unknown[]
+}
+
+/**
+ * Decodes the custom error of a failed call against a contract ABI.
+ * The IStakingManager ABI includes every error of `Errors`, so its interface decodes all of them.
+ */
+export function decodeError(iface: Interface, error: unknown): DecodedError | null {
+    if (isCallException(error) && error.revert) return { name: error.revert.name, args: [...error.revert.args] }
+    // Hardhat's provider errors nest the revert data one level deeper than ethers' call exceptions
+    const errorData = field(error, "data")
+    const data = typeof errorData === "string" ? errorData : field(errorData, "data")
+    if (typeof data !== "string" || data === "0x") return null
+    try {
+        const parsed = iface.parseError(data)
+        return parsed && { name: parsed.name, args: [...parsed.args] }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Describes a failed call by its decoded custom error, falling back to the error message.
+ */
+export function formatError(iface: Interface, error: unknown): string {
+    const decoded = decodeError(iface, error)
+    if (decoded) return `${decoded.name}(${decoded.args.join(", ")})`
+    const shortMessage = field(error, "shortMessage")
+    if (typeof shortMessage === "string" && shortMessage) return shortMessage
+    return error instanceof Error ? error.message : String(error)
+}
+
+function field(value: unknown, key: string): unknown {
+    return typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined
+}
@@ -0,0 +1,17 @@
+export {
+    StakingManagerClient,
+    StakingManagerError,
+    type DepositOptions,
+    type MintOptions,
+    type PendingFeeRateChange,
+    type Quote,
+    type RedeemOptions,
+    type StakingManagerEventName,
+    type StakingManagerStatus,
+    type WithdrawOptions,
+} from "./StakingManagerClient"
+export { decodeError, formatError, type DecodedError } from "./errors"
+export type { IStakingManager } from "../typechain-types/contracts/interfaces/IStakingManager"
+export type { TypedContractEvent, TypedLogDescription } from "../typechain-types/common"
+export { IStakingManager__factory } from "../typechain-types/factories/contracts/interfaces/IStakingManager__factory"
+export { Errors__factory } from "../typechain-types/factories/contracts/interfaces/Errors__factory"
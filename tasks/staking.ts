@@ -0,0 +1,253 @@
+import { scope, types } from "hardhat/config"
+import { HardhatPluginError } from "hardhat/plugins"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { IStakingManager } from "../typechain-types"
+import { formatError } from "../sdk/errors"
+import { readManifest } from "../scripts/utils/manifest"
+
+interface TxArgs {
+    proxy?: string
+    dryRun: boolean
+}
+
+const staking = scope("staking", "Day-to-day StakingManager operations")
+
+/**
+ * Resolves the StakingManager from `--proxy` or the deployment manifest of the network.
+ */
+async function getStakingManager(hre: HardhatRuntimeEnvironment, proxy?: string): Promise<IStakingManager> {
+    const address = proxy || readManifest(hre.network.name)?.contracts.StakingManager?.address
+    if (!address) {
+        throw new HardhatPluginError(
+            "staking",
+            `No StakingManager for ${hre.network.name}. Pass --proxy or deploy with scripts/deploy.ts.`
+        )
+    }
+    requireAddress(hre, "proxy", address)
+    if ((await hre.ethers.provider.getCode(address)) === "0x") {
+        throw new HardhatPluginError("staking", `No contract deployed at ${address} on ${hre.network.name}.`)
+    }
+    return (await hre.ethers.getContractAt("IStakingManager", address)) as unknown as IStakingManager
+}
+
+function requireAddress(hre: HardhatRuntimeEnvironment, name: string, value: string): void {
+    if (!hre.ethers.isAddress(value))
+        throw new HardhatPluginError("staking", `--${name} must be an address, got ${value}.`)
+}
+
+/**
+ * Returns formatters for amounts of the asset and of the staking vault shares.
+ */
+async function getFormatters(hre: HardhatRuntimeEnvironment, stakingManager: IStakingManager) {
+    const asset = await hre.ethers.getContractAt("IERC20Metadata", await stakingManager.asset())
+    const vault = await hre.ethers.getContractAt("IERC4626", await stakingManager.stakingVault())
+    const [assetDecimals, assetSymbol, vaultDecimals, vaultSymbol] = await Promise.all([
+        asset.decimals(),
+        asset.symbol(),
+        vault.decimals(),
+        vault.symbol(),
+    ])
+    return {
+        vaultDecimals,
+        formatAssets: (amount: bigint) => `${hre.ethers.formatUnits(amount, assetDecimals)} ${assetSymbol}`,
+        formatVaultShares: (amount: bigint) => `${hre.ethers.formatUnits(amount, vaultDecimals)} ${vaultSymbol}`,
+    }
+}
+
+function formatRate(rate: bigint): string {
+    return `${Number(rate) / 100}% (${rate} bps)`
+}
+
+/**
+ * Simulates a transaction with `staticCall` on dry runs and sends it otherwise, reporting decoded custom errors.
+ */
+async function execute(
+    stakingManager: IStakingManager,
+    method: string,
+    args: unknown[],
+    dryRun: boolean
+): Promise<string | undefined> {
+    const fn = stakingManager.getFunction(method)
+    try {
+        if (dryRun) {
+            await fn.staticCall(...args)
+            console.log(`Dry run: ${method} would succeed`)
+            return undefined
+        }
+        const tx = await fn(...args)
+        await tx.wait()
+        console.log(`${method} sent in ${tx.hash}`)
+        return tx.hash
+    } catch (error) {
+        throw new HardhatPluginError("staking", `${method} reverted: ${formatError(stakingManager.interface, error)}`)
+    }
+}
+
+staking
+    .task("status", "Shows the vault, fees, fee bucket, pause state and version")
+    .addOptionalParam("proxy", "StakingManager address, defaults to the deployment manifest")
+    .setAction(async ({ proxy }: { proxy?: string }, hre) => {
+        const stakingManager = await getStakingManager(hre, proxy)
+        const { formatAssets, formatVaultShares } = await getFormatters(hre, stakingManager)
+        const status = {
+            version: await stakingManager.version(),
+            stakingVault: await stakingManager.stakingVault(),
+            asset: await stakingManager.asset(),
+            paused: await stakingManager.paused(),
+            isShutdown: await stakingManager.isShutdown(),
+            inputFeeRate: await stakingManager.inputFeeRate(),
+            outputFeeRate: await stakingManager.outputFeeRate(),
+            totalFeeShares: await stakingManager.totalFeeShares(),
+            totalFeeAssets: await stakingManager.totalFeeAssets(),
+            totalAssets: await stakingManager.totalAssets(),
+            totalSupply: await stakingManager.totalSupply(),
+        }
+
+        console.log("StakingManager:", await stakingManager.getAddress())
+        console.log("Version:", status.version)
+        console.log("Staking vault:", status.stakingVault)
+        console.log("Asset:", status.asset)
+        console.log("Paused:", status.paused)
+        console.log("Shutdown:", status.isShutdown)
+        console.log("Input fee:", formatRate(status.inputFeeRate))
+        console.log("Output fee:", formatRate(status.outputFeeRate))
+        console.log("Fee shares:", formatVaultShares(status.totalFeeShares))
+        console.log("Fee assets:", formatAssets(status.totalFeeAssets))
+        console.log("Total assets:", formatAssets(status.totalAssets))
+        console.log("Total supply:", hre.ethers.formatUnits(status.totalSupply, await stakingManager.decimals()))
+        return status
+    })
+
+staking
+    .task("set-fees", "Sets the input and output fee rates, subject to the fee rate change delay")
+    .addOptionalParam("proxy", "StakingManager address, defaults to the deployment manifest")
+    .addOptionalParam("input", "New input fee rate in basis points", undefined, types.int)
+    .addOptionalParam("output", "New output fee rate in basis points", undefined, types.int)
+    .addFlag("dryRun", "Simulate with staticCall without sending transactions")
+    .setAction(async ({ proxy, input, output, dryRun }: TxArgs & { input?: number; output?: number }, hre) => {
+        if (input === undefined && output === undefined)
+            throw new HardhatPluginError("staking", "Pass --input, --output or both.")
+        const stakingManager = await getStakingManager(hre, proxy)
+        const maxFeeRate = await stakingManager.MAX_FEE_RATE()
+        for (const [name, rate] of [
+            ["input", input],
+            ["output", output],
+        ] as const) {
+            if (rate !== undefined && (rate < 0 || BigInt(rate) > maxFeeRate)) {
+                throw new HardhatPluginError(
+                    "staking",
+                    `--${name} must be between 0 and ${maxFeeRate} basis points, got ${rate}.`
+                )
+            }
+        }
+
+        if (input !== undefined) {
+            console.log("Input fee:", formatRate(await stakingManager.inputFeeRate()), "->", formatRate(BigInt(input)))
+            await execute(stakingManager, "setInputFeeRate", [input], dryRun)
+        }
+        if (output !== undefined) {
+            console.log(
+                "Output fee:",
+                formatRate(await stakingManager.outputFeeRate()),
+                "->",
+                formatRate(BigInt(output))
+            )
+            await execute(stakingManager, "setOutputFeeRate", [output], dryRun)
+        }
+
+        const { activationTime } = await stakingManager.pendingFeeRateChange()
+        if (!dryRun && activationTime > 0n) {
+            console.log("Change scheduled, run executeFeeRateChange after", new Date(Number(activationTime) * 1000))
+        }
+    })
+
+staking
+    .task("pause", "Pauses deposits and withdrawals")
+    .addOptionalParam("proxy", "StakingManager address, defaults to the deployment manifest")
+    .addFlag("dryRun", "Simulate with staticCall without sending transactions")
+    .setAction(async ({ proxy, dryRun }: TxArgs, hre) => {
+        const stakingManager = await getStakingManager(hre, proxy)
+        if (await stakingManager.paused()) throw new HardhatPluginError("staking", "StakingManager is already paused.")
+        await execute(stakingManager, "pause", [], dryRun)
+    })
+
+staking
+    .task("unpause", "Resumes deposits and withdrawals")
+    .addOptionalParam("proxy", "StakingManager address, defaults to the deployment manifest")
+    .addFlag("dryRun", "Simulate with staticCall without sending transactions")
+    .setAction(async ({ proxy, dryRun }: TxArgs, hre) => {
+        const stakingManager = await getStakingManager(hre, proxy)
+        if (!(await stakingManager.paused())) throw new HardhatPluginError("staking", "StakingManager is not paused.")
+        await execute(stakingManager, "unpause", [], dryRun)
+    })
+
+staking
+    .task("migrate-vault", "Previews with getMigrationInfo and migrates all assets to a new vault")
+    .addOptionalParam("proxy", "StakingManager address, defaults to the deployment manifest")
+    .addParam("newVault", "Address of the vault to migrate to")
+    .addFlag("dryRun", "Simulate with staticCall without sending transactions")
+    .setAction(async ({ proxy, newVault, dryRun }: TxArgs & { newVault: string }, hre) => {
+        requireAddress(hre, "new-vault", newVault)
+        const stakingManager = await getStakingManager(hre, proxy)
+        if ((await hre.ethers.provider.getCode(newVault)) === "0x") {
+            throw new HardhatPluginError("staking", `No vault deployed at ${newVault} on ${hre.network.name}.`)
+        }
+        const { formatAssets, formatVaultShares } = await getFormatters(hre, stakingManager)
+        const target = await hre.ethers.getContractAt("IERC4626", newVault)
+        const targetDecimals = await target.decimals()
+        const info = await stakingManager.getMigrationInfo(newVault)
+
+        console.log("Current vault:", await stakingManager.stakingVault())
+        console.log("Current assets:", formatAssets(info.currentAssets))
+        console.log("Current shares:", formatVaultShares(info.currentShares))
+        console.log("Projected assets:", formatAssets(info.projectedAssets))
+        console.log("Projected shares:", hre.ethers.formatUnits(info.projectedShares, targetDecimals))
+        if (info.currentAssets > info.projectedAssets) {
+            console.log("Expected loss:", formatAssets(info.currentAssets - info.projectedAssets))
+        }
+
+        await execute(stakingManager, "migrateVault", [newVault], dryRun)
+        return info
+    })
+
+staking
+    .task("withdraw-fees", "Redeems fee shares from the fee bucket and sends the assets to a recipient")
+    .addOptionalParam("proxy", "StakingManager address, defaults to the deployment manifest")
+    .addOptionalParam("recipient", "Receiver of the assets, defaults to the signer")
+    .addOptionalParam("shares", "Fee shares to redeem in vault share units, defaults to the whole bucket")
+    .addFlag("dryRun", "Simulate with staticCall without sending transactions")
+    .setAction(async ({ proxy, recipient, shares, dryRun }: TxArgs & { recipient?: string; shares?: string }, hre) => {
+        const stakingManager = await getStakingManager(hre, proxy)
+        const receiver = recipient || (await hre.ethers.getSigners())[0].address
+        requireAddress(hre, "recipient", receiver)
+        if (await stakingManager.isShutdown()) {
+            throw new HardhatPluginError(
+                "staking",
+                "After a shutdown fee shares are StakingManager shares, call withdrawFeeShares directly."
+            )
+        }
+        const { vaultDecimals, formatAssets, formatVaultShares } = await getFormatters(hre, stakingManager)
+
+        const totalFeeShares = await stakingManager.totalFeeShares()
+        let amount: bigint
+        try {
+            amount = shares === undefined ? totalFeeShares : hre.ethers.parseUnits(shares, vaultDecimals)
+        } catch {
+            throw new HardhatPluginError("staking", `--shares must be a decimal amount, got ${shares}.`)
+        }
+        if (amount === 0n) throw new HardhatPluginError("staking", "No fee shares to withdraw.")
+        if (amount > totalFeeShares) {
+            throw new HardhatPluginError(
+                "staking",
+                `--shares exceeds the fee bucket of ${formatVaultShares(totalFeeShares)}, got ${formatVaultShares(
+                    amount
+                )}.`
+            )
+        }
+
+        const vault = await hre.ethers.getContractAt("IERC4626", await stakingManager.stakingVault())
+        console.log("Fee shares:", formatVaultShares(amount))
+        console.log("Expected assets:", formatAssets(await vault.previewRedeem(amount)))
+        console.log("Recipient:", receiver)
+        await execute(stakingManager, "withdrawFeeShares", [receiver, amount], dryRun)
+    })
@@ -0,0 +1,83 @@
+import { expect } from "chai"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Fee Accounting", function () {
+    let context: TestContext
+    const FEE_AMOUNT = STAKE_AMOUNT / 10n
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.setInputFeeRate(1000) // 10%
+    })
+
+    it("Should exclude the fee bucket from total assets", async function () {
+        const { stakingManager, user1 } = context
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+        expect(await stakingManager.totalFeeAssets()).to.equal(FEE_AMOUNT)
+        expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT - FEE_AMOUNT)
+        expect(await stakingManager.convertToAssets(await stakingManager.balanceOf(user1.address))).to.equal(
+            STAKE_AMOUNT - FEE_AMOUNT
+        )
+        expect(await stakingManager.totalUserAssets(user1.address)).to.equal(STAKE_AMOUNT - FEE_AMOUNT)
+    })
+
+    it("Should value user assets like convertToAssets across the buffer and the vaults", async function () {
+        const { stakingManager, vault, token, user1, user2 } = context
+        await stakingManager.setBufferRate(2000)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+        // Yield on the vault moves the share price away from the vault's own one
+        await token.transfer(await vault.getAddress(), STAKE_AMOUNT / 2n)
+
+        for (const user of [user1, user2]) {
+            const shares = await stakingManager.balanceOf(user.address)
+            expect(await stakingManager.totalUserAssets(user.address)).to.equal(
+                await stakingManager.convertToAssets(shares)
+            )
+        }
+    })
+
+    it("Should keep the share price when fees are collected", async function () {
+        const { stakingManager, user1, user2 } = context
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+
+        const expectedShares = (EXPECTED_SHARES * 9n) / 10n
+        expect(await stakingManager.balanceOf(user1.address)).to.equal(expectedShares)
+        expect(await stakingManager.balanceOf(user2.address)).to.equal(expectedShares)
+        expect(await stakingManager.convertToShares(STAKE_AMOUNT)).to.equal(EXPECTED_SHARES)
+    })
+
+    it("Should reconcile vault shares, fee shares and user shares", async function () {
+        const { stakingManager, vault, user1 } = context
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+        const accounting = await stakingManager.getAccounting()
+        expect(accounting.managedAssets).to.equal(STAKE_AMOUNT)
+        expect(accounting.vaultShares).to.equal(await vault.balanceOf(await stakingManager.getAddress()))
+        expect(accounting.feeShares).to.equal(await stakingManager.totalFeeShares())
+        expect(accounting.feeAssets).to.equal(FEE_AMOUNT)
+        expect(accounting.userAssets).to.equal(await stakingManager.totalAssets())
+        expect(accounting.userShares).to.equal(await stakingManager.totalSupply())
+        expect(accounting.userAssets + accounting.feeAssets).to.equal(accounting.managedAssets)
+    })
+
+    it("Should count pending fees before they are accrued", async function () {
+        const { stakingManager, vault, user1 } = context
+        await stakingManager.setManagementFeeRate(200) // 2% per year
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        await time.increase(365 * 24 * 60 * 60)
+
+        const [, pendingShares] = await stakingManager.pendingManagementFee()
+        const accounting = await stakingManager.getAccounting()
+        expect(accounting.feeShares).to.equal((await stakingManager.totalFeeShares()) + pendingShares)
+        expect(await stakingManager.totalAssets()).to.equal(
+            STAKE_AMOUNT - (await vault.convertToAssets(accounting.feeShares))
+        )
+    })
+})
@@ -0,0 +1,238 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+import { MockMorphoVault } from "../typechain-types"
+
+describe("StakingManager - Vault Allocation", function () {
+    let context: TestContext
+    let vault2: MockMorphoVault
+    let vault3: MockMorphoVault
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        const MockMorphoVaultFactory = await ethers.getContractFactory("MockMorphoVault")
+        vault2 = await MockMorphoVaultFactory.deploy(await token.getAddress())
+        vault3 = await MockMorphoVaultFactory.deploy(await token.getAddress())
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 2n)
+    })
+
+    async function vaultAssets(vault: MockMorphoVault) {
+        const { stakingManager } = context
+        return vault.convertToAssets(await vault.balanceOf(await stakingManager.getAddress()))
+    }
+
+    describe("setAllocationVaults", function () {
+        it("Should store vaults and give the staking vault the remaining weight", async function () {
+            const { stakingManager, vault } = context
+            const vaults = [await vault2.getAddress(), await vault3.getAddress()]
+            await expect(stakingManager.setAllocationVaults(vaults, [3000, 2000]))
+                .to.emit(stakingManager, "AllocationVaultsUpdated")
+                .withArgs(vaults, [3000, 2000])
+
+            const [allVaults, weights, assets] = await stakingManager.getAllocations()
+            expect(allVaults).to.deep.equal([await vault.getAddress(), ...vaults])
+            expect(weights).to.deep.equal([5000n, 3000n, 2000n])
+            expect(assets).to.deep.equal([0n, 0n, 0n])
+        })
+
+        it("Should revert on invalid vaults or weights", async function () {
+            const { stakingManager, vault } = context
+            const vault2Address = await vault2.getAddress()
+            await expect(
+                stakingManager.setAllocationVaults([await vault.getAddress()], [1000])
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidAllocationVaults")
+            await expect(
+                stakingManager.setAllocationVaults([vault2Address, vault2Address], [1000, 1000])
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidAllocationVaults")
+            await expect(
+                stakingManager.setAllocationVaults([vault2Address, await vault3.getAddress()], [6000, 5000])
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidAllocationWeights")
+            await expect(stakingManager.setAllocationVaults([vault2Address], [])).to.be.revertedWithCustomError(
+                stakingManager,
+                "ArrayLengthMismatch"
+            )
+
+            const otherToken = await (await ethers.getContractFactory("ERC20Token")).deploy("Other", "OTH")
+            const otherVault = await (
+                await ethers.getContractFactory("MockMorphoVault")
+            ).deploy(await otherToken.getAddress())
+            await expect(
+                stakingManager.setAllocationVaults([await otherVault.getAddress()], [1000])
+            ).to.be.revertedWithCustomError(stakingManager, "DifferentVaultAsset")
+        })
+
+        it("Should not remove a vault that still holds assets", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [5000])
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            await expect(stakingManager.setAllocationVaults([], []))
+                .to.be.revertedWithCustomError(stakingManager, "AllocationVaultNotEmpty")
+                .withArgs(await vault2.getAddress())
+
+            // Drain it first, then remove it
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [0])
+            await stakingManager.rebalance()
+            await expect(stakingManager.setAllocationVaults([], [])).to.not.be.reverted
+        })
+
+        it("Should only allow migrator to set allocation vaults", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).setAllocationVaults([await vault2.getAddress()], [1000])
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        })
+
+        it("Should not migrate the staking vault to an allocation vault", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [1000])
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await expect(stakingManager.migrateVault(await vault2.getAddress())).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidAllocationVaults"
+            )
+        })
+    })
+
+    describe("Routing", function () {
+        beforeEach(async function () {
+            await context.stakingManager.setAllocationVaults([await vault2.getAddress()], [3000])
+        })
+
+        it("Should route deposits per weight and sum total assets across vaults", async function () {
+            const { stakingManager, vault, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            expect(await vaultAssets(vault2)).to.equal((STAKE_AMOUNT * 3n) / 10n)
+            expect(await vaultAssets(vault)).to.equal((STAKE_AMOUNT * 7n) / 10n)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should keep input fees in the staking vault", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(1000) // 10%
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            const feeAmount = STAKE_AMOUNT / 10n
+            expect(await vaultAssets(vault2)).to.equal(((STAKE_AMOUNT - feeAmount) * 3n) / 10n)
+            expect(await stakingManager.totalFeeAssets()).to.equal(feeAmount)
+        })
+
+        it("Should pull withdrawals from the most liquid vault first", async function () {
+            const { stakingManager, vault, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await vault.setAvailableLiquidity(STAKE_AMOUNT / 10n)
+
+            const withdrawAmount = STAKE_AMOUNT / 4n
+            await stakingManager.connect(user1).withdraw(withdrawAmount, user1.address, user1.address)
+            expect(await vaultAssets(vault2)).to.equal((STAKE_AMOUNT * 3n) / 10n - withdrawAmount)
+            expect(await vaultAssets(vault)).to.equal((STAKE_AMOUNT * 7n) / 10n)
+        })
+
+        it("Should combine vaults and revert when liquidity is short", async function () {
+            const { stakingManager, vault, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await vault.setAvailableLiquidity(STAKE_AMOUNT / 10n)
+
+            const available = (STAKE_AMOUNT * 4n) / 10n
+            await stakingManager.connect(user1).withdraw(available, user1.address, user1.address)
+            expect(await vaultAssets(vault2)).to.equal(0)
+
+            // The staking vault still pays out up to its liquidity on every call
+            const liquidity = STAKE_AMOUNT / 10n
+            await expect(stakingManager.connect(user1).withdraw(liquidity + 1n, user1.address, user1.address))
+                .to.be.revertedWithCustomError(stakingManager, "InsufficientVaultLiquidity")
+                .withArgs(liquidity + 1n, liquidity)
+        })
+    })
+
+    describe("rebalance", function () {
+        it("Should move assets toward the target weights", async function () {
+            const { stakingManager, vault, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await stakingManager.setAllocationVaults([await vault2.getAddress(), await vault3.getAddress()], [4000, 1000])
+
+            await expect(stakingManager.rebalance())
+                .to.emit(stakingManager, "Rebalanced")
+                .withArgs(STAKE_AMOUNT / 2n, STAKE_AMOUNT)
+            expect(await vaultAssets(vault)).to.equal(STAKE_AMOUNT / 2n)
+            expect(await vaultAssets(vault2)).to.equal((STAKE_AMOUNT * 4n) / 10n)
+            expect(await vaultAssets(vault3)).to.equal(STAKE_AMOUNT / 10n)
+        })
+
+        it("Should keep fee assets in the staking vault", async function () {
+            const { stakingManager, vault, user1 } = context
+            await stakingManager.setInputFeeRate(1000) // 10%
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [10000])
+
+            await stakingManager.rebalance()
+            expect(await vaultAssets(vault)).to.equal(STAKE_AMOUNT / 10n)
+            expect(await vaultAssets(vault2)).to.equal((STAKE_AMOUNT * 9n) / 10n)
+        })
+
+        it("Should only move what the vaults can pay out", async function () {
+            const { stakingManager, vault, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [5000])
+            await vault.setAvailableLiquidity(STAKE_AMOUNT / 10n)
+
+            await stakingManager.rebalance()
+            expect(await vaultAssets(vault2)).to.equal(STAKE_AMOUNT / 10n)
+        })
+
+        it("Should only allow keeper to rebalance", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).rebalance()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+
+    describe("Fees", function () {
+        it("Should charge the performance fee on yield in allocation vaults", async function () {
+            const { stakingManager, token, user1 } = context
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [3000])
+            await stakingManager.setPerformanceFeeRate(1000) // 10%
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            // Double the allocation vault share price
+            await token.transfer(await vault2.getAddress(), await vault2.totalAssets())
+            const gain = (STAKE_AMOUNT * 3n) / 10n
+            const [feeAssets] = await stakingManager.pendingPerformanceFee()
+            expect(feeAssets).to.be.closeTo(gain / 10n, 1)
+
+            await stakingManager.accrue()
+            expect(await stakingManager.totalFeeAssets()).to.be.closeTo(gain / 10n, 1)
+            expect(await stakingManager.vaultHighWaterMarks(await vault2.getAddress())).to.equal(
+                await vault2.convertToAssets(await stakingManager.SHARE_PRICE_PRECISION())
+            )
+            expect((await stakingManager.pendingPerformanceFee())[0]).to.equal(0)
+        })
+
+        it("Should charge the management fee on every vault and redeem fees from any vault", async function () {
+            const { stakingManager, vault, token, owner, user1 } = context
+            await stakingManager.setAllocationVaults([await vault2.getAddress()], [10000])
+            await stakingManager.setManagementFeeRate(1000) // 10% per year
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            expect(await vaultAssets(vault)).to.equal(0)
+
+            await time.increase(365 * 24 * 60 * 60)
+            await stakingManager.accrue()
+            const feeAssets = await stakingManager.totalFeeAssets()
+            expect(feeAssets).to.be.closeTo(STAKE_AMOUNT / 10n, STAKE_AMOUNT / 10n ** 6n)
+            // The fee bucket is backed by assets in the allocation vault
+            expect(await stakingManager.totalFeeShares()).to.be.gt(
+                await vault.balanceOf(await stakingManager.getAddress())
+            )
+
+            const balance = await token.balanceOf(owner.address)
+            await stakingManager.withdrawFeeShares(owner.address, await stakingManager.totalFeeShares())
+            expect(await token.balanceOf(owner.address)).to.equal(balance + feeAssets)
+            expect(await vaultAssets(vault2)).to.equal(STAKE_AMOUNT - feeAssets)
+        })
+    })
+})
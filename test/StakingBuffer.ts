@@ -0,0 +1,140 @@
+import { expect } from "chai"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+
+describe("StakingManager - Idle Buffer", function () {
+    let context: TestContext
+    const TENTH = STAKE_AMOUNT / 10n
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 2n)
+    })
+
+    async function vaultAssets() {
+        const { stakingManager, vault } = context
+        return vault.convertToAssets(await vault.balanceOf(await stakingManager.getAddress()))
+    }
+
+    describe("setBufferRate", function () {
+        it("Should set the buffer rate", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setBufferRate(1000)).to.emit(stakingManager, "BufferRateUpdated").withArgs(0, 1000)
+            expect(await stakingManager.bufferRate()).to.equal(1000)
+        })
+
+        it("Should revert above the maximum", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setBufferRate(5001)).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidBufferRate"
+            )
+        })
+
+        it("Should only allow admin to set the buffer rate", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).setBufferRate(1000)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+
+    describe("Deposits and withdrawals", function () {
+        beforeEach(async function () {
+            await context.stakingManager.setBufferRate(1000) // 10%
+        })
+
+        it("Should top up the buffer from deposits and count idle assets", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            expect(await stakingManager.getBufferInfo()).to.deep.equal([TENTH, TENTH])
+            expect(await vaultAssets()).to.equal(STAKE_AMOUNT - TENTH)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+
+            // Only the shortfall is kept on the next deposit
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            expect(await stakingManager.getBufferInfo()).to.deep.equal([TENTH * 2n, TENTH * 2n])
+        })
+
+        it("Should keep input fees in the staking vault", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(1000) // 10%
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            expect(await vaultAssets()).to.equal(STAKE_AMOUNT - TENTH)
+            expect(await stakingManager.totalFeeAssets()).to.equal(TENTH)
+        })
+
+        it("Should serve withdrawals from the buffer first", async function () {
+            const { stakingManager, token, vault, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await vault.setAvailableLiquidity(0)
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            await stakingManager.connect(user1).withdraw(TENTH, user1.address, user1.address)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(TENTH)
+            expect(await vaultAssets()).to.equal(STAKE_AMOUNT - TENTH)
+
+            await expect(
+                stakingManager.connect(user1).withdraw(1, user1.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "InsufficientVaultLiquidity")
+        })
+
+        it("Should withdraw only the shortfall from the vaults", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            await stakingManager.connect(user1).withdraw(TENTH * 3n, user1.address, user1.address)
+            expect((await stakingManager.getBufferInfo()).idleAssets).to.equal(0)
+            expect(await vaultAssets()).to.equal(STAKE_AMOUNT - TENTH * 3n)
+        })
+    })
+
+    describe("rebalanceBuffer", function () {
+        beforeEach(async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        })
+
+        it("Should fill the buffer from the vaults", async function () {
+            const { stakingManager } = context
+            await stakingManager.setBufferRate(2000) // 20%
+
+            await expect(stakingManager.rebalanceBuffer())
+                .to.emit(stakingManager, "BufferRebalanced")
+                .withArgs(TENTH * 2n, TENTH * 2n)
+            expect(await vaultAssets()).to.equal(STAKE_AMOUNT - TENTH * 2n)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should only withdraw what the vaults can pay out", async function () {
+            const { stakingManager, vault } = context
+            await stakingManager.setBufferRate(2000) // 20%
+            await vault.setAvailableLiquidity(TENTH)
+
+            await expect(stakingManager.rebalanceBuffer())
+                .to.emit(stakingManager, "BufferRebalanced")
+                .withArgs(TENTH, TENTH * 2n)
+        })
+
+        it("Should deposit excess idle assets", async function () {
+            const { stakingManager } = context
+            await stakingManager.setBufferRate(2000) // 20%
+            await stakingManager.rebalanceBuffer()
+            await stakingManager.setBufferRate(0)
+
+            await expect(stakingManager.rebalanceBuffer()).to.emit(stakingManager, "BufferRebalanced").withArgs(0, 0)
+            expect(await vaultAssets()).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should only allow keeper to rebalance the buffer", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).rebalanceBuffer()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+})
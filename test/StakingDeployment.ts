@@ -0,0 +1,151 @@
+import { expect } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { ethers, upgrades } from "hardhat"
+import { DeployConfig } from "../scripts/config/networks"
+import { deployStakingManager } from "../scripts/utils/deploy"
+import { readManifest, writeManifest } from "../scripts/utils/manifest"
+import { deployStakingModules, STAKING_MODULES } from "../scripts/utils/modules"
+
+describe("StakingManager - Deployment", function () {
+    let manifestDir: string
+    const config: DeployConfig = {
+        name: "Staking Manager Token",
+        symbol: "SMT",
+        inputFeeRate: 100,
+        outputFeeRate: 200,
+    }
+
+    beforeEach(async function () {
+        manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"))
+    })
+
+    afterEach(async function () {
+        fs.rmSync(manifestDir, { recursive: true, force: true })
+    })
+
+    it("Should deploy mocks and the proxy on local networks and write the manifest", async function () {
+        const [deployer] = await ethers.getSigners()
+        const manifest = await deployStakingManager(config, { manifestDir })
+        const { ERC20Token, MockMorphoVault, StakingManager } = manifest.contracts
+
+        expect(readManifest("hardhat", manifestDir)).to.deep.equal(manifest)
+        expect(manifest.chainId).to.equal(31337)
+        expect(MockMorphoVault!.args).to.deep.equal([ERC20Token!.address])
+        expect(StakingManager!.args).to.deep.equal([
+            MockMorphoVault!.address,
+            "Staking Manager Token",
+            "SMT",
+            deployer.address,
+            "0",
+        ])
+        expect(StakingManager!.implementation).to.equal(
+            await upgrades.erc1967.getImplementationAddress(StakingManager!.address)
+        )
+        // Every module is recorded with the next one as its constructor argument
+        expect(StakingManager!.implementationArgs).to.deep.equal([manifest.contracts.StakingFlows!.address])
+        STAKING_MODULES.forEach((name, i) => {
+            const next = STAKING_MODULES[i + 1]
+            expect(manifest.contracts[name]!.args).to.deep.equal([
+                next ? manifest.contracts[next]!.address : ethers.ZeroAddress,
+            ])
+        })
+
+        const stakingManager = await ethers.getContractAt("IStakingManager", StakingManager!.address)
+        expect(await stakingManager.stakingVault()).to.equal(MockMorphoVault!.address)
+        expect(await stakingManager.inputFeeRate()).to.equal(100)
+        expect(await stakingManager.outputFeeRate()).to.equal(200)
+    })
+
+    it("Should reuse the contracts recorded in the manifest", async function () {
+        const manifest = await deployStakingManager(config, { manifestDir })
+        const blockNumber = await ethers.provider.getBlockNumber()
+
+        expect(await deployStakingManager(config, { manifestDir })).to.deep.equal(manifest)
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+
+        // A changed config is not silently deployed next to the recorded proxy
+        await expect(deployStakingManager({ ...config, symbol: "SMT2" }, { manifestDir })).to.be.rejectedWith(
+            "was deployed with"
+        )
+    })
+
+    it("Should reuse the recorded modules when the proxy deployment was interrupted", async function () {
+        const manifest = await deployStakingManager(config, { manifestDir })
+        const { StakingManager, ...recorded } = manifest.contracts
+        writeManifest({ ...manifest, contracts: recorded }, manifestDir)
+
+        const resumed = await deployStakingManager(config, { manifestDir })
+        expect(resumed.contracts.StakingManager!.address).to.not.equal(StakingManager!.address)
+        for (const name of STAKING_MODULES) {
+            expect(resumed.contracts[name]).to.deep.equal(manifest.contracts[name])
+        }
+    })
+
+    it("Should reject a proxy upgraded without updating the manifest", async function () {
+        const manifest = await deployStakingManager(config, { manifestDir })
+        await upgrades.upgradeProxy(manifest.contracts.StakingManager!.address, await ethers.getContractFactory("StakingManager"), {
+            constructorArgs: await deployStakingModules(),
+        })
+
+        await expect(deployStakingManager(config, { manifestDir })).to.be.rejectedWith(
+            "without updating the manifest"
+        )
+    })
+
+    it("Should set the fee rates that differ from the config on every run", async function () {
+        const manifest = await deployStakingManager(config, { manifestDir })
+        const stakingManager = await ethers.getContractAt("IStakingManager", manifest.contracts.StakingManager!.address)
+        await stakingManager.setOutputFeeRate(300)
+
+        await deployStakingManager({ ...config, inputFeeRate: 50 }, { manifestDir })
+        expect(await stakingManager.inputFeeRate()).to.equal(50)
+        expect(await stakingManager.outputFeeRate()).to.equal(200)
+    })
+
+    it("Should schedule fee rates behind the delay and execute them on a later run", async function () {
+        const delayedConfig = { ...config, feeRateChangeDelay: 3600 }
+        const manifest = await deployStakingManager(delayedConfig, { manifestDir })
+        const stakingManager = await ethers.getContractAt("IStakingManager", manifest.contracts.StakingManager!.address)
+        expect(await stakingManager.inputFeeRate()).to.equal(0)
+        const { activationTime } = await stakingManager.pendingFeeRateChange()
+
+        // A run before the delay has passed leaves the matching change scheduled
+        await deployStakingManager(delayedConfig, { manifestDir })
+        expect((await stakingManager.pendingFeeRateChange()).activationTime).to.equal(activationTime)
+
+        await time.increaseTo(activationTime)
+        await deployStakingManager(delayedConfig, { manifestDir })
+        expect(await stakingManager.inputFeeRate()).to.equal(100)
+        expect(await stakingManager.outputFeeRate()).to.equal(200)
+        expect((await stakingManager.pendingFeeRateChange()).activationTime).to.equal(0)
+    })
+
+    it("Should use the configured vault without deploying mocks", async function () {
+        const token = await (await ethers.getContractFactory("ERC20Token")).deploy("Test Token", "TEST")
+        const vault = await (await ethers.getContractFactory("MockMorphoVault")).deploy(await token.getAddress())
+        const manifest = await deployStakingManager(
+            { ...config, vault: await vault.getAddress(), asset: await token.getAddress() },
+            { manifestDir }
+        )
+
+        expect(manifest.contracts.ERC20Token).to.equal(undefined)
+        expect(manifest.contracts.MockMorphoVault).to.equal(undefined)
+        expect(manifest.contracts.StakingManager!.args[0]).to.equal(await vault.getAddress())
+
+        await expect(
+            deployStakingManager(
+                { ...config, vault: await vault.getAddress(), asset: ethers.ZeroAddress },
+                { manifestDir }
+            )
+        ).to.be.rejectedWith("does not use the configured asset")
+    })
+
+    it("Should require a vault on remote networks", async function () {
+        await expect(deployStakingManager(config, { networkName: "bsc", manifestDir })).to.be.rejectedWith(
+            "No vault configured for bsc"
+        )
+    })
+})
@@ -20,7 +20,7 @@ describe("StakingManager - Deposit and Withdraw", function () {
                 // Deposit(caller, receiver, assets, shares)
 
             expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
-            expect(await stakingManager.totalUserAssets(user1.address)).to.equal(EXPECTED_SHARES)
+            expect(await stakingManager.totalUserAssets(user1.address)).to.equal(STAKE_AMOUNT)
         })
 
         it("Should allow unstaking with no fees", async function () {
@@ -0,0 +1,112 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Deposit Limits", function () {
+    let context: TestContext
+    const GLOBAL_CAP = STAKE_AMOUNT * 3n
+    const WALLET_CAP = STAKE_AMOUNT * 2n
+    const MIN_DEPOSIT = ethers.parseUnits("10", 6)
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 4n)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 4n)
+    })
+
+    it("Should report unlimited limits by default", async function () {
+        const { stakingManager, user1 } = context
+        expect(await stakingManager.maxDeposit(user1.address)).to.equal(ethers.MaxUint256)
+        expect(await stakingManager.maxMint(user1.address)).to.equal(ethers.MaxUint256)
+    })
+
+    it("Should allow admin to set deposit limits", async function () {
+        const { stakingManager } = context
+        await expect(stakingManager.setDepositLimits(GLOBAL_CAP, WALLET_CAP, MIN_DEPOSIT))
+            .to.emit(stakingManager, "DepositLimitsUpdated")
+            .withArgs(GLOBAL_CAP, WALLET_CAP, MIN_DEPOSIT)
+
+        expect(await stakingManager.depositCap()).to.equal(GLOBAL_CAP)
+        expect(await stakingManager.walletDepositCap()).to.equal(WALLET_CAP)
+        expect(await stakingManager.minDeposit()).to.equal(MIN_DEPOSIT)
+    })
+
+    it("Should only allow admin to set deposit limits", async function () {
+        const { stakingManager, user1 } = context
+        await expect(
+            stakingManager.connect(user1).setDepositLimits(GLOBAL_CAP, WALLET_CAP, MIN_DEPOSIT)
+        ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+    })
+
+    describe("Enforcement", function () {
+        beforeEach(async function () {
+            await context.stakingManager.setDepositLimits(GLOBAL_CAP, WALLET_CAP, MIN_DEPOSIT)
+        })
+
+        it("Should revert deposits below the minimum", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).deposit(MIN_DEPOSIT - 1n, user1.address))
+                .to.be.revertedWithCustomError(stakingManager, "DepositBelowMinimum")
+                .withArgs(MIN_DEPOSIT - 1n, MIN_DEPOSIT)
+        })
+
+        it("Should enforce the per-wallet cap on deposit and mint", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            expect(await stakingManager.maxDeposit(user1.address)).to.equal(STAKE_AMOUNT)
+
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT + 1n, user1.address))
+                .to.be.revertedWithCustomError(stakingManager, "WalletDepositCapExceeded")
+                .withArgs(user1.address, STAKE_AMOUNT + 1n, STAKE_AMOUNT)
+            await expect(
+                stakingManager.connect(user1).mint(EXPECTED_SHARES + 10n ** 12n, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "WalletDepositCapExceeded")
+
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)).to.not.be.reverted
+            expect(await stakingManager.maxDeposit(user1.address)).to.equal(0)
+            expect(await stakingManager.maxMint(user1.address)).to.equal(0)
+        })
+
+        it("Should enforce the global cap across receivers", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.connect(user1).deposit(WALLET_CAP, user1.address)
+            expect(await stakingManager.maxDeposit(user2.address)).to.equal(GLOBAL_CAP - WALLET_CAP)
+            expect(await stakingManager.maxMint(user2.address)).to.equal(
+                await stakingManager.convertToShares(GLOBAL_CAP - WALLET_CAP)
+            )
+
+            await expect(stakingManager.connect(user2).deposit(WALLET_CAP, user2.address))
+                .to.be.revertedWithCustomError(stakingManager, "DepositCapExceeded")
+                .withArgs(WALLET_CAP, GLOBAL_CAP - WALLET_CAP)
+        })
+
+        it("Should let mint take exactly maxMint with an input fee", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await stakingManager.setInputFeeRate(100)
+            await stakingManager.connect(user1).deposit(WALLET_CAP, user1.address)
+            const maxDeposit = await stakingManager.maxDeposit(user2.address)
+            const maxMint = await stakingManager.maxMint(user2.address)
+            expect(maxMint).to.be.lt(await stakingManager.convertToShares(maxDeposit))
+
+            const balanceBefore = await token.balanceOf(user2.address)
+            await expect(stakingManager.connect(user2).mint(maxMint, user2.address)).to.not.be.reverted
+            expect(balanceBefore - (await token.balanceOf(user2.address))).to.be.at.most(maxDeposit)
+            expect(await stakingManager.balanceOf(user2.address)).to.equal(maxMint)
+        })
+
+        it("Should report zero when the remaining room is below the minimum deposit", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.connect(user1).deposit(WALLET_CAP, user1.address)
+            await stakingManager.connect(user2).deposit(STAKE_AMOUNT - MIN_DEPOSIT + 1n, user2.address)
+            expect(await stakingManager.maxDeposit(user2.address)).to.equal(0)
+        })
+
+        it("Should report zero while paused", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.pause()
+            expect(await stakingManager.maxDeposit(user1.address)).to.equal(0)
+            expect(await stakingManager.maxMint(user1.address)).to.equal(0)
+        })
+    })
+})
@@ -0,0 +1,105 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+
+describe("StakingManager - Fee Distribution", function () {
+    let context: TestContext
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        // Collect some fees
+        await stakingManager.setInputFeeRate(1000) // 10%
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+    })
+
+    describe("setFeeRecipients", function () {
+        it("Should store fee recipients and weights", async function () {
+            const { stakingManager, owner, user2 } = context
+            await expect(stakingManager.setFeeRecipients([owner.address, user2.address], [7000, 3000]))
+                .to.emit(stakingManager, "FeeRecipientsUpdated")
+                .withArgs([owner.address, user2.address], [7000, 3000])
+
+            const [accounts, weights] = await stakingManager.getFeeRecipients()
+            expect(accounts).to.deep.equal([owner.address, user2.address])
+            expect(weights).to.deep.equal([7000n, 3000n])
+        })
+
+        it("Should revert when weights do not add up to 100%", async function () {
+            const { stakingManager, owner, user2 } = context
+            await expect(
+                stakingManager.setFeeRecipients([owner.address, user2.address], [7000, 2000])
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidFeeRecipientWeights")
+        })
+
+        it("Should revert on invalid recipients input", async function () {
+            const { stakingManager, owner } = context
+            await expect(stakingManager.setFeeRecipients([owner.address], [5000, 5000])).to.be.revertedWithCustomError(
+                stakingManager,
+                "ArrayLengthMismatch"
+            )
+            await expect(stakingManager.setFeeRecipients([], [])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidFeeRecipientsCount"
+            )
+            await expect(
+                stakingManager.setFeeRecipients([ethers.ZeroAddress], [10000])
+            ).to.be.revertedWithCustomError(stakingManager, "ZeroAddress")
+            await expect(
+                stakingManager.setFeeRecipients([owner.address, owner.address], [10000, 0])
+            ).to.be.revertedWithCustomError(stakingManager, "AmountMustBeGreaterThanZero")
+        })
+
+        it("Should only allow treasurer to set fee recipients", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).setFeeRecipients([user1.address], [10000])
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        })
+    })
+
+    describe("distributeFees", function () {
+        it("Should split redeemed fees between recipients", async function () {
+            const { stakingManager, token, owner, user1, user2 } = context
+            const [, , , treasury] = await ethers.getSigners()
+            await stakingManager.setFeeRecipients([treasury.address, user2.address], [7500, 2500])
+
+            const feeShares = await stakingManager.totalFeeShares()
+            const feeAssets = await stakingManager.totalFeeAssets()
+            const treasuryClaimable = await stakingManager.claimableFees(treasury.address)
+            const partnerClaimable = await stakingManager.claimableFees(user2.address)
+            expect(treasuryClaimable).to.equal((feeAssets * 7500n) / 10000n)
+            expect(await stakingManager.claimableFees(owner.address)).to.equal(0)
+
+            const treasuryBefore = await token.balanceOf(treasury.address)
+            const partnerBefore = await token.balanceOf(user2.address)
+
+            // Anyone can trigger the distribution
+            await expect(stakingManager.connect(user1).distributeFees())
+                .to.emit(stakingManager, "FeesDistributed")
+                .withArgs(feeShares, feeAssets)
+                .and.to.emit(stakingManager, "FeeRecipientPaid")
+                .withArgs(treasury.address, treasuryClaimable)
+
+            expect((await token.balanceOf(treasury.address)) - treasuryBefore).to.equal(treasuryClaimable)
+            expect((await token.balanceOf(user2.address)) - partnerBefore).to.equal(feeAssets - treasuryClaimable)
+            expect(partnerClaimable).to.be.lte(feeAssets - treasuryClaimable)
+            expect(await stakingManager.totalFeeShares()).to.equal(0)
+            expect(await stakingManager.claimableFees(treasury.address)).to.equal(0)
+        })
+
+        it("Should revert without fee recipients", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.distributeFees()).to.be.revertedWithCustomError(stakingManager, "NoFeeRecipients")
+        })
+
+        it("Should revert when there are no fees", async function () {
+            const { stakingManager, owner } = context
+            await stakingManager.setFeeRecipients([owner.address], [10000])
+            await stakingManager.withdrawFeeShares(owner.address, await stakingManager.totalFeeShares())
+
+            await expect(stakingManager.distributeFees()).to.be.revertedWithCustomError(stakingManager, "NoFeesToWithdraw")
+        })
+    })
+})
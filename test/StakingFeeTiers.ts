@@ -0,0 +1,144 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Fee Exemptions and Tiers", function () {
+    let context: TestContext
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        await stakingManager.setInputFeeRate(1000) // 10%
+        await stakingManager.setOutputFeeRate(500) // 5%
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 4n)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 4n)
+    })
+
+    describe("Fee Exemptions", function () {
+        it("Should not charge fees to exempt accounts", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.setFeeExemption(user1.address, true))
+                .to.emit(stakingManager, "FeeExemptionUpdated")
+                .withArgs(user1.address, true)
+            expect(await stakingManager.effectiveFeeRates(user1.address)).to.deep.equal([0n, 0n])
+
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)).to.not.emit(
+                stakingManager,
+                "InputFeeCollected"
+            )
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
+
+            await expect(
+                stakingManager.connect(user1).withdraw(STAKE_AMOUNT / 2n, user1.address, user1.address)
+            ).to.not.emit(stakingManager, "OutputFeeCollected")
+            expect(await stakingManager.totalFeeShares()).to.equal(0)
+        })
+
+        it("Should not charge fees when an exempt partner deposits for a user", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.setFeeExemption(user1.address, true)
+
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user2.address)
+            expect(await stakingManager.balanceOf(user2.address)).to.equal(EXPECTED_SHARES)
+        })
+
+        it("Should charge fees again once the exemption is removed", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setFeeExemption(user1.address, true)
+            await stakingManager.setFeeExemption(user1.address, false)
+
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)).to.emit(
+                stakingManager,
+                "InputFeeCollected"
+            )
+        })
+
+        it("Should only allow fee manager to set exemptions", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).setFeeExemption(user1.address, true)
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+            await expect(stakingManager.setFeeExemption(ethers.ZeroAddress, true)).to.be.revertedWithCustomError(
+                stakingManager,
+                "ZeroAddress"
+            )
+        })
+    })
+
+    describe("Fee Tiers", function () {
+        const TIER_1 = EXPECTED_SHARES / 2n
+        const TIER_2 = EXPECTED_SHARES * 2n
+
+        beforeEach(async function () {
+            const { stakingManager } = context
+            await stakingManager.setFeeTiers([TIER_1, TIER_2], [500, 0], [300, 100])
+        })
+
+        it("Should store the tier table", async function () {
+            const { stakingManager } = context
+            const tiers = await stakingManager.getFeeTiers()
+            expect(tiers.length).to.equal(2)
+            expect(tiers[1].minShares).to.equal(TIER_2)
+            expect(tiers[1].inputFeeRate).to.equal(0)
+            expect(tiers[1].outputFeeRate).to.equal(100)
+        })
+
+        it("Should pick the highest tier reached by the share balance", async function () {
+            const { stakingManager, user1 } = context
+            expect(await stakingManager.effectiveFeeRates(user1.address)).to.deep.equal([1000n, 500n])
+
+            // First deposit pays the base rate
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            expect(await stakingManager.effectiveFeeRates(user1.address)).to.deep.equal([500n, 300n])
+
+            const feeSharesBefore = await stakingManager.totalFeeShares()
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const discountedFee = (await stakingManager.totalFeeShares()) - feeSharesBefore
+            // 5% tier fee instead of the 10% base fee
+            expect(discountedFee).to.equal(feeSharesBefore / 2n)
+        })
+
+        it("Should apply the tier output rate on withdrawals", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const withdrawAmount = STAKE_AMOUNT / 4n
+            // The fee is charged on top of the withdrawn assets
+            const grossAmount = (withdrawAmount * 10000n + 9699n) / 9700n
+
+            await expect(stakingManager.connect(user1).withdraw(withdrawAmount, user1.address, user1.address))
+                .to.emit(stakingManager, "OutputFeeCollected")
+                .withArgs(grossAmount - withdrawAmount, (value: bigint) => value > 0n)
+        })
+
+        it("Should never charge more than the global rates", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(100)
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            expect(await stakingManager.effectiveFeeRates(user1.address)).to.deep.equal([100n, 300n])
+        })
+
+        it("Should revert on unsorted or invalid tiers", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setFeeTiers([TIER_2, TIER_1], [0, 0], [0, 0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidFeeTiers"
+            )
+            await expect(stakingManager.setFeeTiers([TIER_1], [1001], [0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidFeeRate"
+            )
+            await expect(stakingManager.setFeeTiers([TIER_1], [0, 0], [0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "ArrayLengthMismatch"
+            )
+        })
+
+        it("Should only allow fee manager to set tiers", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).setFeeTiers([], [], [])).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+})
@@ -0,0 +1,234 @@
+import { expect } from "chai"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext } from "./utils/testUtils"
+
+describe("StakingManager - Fee Rate Timelock", function () {
+    let context: TestContext
+    const DELAY = 3 * 24 * 60 * 60 // 3 days
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        await context.stakingManager.setFeeRateChangeDelay(DELAY)
+    })
+
+    describe("Scheduling", function () {
+        it("Should schedule fee rates without applying them", async function () {
+            const { stakingManager } = context
+            await stakingManager.setInputFeeRate(500)
+            const activationTime = (await time.latest()) + DELAY
+
+            await expect(stakingManager.setOutputFeeRate(300))
+                .to.emit(stakingManager, "FeeRateChangeScheduled")
+                .withArgs(500, 300, 0, 0, activationTime + 1)
+
+            const pending = await stakingManager.pendingFeeRateChange()
+            expect(pending.inputFeeRate).to.equal(500)
+            expect(pending.outputFeeRate).to.equal(300)
+            expect(pending.activationTime).to.equal(activationTime + 1)
+            expect(await stakingManager.inputFeeRate()).to.equal(0)
+            expect(await stakingManager.outputFeeRate()).to.equal(0)
+        })
+
+        it("Should keep the other pending rate when rescheduling one of them", async function () {
+            const { stakingManager } = context
+            await stakingManager.setOutputFeeRate(300)
+            await stakingManager.setInputFeeRate(200)
+
+            const pending = await stakingManager.pendingFeeRateChange()
+            expect(pending.inputFeeRate).to.equal(200)
+            expect(pending.outputFeeRate).to.equal(300)
+        })
+
+        it("Should schedule management and performance fee rates with the other rates", async function () {
+            const { stakingManager } = context
+            await stakingManager.setInputFeeRate(200)
+            await stakingManager.setManagementFeeRate(100)
+            await expect(stakingManager.setPerformanceFeeRate(1000))
+                .to.emit(stakingManager, "FeeRateChangeScheduled")
+                .withArgs(200, 0, 100, 1000, (await time.latest()) + DELAY + 1)
+
+            expect(await stakingManager.pendingManagementFeeRate()).to.equal(100)
+            expect(await stakingManager.pendingPerformanceFeeRate()).to.equal(1000)
+            expect(await stakingManager.managementFeeRate()).to.equal(0)
+            expect(await stakingManager.performanceFeeRate()).to.equal(0)
+        })
+
+        it("Should apply changes immediately when no delay is configured", async function () {
+            const { stakingManager } = context
+            await stakingManager.setFeeRateChangeDelay(0)
+            await time.increase(DELAY)
+            await stakingManager.executeFeeRateChangeDelay()
+
+            await expect(stakingManager.setInputFeeRate(500))
+                .to.emit(stakingManager, "FeeRateChangeExecuted")
+                .withArgs(500, 0, 0, 0)
+            expect(await stakingManager.inputFeeRate()).to.equal(500)
+            expect((await stakingManager.pendingFeeRateChange()).activationTime).to.equal(0)
+        })
+    })
+
+    describe("Execution", function () {
+        it("Should revert when executing before activation time", async function () {
+            const { stakingManager } = context
+            await stakingManager.setInputFeeRate(500)
+            const { activationTime } = await stakingManager.pendingFeeRateChange()
+
+            await expect(stakingManager.executeFeeRateChange())
+                .to.be.revertedWithCustomError(stakingManager, "FeeRateChangeNotReady")
+                .withArgs(activationTime)
+        })
+
+        it("Should apply pending rates after the delay", async function () {
+            const { stakingManager } = context
+            await stakingManager.setInputFeeRate(500)
+            await stakingManager.setOutputFeeRate(300)
+            await time.increase(DELAY)
+
+            await expect(stakingManager.executeFeeRateChange())
+                .to.emit(stakingManager, "InputFeeRateUpdated")
+                .withArgs(0, 500)
+                .and.to.emit(stakingManager, "OutputFeeRateUpdated")
+                .withArgs(0, 300)
+                .and.to.emit(stakingManager, "FeeRateChangeExecuted")
+                .withArgs(500, 300, 0, 0)
+
+            expect(await stakingManager.inputFeeRate()).to.equal(500)
+            expect(await stakingManager.outputFeeRate()).to.equal(300)
+            expect((await stakingManager.pendingFeeRateChange()).activationTime).to.equal(0)
+        })
+
+        it("Should apply management and performance fee rates after the delay", async function () {
+            const { stakingManager } = context
+            await stakingManager.setManagementFeeRate(100)
+            await stakingManager.setPerformanceFeeRate(1000)
+            await time.increase(DELAY)
+
+            await expect(stakingManager.executeFeeRateChange())
+                .to.emit(stakingManager, "ManagementFeeRateUpdated")
+                .withArgs(0, 100)
+                .and.to.emit(stakingManager, "PerformanceFeeRateUpdated")
+                .withArgs(0, 1000)
+                .and.to.emit(stakingManager, "FeeRateChangeExecuted")
+                .withArgs(0, 0, 100, 1000)
+
+            expect(await stakingManager.managementFeeRate()).to.equal(100)
+            expect(await stakingManager.performanceFeeRate()).to.equal(1000)
+            expect(await stakingManager.pendingManagementFeeRate()).to.equal(0)
+            expect(await stakingManager.pendingPerformanceFeeRate()).to.equal(0)
+            // The management fee only streams from the execution on
+            const [, , elapsed] = await stakingManager.pendingManagementFee()
+            expect(elapsed).to.equal(0)
+        })
+
+        it("Should revert when nothing is pending", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.executeFeeRateChange()).to.be.revertedWithCustomError(
+                stakingManager,
+                "NoPendingFeeRateChange"
+            )
+        })
+
+        it("Should not allow non fee manager to execute", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(500)
+            await time.increase(DELAY)
+
+            await expect(stakingManager.connect(user1).executeFeeRateChange()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+
+    describe("Cancellation", function () {
+        it("Should cancel a pending change", async function () {
+            const { stakingManager } = context
+            await stakingManager.setInputFeeRate(500)
+
+            await expect(stakingManager.cancelFeeRateChange())
+                .to.emit(stakingManager, "FeeRateChangeCancelled")
+                .withArgs(500, 0, 0, 0)
+
+            await time.increase(DELAY)
+            await expect(stakingManager.executeFeeRateChange()).to.be.revertedWithCustomError(
+                stakingManager,
+                "NoPendingFeeRateChange"
+            )
+            expect(await stakingManager.inputFeeRate()).to.equal(0)
+        })
+
+        it("Should revert when nothing is pending", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.cancelFeeRateChange()).to.be.revertedWithCustomError(
+                stakingManager,
+                "NoPendingFeeRateChange"
+            )
+        })
+    })
+
+    describe("Delay Configuration", function () {
+        it("Should update the delay", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setFeeRateChangeDelay(DELAY * 2))
+                .to.emit(stakingManager, "FeeRateChangeDelayUpdated")
+                .withArgs(DELAY, DELAY * 2)
+            expect(await stakingManager.feeRateChangeDelay()).to.equal(DELAY * 2)
+        })
+
+        it("Should only lower the delay once the current delay has passed", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setFeeRateChangeDelay(DELAY / 3))
+                .to.emit(stakingManager, "FeeRateChangeDelayScheduled")
+                .withArgs(DELAY / 3, (await time.latest()) + DELAY + 1)
+            const pending = await stakingManager.pendingFeeRateChangeDelay()
+            expect(pending.delay).to.equal(DELAY / 3)
+            expect(await stakingManager.feeRateChangeDelay()).to.equal(DELAY)
+
+            // Fee rate changes scheduled meanwhile still wait out the current delay
+            await stakingManager.setInputFeeRate(500)
+            expect((await stakingManager.pendingFeeRateChange()).activationTime).to.equal((await time.latest()) + DELAY)
+
+            await expect(stakingManager.executeFeeRateChangeDelay())
+                .to.be.revertedWithCustomError(stakingManager, "FeeRateChangeNotReady")
+                .withArgs(pending.activationTime)
+            await time.increaseTo(pending.activationTime)
+            await expect(stakingManager.executeFeeRateChangeDelay())
+                .to.emit(stakingManager, "FeeRateChangeDelayUpdated")
+                .withArgs(DELAY, DELAY / 3)
+            expect(await stakingManager.feeRateChangeDelay()).to.equal(DELAY / 3)
+            expect((await stakingManager.pendingFeeRateChangeDelay()).activationTime).to.equal(0)
+        })
+
+        it("Should replace a pending reduction when setting the delay again", async function () {
+            const { stakingManager } = context
+            await stakingManager.setFeeRateChangeDelay(0)
+            await stakingManager.setFeeRateChangeDelay(DELAY)
+            expect((await stakingManager.pendingFeeRateChangeDelay()).activationTime).to.equal(0)
+
+            await time.increase(DELAY)
+            await expect(stakingManager.executeFeeRateChangeDelay()).to.be.revertedWithCustomError(
+                stakingManager,
+                "NoPendingFeeRateChangeDelay"
+            )
+            expect(await stakingManager.feeRateChangeDelay()).to.equal(DELAY)
+        })
+
+        it("Should not allow delay greater than maximum", async function () {
+            const { stakingManager } = context
+            const maxDelay = await stakingManager.MAX_FEE_RATE_CHANGE_DELAY()
+            await expect(stakingManager.setFeeRateChangeDelay(maxDelay + 1n)).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidFeeRateChangeDelay"
+            )
+        })
+
+        it("Should only allow admin to set the delay", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.grantRole(await stakingManager.FEE_MANAGER_ROLE(), user1.address)
+            await expect(stakingManager.connect(user1).setFeeRateChangeDelay(0)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+})
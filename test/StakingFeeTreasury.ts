@@ -0,0 +1,101 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Fee Treasury", function () {
+    let context: TestContext
+    const FEE_AMOUNT = STAKE_AMOUNT / 10n
+    const FEE_SHARES = EXPECTED_SHARES / 10n
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.setInputFeeRate(1000) // 10%
+    })
+
+    describe("setFeeTreasury", function () {
+        it("Should set the fee treasury", async function () {
+            const { stakingManager, user2 } = context
+            await expect(stakingManager.setFeeTreasury(user2.address))
+                .to.emit(stakingManager, "FeeTreasuryUpdated")
+                .withArgs(ethers.ZeroAddress, user2.address)
+            expect(await stakingManager.feeTreasury()).to.equal(user2.address)
+        })
+
+        it("Should convert the current fee bucket", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            await expect(stakingManager.setFeeTreasury(user2.address))
+                .to.emit(stakingManager, "TreasuryFeesMinted")
+                .withArgs(user2.address, FEE_AMOUNT, FEE_SHARES)
+            expect(await stakingManager.totalFeeShares()).to.equal(0)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should only allow treasurer to set the fee treasury", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).setFeeTreasury(user1.address)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+
+    describe("Treasury shares", function () {
+        beforeEach(async function () {
+            await context.stakingManager.setFeeTreasury(context.user2.address)
+        })
+
+        it("Should mint input fees as shares to the treasury", async function () {
+            const { stakingManager, user1, user2 } = context
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address))
+                .to.emit(stakingManager, "TreasuryFeesMinted")
+                .withArgs(user2.address, FEE_AMOUNT, FEE_SHARES)
+
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES - FEE_SHARES)
+            expect(await stakingManager.balanceOf(user2.address)).to.equal(FEE_SHARES)
+            // Total supply describes every owner of the managed assets
+            expect(await stakingManager.totalSupply()).to.equal(EXPECTED_SHARES)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should mint output fees as shares to the treasury", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.setInputFeeRate(0)
+            await stakingManager.setOutputFeeRate(1000) // 10%
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            await stakingManager.connect(user1).redeem(EXPECTED_SHARES, user1.address, user1.address)
+            expect(await stakingManager.balanceOf(user2.address)).to.equal(FEE_SHARES)
+            expect(await stakingManager.convertToAssets(FEE_SHARES)).to.equal(FEE_AMOUNT)
+        })
+
+        it("Should let the treasury redeem its shares like any holder", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            const balanceBefore = await token.balanceOf(user2.address)
+            await stakingManager.connect(user2).redeem(FEE_SHARES, user2.address, user2.address)
+            expect((await token.balanceOf(user2.address)) - balanceBefore).to.equal(FEE_AMOUNT)
+        })
+
+        it("Should keep the share price when time based fees are minted", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.setManagementFeeRate(200) // 2% per year
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await time.increase(365 * 24 * 60 * 60)
+
+            const userAssets = await stakingManager.convertToAssets(await stakingManager.balanceOf(user1.address))
+            await stakingManager.accrue()
+            expect(await stakingManager.totalFeeShares()).to.equal(0)
+            expect(await stakingManager.balanceOf(user2.address)).to.be.gt(FEE_SHARES)
+            expect(await stakingManager.convertToAssets(await stakingManager.balanceOf(user1.address))).to.be.closeTo(
+                userAssets,
+                STAKE_AMOUNT / 1000000n
+            )
+        })
+    })
+})
@@ -1,10 +1,11 @@
 import { expect } from "chai"
 import { ethers, upgrades } from "hardhat"
-import { StakingManager, MockMorphoVault, ERC20Token } from "../typechain-types"
+import { IStakingManager, MockMorphoVault, ERC20Token } from "../typechain-types"
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers"
+import { deployStakingModules } from "../scripts/utils/modules"
 
 describe("StakingManager - Fee Management", function () {
-    let stakingManager: StakingManager
+    let stakingManager: IStakingManager
     let token: ERC20Token
     let vault: MockMorphoVault
     let owner: HardhatEthersSigner
@@ -29,14 +30,16 @@ describe("StakingManager - Fee Management", function () {
 
         // Deploy upgradeable StakingManager
         const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
-        stakingManager = (await upgrades.deployProxy(
+        const proxy = await upgrades.deployProxy(
             StakingManagerFactory,
-            [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address],
+            [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address, 0],
             {
                 initializer: "initialize",
                 kind: "uups",
+                constructorArgs: await deployStakingModules(),
             }
-        )) as unknown as StakingManager
+        )
+        stakingManager = await ethers.getContractAt("IStakingManager", await proxy.getAddress())
 
         // Transfer tokens to users for testing
         await token.transfer(user1.address, INITIAL_BALANCE)
@@ -69,14 +72,14 @@ describe("StakingManager - Fee Management", function () {
         it("Should not allow non-owner to set input fee rate", async function () {
             await expect(stakingManager.connect(user1).setInputFeeRate(500)).to.be.revertedWithCustomError(
                 stakingManager,
-                "OwnableUnauthorizedAccount"
+                "AccessControlUnauthorizedAccount"
             )
         })
 
         it("Should not allow non-owner to set output fee rate", async function () {
             await expect(stakingManager.connect(user1).setOutputFeeRate(300)).to.be.revertedWithCustomError(
                 stakingManager,
-                "OwnableUnauthorizedAccount"
+                "AccessControlUnauthorizedAccount"
             )
         })
 
@@ -158,7 +161,7 @@ describe("StakingManager - Fee Management", function () {
 
             await expect(
                 stakingManager.connect(user1).withdrawFeeShares(user1.address, feeShares)
-            ).to.be.revertedWithCustomError(stakingManager, "OwnableUnauthorizedAccount")
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
         })
 
         it("Should return correct total fee assets", async function () {
@@ -204,14 +207,16 @@ describe("StakingManager - Fee Management", function () {
             for (const testCase of testCases) {
                 // Reset the contract
                 const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
-                stakingManager = (await upgrades.deployProxy(
+                const proxy = await upgrades.deployProxy(
                     StakingManagerFactory,
-                    [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address],
+                    [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address, 0],
                     {
                         initializer: "initialize",
                         kind: "uups",
+                        constructorArgs: await deployStakingModules(),
                     }
-                )) as unknown as StakingManager
+                )
+                stakingManager = await ethers.getContractAt("IStakingManager", await proxy.getAddress())
 
                 await stakingManager.setInputFeeRate(testCase.rate)
                 await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
@@ -1,5 +1,7 @@
 import { expect } from "chai"
-import { setupTestEnvironment, TestContext } from "./utils/testUtils"
+import { ethers, upgrades } from "hardhat"
+import { setupTestEnvironment, deployV1Proxy, TestContext } from "./utils/testUtils"
+import { deployStakingModules } from "../scripts/utils/modules"
 
 describe("StakingManager - Initialization", function () {
     let context: TestContext
@@ -13,7 +15,7 @@ describe("StakingManager - Initialization", function () {
             const { stakingManager, owner, vault, token } = context
             expect(await stakingManager.name()).to.equal("Staking Manager Token")
             expect(await stakingManager.symbol()).to.equal("SMT")
-            expect(await stakingManager.owner()).to.equal(owner.address)
+            expect(await stakingManager.hasRole(await stakingManager.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true
             expect(await stakingManager.stakingVault()).to.equal(await vault.getAddress())
             expect(await stakingManager.asset()).to.equal(await token.getAddress())
             expect(await stakingManager.inputFeeRate()).to.equal(0)
@@ -27,14 +29,56 @@ describe("StakingManager - Initialization", function () {
                     await vault.getAddress(),
                     "New Name",
                     "NEW",
-                    owner.address
+                    owner.address,
+                    0
                 )
             ).to.be.revertedWithCustomError(stakingManager, "InvalidInitialization")
         })
 
+        it("Should not allow initialization of an upgraded V1 or V2 proxy", async function () {
+            const { vault, user1 } = context
+            const stakingManager = await deployV1Proxy(context)
+            const initialize = async () =>
+                stakingManager.connect(user1).initialize(await vault.getAddress(), "Evil", "EVIL", user1.address, 0)
+            await expect(initialize()).to.be.revertedWithCustomError(stakingManager, "InvalidInitialization")
+
+            await stakingManager.initializeV2()
+            await expect(initialize()).to.be.revertedWithCustomError(stakingManager, "InvalidInitialization")
+            expect(await stakingManager.hasRole(await stakingManager.DEFAULT_ADMIN_ROLE(), user1.address)).to.be.false
+        })
+
         it("Should return correct version", async function () {
             const { stakingManager } = context
-            expect(await stakingManager.version()).to.equal("1.0.0")
+            expect(await stakingManager.version()).to.equal("4.0.0")
+        })
+
+        it("Should start the fee checkpoints", async function () {
+            const { stakingManager } = context
+            expect(await stakingManager.initializedVersion()).to.equal(1)
+            expect(await stakingManager.highWaterMark()).to.equal(await stakingManager.SHARE_PRICE_PRECISION())
+            expect(await stakingManager.lastManagementFeeAccrual()).to.be.gt(0)
+        })
+
+        it("Should set the fee rate change delay passed to the initializer", async function () {
+            const { vault, owner } = context
+            const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
+            const args = [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address]
+            const constructorArgs = await deployStakingModules()
+            const stakingManager = await upgrades.deployProxy(StakingManagerFactory, [...args, 86400], {
+                initializer: "initialize",
+                kind: "uups",
+                constructorArgs,
+            })
+            expect(await stakingManager.feeRateChangeDelay()).to.equal(86400)
+
+            const maxDelay = await stakingManager.MAX_FEE_RATE_CHANGE_DELAY()
+            await expect(
+                upgrades.deployProxy(StakingManagerFactory, [...args, maxDelay + 1n], {
+                    initializer: "initialize",
+                    kind: "uups",
+                    constructorArgs,
+                })
+            ).to.be.revertedWithCustomError(StakingManagerFactory, "InvalidFeeRateChangeDelay")
         })
     })
 })
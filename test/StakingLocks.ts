@@ -0,0 +1,153 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Locks", function () {
+    let context: TestContext
+    const DAY = 24 * 60 * 60
+    const DURATIONS = [30 * DAY, 90 * DAY, 180 * DAY]
+    const OUTPUT_FEE_RATES = [200, 100, 0]
+    const PENALTIES = [1000, 1500, 2000]
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        await stakingManager.setLockTerms(DURATIONS, OUTPUT_FEE_RATES, PENALTIES)
+        await stakingManager.setOutputFeeRate(500) // 5%
+    })
+
+    describe("setLockTerms", function () {
+        it("Should store the lock terms", async function () {
+            const { stakingManager } = context
+            const terms = await stakingManager.getLockTerms()
+            expect(terms.length).to.equal(3)
+            expect(terms[1].duration).to.equal(DURATIONS[1])
+            expect(terms[1].outputFeeRate).to.equal(OUTPUT_FEE_RATES[1])
+            expect(terms[1].earlyUnlockPenalty).to.equal(PENALTIES[1])
+        })
+
+        it("Should revert on invalid terms", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setLockTerms([DAY], [], [0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "ArrayLengthMismatch"
+            )
+            await expect(stakingManager.setLockTerms([2 * DAY, DAY], [0, 0], [0, 0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidLockTerms"
+            )
+            await expect(stakingManager.setLockTerms([366 * DAY], [0], [0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidLockTerms"
+            )
+            await expect(stakingManager.setLockTerms([DAY], [0], [2001])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidLockTerms"
+            )
+            await expect(stakingManager.setLockTerms([DAY], [1001], [0])).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidFeeRate"
+            )
+        })
+
+        it("Should only allow fee manager to set lock terms", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).setLockTerms(DURATIONS, OUTPUT_FEE_RATES, PENALTIES)
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        })
+    })
+
+    describe("lock", function () {
+        it("Should lock shares and list the lock", async function () {
+            const { stakingManager, user1 } = context
+            const shares = EXPECTED_SHARES / 2n
+            const unlockTime = (await time.latest()) + 1 + DURATIONS[0]
+
+            await expect(stakingManager.connect(user1).lock(shares, 0))
+                .to.emit(stakingManager, "SharesLocked")
+                .withArgs(0, user1.address, shares, unlockTime)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES - shares)
+            expect(await stakingManager.totalLockedShares()).to.equal(shares)
+
+            const [lockIds, userLocks] = await stakingManager.getUserLocks(user1.address)
+            expect(lockIds).to.deep.equal([0n])
+            expect(userLocks[0].shares).to.equal(shares)
+            expect(userLocks[0].unlockTime).to.equal(unlockTime)
+        })
+
+        it("Should revert on an unknown term", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).lock(EXPECTED_SHARES, 3))
+                .to.be.revertedWithCustomError(stakingManager, "InvalidLockTerm")
+                .withArgs(3)
+        })
+    })
+
+    describe("unlock", function () {
+        it("Should pay the reduced output fee on mature unlocks", async function () {
+            const { stakingManager, token, user1 } = context
+            await stakingManager.connect(user1).lock(EXPECTED_SHARES, 1)
+            await time.increase(DURATIONS[1])
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            const netAssets = (STAKE_AMOUNT * 99n) / 100n
+            await expect(stakingManager.connect(user1).unlock(0, user1.address))
+                .to.emit(stakingManager, "LockReleased")
+                .withArgs(0, user1.address, netAssets, 0)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(netAssets)
+            expect(await stakingManager.totalFeeAssets()).to.equal(STAKE_AMOUNT / 100n)
+            expect(await stakingManager.totalLockedShares()).to.equal(0)
+        })
+
+        it("Should move the penalty to the fee bucket on early unlocks", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).lock(EXPECTED_SHARES, 0)
+
+            const penaltyShares = EXPECTED_SHARES / 10n
+            const penaltyAssets = STAKE_AMOUNT / 10n
+            const netAssets = ((STAKE_AMOUNT - penaltyAssets) * 95n) / 100n
+            await expect(stakingManager.connect(user1).unlock(0, user1.address))
+                .to.emit(stakingManager, "LockReleased")
+                .withArgs(0, user1.address, netAssets, penaltyShares)
+            expect(await stakingManager.totalFeeAssets()).to.equal(STAKE_AMOUNT - netAssets)
+
+            const [lockIds] = await stakingManager.getUserLocks(user1.address)
+            expect(lockIds).to.deep.equal([])
+        })
+
+        it("Should exit pro-rata without fees after a shutdown", async function () {
+            const { stakingManager, token, user1 } = context
+            await stakingManager.connect(user1).lock(EXPECTED_SHARES, 2)
+            await stakingManager.emergencyShutdown()
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            await stakingManager.connect(user1).unlock(0, user1.address)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should revert for unknown, foreign or released locks", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.connect(user1).lock(EXPECTED_SHARES, 0)
+
+            await expect(stakingManager.connect(user1).unlock(1, user1.address))
+                .to.be.revertedWithCustomError(stakingManager, "LockNotFound")
+                .withArgs(1)
+            await expect(stakingManager.connect(user2).unlock(0, user2.address))
+                .to.be.revertedWithCustomError(stakingManager, "NotLockOwner")
+                .withArgs(0)
+            await expect(stakingManager.connect(user1).unlock(0, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+                stakingManager,
+                "ZeroAddress"
+            )
+
+            await stakingManager.connect(user1).unlock(0, user1.address)
+            await expect(stakingManager.connect(user1).unlock(0, user1.address))
+                .to.be.revertedWithCustomError(stakingManager, "LockAlreadyReleased")
+                .withArgs(0)
+        })
+    })
+})
@@ -0,0 +1,103 @@
+import { expect } from "chai"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+
+describe("StakingManager - Management Fee", function () {
+    let context: TestContext
+    const YEAR = 365 * 24 * 60 * 60
+    const RATE = 200n // 2% per year
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        await stakingManager.setManagementFeeRate(RATE)
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+    })
+
+    it("Should stream the fee per second on user-owned assets", async function () {
+        const { stakingManager, vault } = context
+        const vaultShares = await vault.balanceOf(await stakingManager.getAddress())
+        const lastAccrual = await stakingManager.lastManagementFeeAccrual()
+
+        await time.increaseTo(lastAccrual + BigInt(YEAR))
+        const [feeAssets, feeShares, elapsed] = await stakingManager.pendingManagementFee()
+        expect(elapsed).to.equal(YEAR)
+        expect(feeShares).to.equal((vaultShares * RATE) / 10000n)
+        expect(feeAssets).to.equal(await vault.convertToAssets(feeShares))
+    })
+
+    it("Should record the fee with elapsed time on explicit accrual", async function () {
+        const { stakingManager, vault } = context
+        const vaultShares = await vault.balanceOf(await stakingManager.getAddress())
+        const lastAccrual = await stakingManager.lastManagementFeeAccrual()
+        const elapsed = BigInt(YEAR / 2)
+
+        await time.setNextBlockTimestamp(lastAccrual + elapsed)
+        const expectedShares = (vaultShares * RATE * elapsed) / (10000n * BigInt(YEAR))
+        await expect(stakingManager.accrue())
+            .to.emit(stakingManager, "ManagementFeeAccrued")
+            .withArgs(elapsed, await vault.convertToAssets(expectedShares), expectedShares)
+
+        expect(await stakingManager.totalFeeShares()).to.equal(expectedShares)
+        expect(await stakingManager.lastManagementFeeAccrual()).to.equal(lastAccrual + elapsed)
+    })
+
+    it("Should accrue on deposits and withdrawals", async function () {
+        const { stakingManager, user1, user2 } = context
+        await time.increase(YEAR)
+
+        await expect(stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)).to.emit(
+            stakingManager,
+            "ManagementFeeAccrued"
+        )
+        await time.increase(YEAR)
+        const shares = (await stakingManager.balanceOf(user1.address)) / 2n
+        await expect(stakingManager.connect(user1).redeem(shares, user1.address, user1.address)).to.emit(
+            stakingManager,
+            "ManagementFeeAccrued"
+        )
+    })
+
+    it("Should keep ERC4626 previews in line with execution after fees streamed", async function () {
+        const { stakingManager, user2 } = context
+        await time.increase(YEAR)
+
+        const previewShares = await stakingManager.previewDeposit(STAKE_AMOUNT)
+        await expect(stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address))
+            .to.emit(stakingManager, "Deposit")
+            .withArgs(user2.address, user2.address, STAKE_AMOUNT, previewShares)
+    })
+
+    it("Should record fees under the old rate before changing it", async function () {
+        const { stakingManager } = context
+        await time.increase(YEAR)
+
+        await expect(stakingManager.setManagementFeeRate(0))
+            .to.emit(stakingManager, "ManagementFeeAccrued")
+            .and.to.emit(stakingManager, "ManagementFeeRateUpdated")
+            .withArgs(RATE, 0)
+
+        await time.increase(YEAR)
+        const [, feeShares] = await stakingManager.pendingManagementFee()
+        expect(feeShares).to.equal(0)
+    })
+
+    it("Should not allow management fee rate greater than maximum", async function () {
+        const { stakingManager } = context
+        const maxRate = await stakingManager.MAX_FEE_RATE()
+        await expect(stakingManager.setManagementFeeRate(maxRate + 1n)).to.be.revertedWithCustomError(
+            stakingManager,
+            "InvalidFeeRate"
+        )
+    })
+
+    it("Should only allow fee manager to set management fee rate", async function () {
+        const { stakingManager, user1 } = context
+        await expect(stakingManager.connect(user1).setManagementFeeRate(100)).to.be.revertedWithCustomError(
+            stakingManager,
+            "AccessControlUnauthorizedAccount"
+        )
+    })
+})
@@ -126,7 +126,7 @@ describe("StakingManager - Migration", function () {
             
             await expect(
                 stakingManager.connect(user1).migrateVault(await newVault.getAddress())
-            ).to.be.revertedWithCustomError(stakingManager, "OwnableUnauthorizedAccount")
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
         })
 
         it("Should preserve user shares during migration", async function () {
@@ -183,6 +183,23 @@ describe("StakingManager - Migration", function () {
                     .to.emit(stakingManager, "FeeSharesWithdrawn")
             }
         })
+
+        it("Should rescale fee shares to the new vault share price", async function () {
+            const { stakingManager, vault, token, user1, user2 } = context
+            await stakingManager.setInputFeeRate(100) // 1%
+            await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+            await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+            // Double the old vault share price
+            await token.transfer(await vault.getAddress(), await vault.totalAssets())
+
+            const feeAssets = await stakingManager.totalFeeAssets()
+            const userAssets = await stakingManager.convertToAssets(await stakingManager.balanceOf(user1.address))
+            await stakingManager.migrateVault(await newVault.getAddress())
+
+            expect(await stakingManager.totalFeeAssets()).to.be.closeTo(feeAssets, 1)
+            expect(await stakingManager.convertToAssets(await stakingManager.balanceOf(user1.address)))
+                .to.be.closeTo(userAssets, 1)
+        })
     })
 
     describe("Migration Edge Cases", function () {
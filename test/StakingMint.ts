@@ -79,7 +79,7 @@ describe("StakingManager - Mint and Redeem", function () {
                     .to.emit(stakingManager, "Deposit")
                     .and.to.emit(stakingManager, "InputFeeCollected")
                 
-                expect(await stakingManager.balanceOf(user1.address)).to.be.lt(sharesToMint) // Less due to fees
+                expect(await stakingManager.balanceOf(user1.address)).to.equal(sharesToMint) // Fee is paid on top
                 expect(await stakingManager.totalFeeShares()).to.be.gt(0)
             })
 
@@ -256,7 +256,7 @@ describe("StakingManager - Mint and Redeem", function () {
                     .to.emit(stakingManager, "InputFeeCollected")
                 
                 const userShares = await stakingManager.balanceOf(user1.address)
-                expect(userShares).to.be.lt(sharesToMint) // Less due to input fees
+                expect(userShares).to.equal(sharesToMint) // Input fee is paid on top
                 
                 // Use withdraw instead of redeem
                 const withdrawAmount = STAKE_AMOUNT / 4n // Withdraw 25%
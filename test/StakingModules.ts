@@ -0,0 +1,55 @@
+import { expect } from "chai"
+import hre, { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+import { STAKING_MODULES } from "../scripts/utils/modules"
+
+describe("StakingManager - Modules", function () {
+    let context: TestContext
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+    })
+
+    it("Should keep the StakingManager and its modules under the contract size limit", async function () {
+        // EIP-170 limit, which allowUnlimitedContractSize would lift on the hardhat network
+        expect(hre.config.networks.hardhat.allowUnlimitedContractSize).to.equal(false)
+        for (const name of ["StakingManager", ...STAKING_MODULES]) {
+            const { deployedBytecode } = await hre.artifacts.readArtifact(name)
+            expect(ethers.dataLength(deployedBytecode), name).to.be.at.most(24576)
+        }
+    })
+
+    it("Should declare every function of the StakingManager and its modules in IStakingManager", async function () {
+        const { stakingManager } = context
+        for (const name of ["StakingManager", ...STAKING_MODULES]) {
+            const { interface: iface } = await ethers.getContractFactory(name)
+            iface.forEachFunction((fn) => {
+                expect(stakingManager.interface.hasFunction(fn.selector), `${name}.${fn.format()}`).to.equal(true)
+            })
+        }
+    })
+
+    it("Should run calls of every module on the StakingManager storage", async function () {
+        const { stakingManager, token, user1 } = context
+        // StakingFlows, StakingPositions, StakingAdmin and StakingVaults in turn
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager
+            .connect(user1)
+            .depositWithMinShares(STAKE_AMOUNT, user1.address, EXPECTED_SHARES, ethers.MaxUint256)
+        await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES / 2n, user1.address, user1.address)
+        await stakingManager.setInputFeeRate(100)
+        await stakingManager.pause()
+
+        expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES / 2n)
+        expect(await stakingManager.queuedWithdrawalShares()).to.equal(EXPECTED_SHARES / 2n)
+        expect(await stakingManager.inputFeeRate()).to.equal(100)
+        expect(await stakingManager.paused()).to.equal(true)
+    })
+
+    it("Should revert calls no module implements", async function () {
+        const { stakingManager, owner } = context
+        await expect(owner.sendTransaction({ to: await stakingManager.getAddress(), data: "0x12345678" })).to.be
+            .reverted
+        await expect(owner.sendTransaction({ to: await stakingManager.getAddress(), value: 1 })).to.be.reverted
+    })
+})
@@ -0,0 +1,149 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+import { MockMorphoVault } from "../typechain-types"
+
+describe("StakingManager - Partial Migration", function () {
+    let context: TestContext
+    let newVault: MockMorphoVault
+    const HALF = STAKE_AMOUNT / 2n
+    // The mock vault mints one share per asset unit
+    const HALF_SHARES = HALF
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        const MockMorphoVaultFactory = await ethers.getContractFactory("MockMorphoVault")
+        newVault = await MockMorphoVaultFactory.deploy(await token.getAddress())
+        await newVault.waitForDeployment()
+
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 2n)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+    })
+
+    it("Should move assets in chunks and keep total assets across both vaults", async function () {
+        const { stakingManager, vault } = context
+        const newVaultAddress = await newVault.getAddress()
+        await expect(stakingManager.startVaultMigration(newVaultAddress))
+            .to.emit(stakingManager, "VaultMigrationStarted")
+            .withArgs(await vault.getAddress(), newVaultAddress)
+
+        await expect(stakingManager.migrateVaultChunk(HALF_SHARES, HALF, HALF_SHARES))
+            .to.emit(stakingManager, "VaultMigrationProgress")
+            .withArgs(await vault.getAddress(), newVaultAddress, HALF, HALF_SHARES, HALF_SHARES)
+
+        expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+        const info = await stakingManager.getMigrationInfo(newVaultAddress)
+        expect(info.currentAssets).to.equal(HALF)
+        expect(info.movedAssets).to.equal(HALF)
+        expect(info.movedShares).to.equal(HALF_SHARES)
+
+        // The last chunk is capped at what is left
+        await stakingManager.migrateVaultChunk(STAKE_AMOUNT, 0, 0)
+        await expect(stakingManager.completeVaultMigration(0, 0))
+            .to.emit(stakingManager, "VaultMigrationCompleted")
+            .withArgs(await vault.getAddress(), newVaultAddress, STAKE_AMOUNT, STAKE_AMOUNT)
+
+        expect(await stakingManager.stakingVault()).to.equal(newVaultAddress)
+        expect(await stakingManager.migrationVault()).to.equal(ethers.ZeroAddress)
+        expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT)
+    })
+
+    it("Should work around an illiquid old vault", async function () {
+        const { stakingManager, vault } = context
+        await stakingManager.startVaultMigration(await newVault.getAddress())
+        await vault.setAvailableLiquidity(HALF)
+
+        await expect(stakingManager.migrateVaultChunk(STAKE_AMOUNT, 0, 0)).to.be.reverted
+        await stakingManager.migrateVaultChunk(HALF_SHARES, 0, 0)
+        expect(await stakingManager.migratedAssets()).to.equal(HALF)
+    })
+
+    it("Should revert when the output is below the minimum", async function () {
+        const { stakingManager } = context
+        await stakingManager.startVaultMigration(await newVault.getAddress())
+
+        await expect(stakingManager.migrateVaultChunk(HALF_SHARES, HALF + 1n, 0))
+            .to.be.revertedWithCustomError(stakingManager, "InsufficientAssetsOut")
+            .withArgs(HALF, HALF + 1n)
+        await expect(stakingManager.migrateVaultChunk(HALF_SHARES, 0, HALF_SHARES + 1n))
+            .to.be.revertedWithCustomError(stakingManager, "InsufficientSharesOut")
+            .withArgs(HALF_SHARES, HALF_SHARES + 1n)
+    })
+
+    it("Should move the fee shares on completion", async function () {
+        const { stakingManager, user1 } = context
+        await stakingManager.setInputFeeRate(1000) // 10%
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        const feeAssets = await stakingManager.totalFeeAssets()
+
+        await stakingManager.startVaultMigration(await newVault.getAddress())
+        await stakingManager.migrateVaultChunk(STAKE_AMOUNT * 2n, 0, 0)
+        // Only the fee shares are left behind
+        expect(await stakingManager.totalFeeAssets()).to.equal(feeAssets)
+
+        await stakingManager.completeVaultMigration(0, 0)
+        expect(await stakingManager.totalFeeAssets()).to.equal(feeAssets)
+        // The fee bucket is not part of the user-owned assets
+        expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT * 2n - feeAssets)
+    })
+
+    it("Should let users withdraw from both vaults during the migration", async function () {
+        const { stakingManager, token, user1 } = context
+        await stakingManager.startVaultMigration(await newVault.getAddress())
+        await stakingManager.migrateVaultChunk(HALF_SHARES, 0, 0)
+
+        const balanceBefore = await token.balanceOf(user1.address)
+        await stakingManager.connect(user1).withdraw(STAKE_AMOUNT, user1.address, user1.address)
+        expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(STAKE_AMOUNT)
+    })
+
+    it("Should not complete before all user assets are moved", async function () {
+        const { stakingManager } = context
+        await stakingManager.startVaultMigration(await newVault.getAddress())
+        await stakingManager.migrateVaultChunk(HALF_SHARES, 0, 0)
+
+        await expect(stakingManager.completeVaultMigration(0, 0))
+            .to.be.revertedWithCustomError(stakingManager, "MigrationNotComplete")
+            .withArgs(HALF_SHARES)
+    })
+
+    it("Should block conflicting actions while a migration is running", async function () {
+        const { stakingManager } = context
+        const newVaultAddress = await newVault.getAddress()
+        await expect(stakingManager.migrateVaultChunk(HALF_SHARES, 0, 0)).to.be.revertedWithCustomError(
+            stakingManager,
+            "NoMigrationInProgress"
+        )
+        await expect(stakingManager.completeVaultMigration(0, 0)).to.be.revertedWithCustomError(
+            stakingManager,
+            "NoMigrationInProgress"
+        )
+
+        await stakingManager.startVaultMigration(newVaultAddress)
+        await expect(stakingManager.startVaultMigration(newVaultAddress)).to.be.revertedWithCustomError(
+            stakingManager,
+            "MigrationInProgress"
+        )
+        await expect(stakingManager.migrateVault(newVaultAddress)).to.be.revertedWithCustomError(
+            stakingManager,
+            "MigrationInProgress"
+        )
+        await expect(stakingManager.rebalance()).to.be.revertedWithCustomError(stakingManager, "MigrationInProgress")
+    })
+
+    it("Should only allow migrator to run a partial migration", async function () {
+        const { stakingManager, user1 } = context
+        await expect(
+            stakingManager.connect(user1).startVaultMigration(await newVault.getAddress())
+        ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        await expect(stakingManager.connect(user1).migrateVaultChunk(1, 0, 0)).to.be.revertedWithCustomError(
+            stakingManager,
+            "AccessControlUnauthorizedAccount"
+        )
+        await expect(stakingManager.connect(user1).completeVaultMigration(0, 0)).to.be.revertedWithCustomError(
+            stakingManager,
+            "AccessControlUnauthorizedAccount"
+        )
+    })
+})
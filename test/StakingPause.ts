@@ -39,11 +39,11 @@ describe("StakingManager - Pause Functionality", function () {
             const { stakingManager, user1 } = context
             await expect(
                 stakingManager.connect(user1).pause()
-            ).to.be.revertedWithCustomError(stakingManager, "OwnableUnauthorizedAccount")
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
 
             await expect(
                 stakingManager.connect(user1).unpause()
-            ).to.be.revertedWithCustomError(stakingManager, "OwnableUnauthorizedAccount")
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
         })
 
         it("Should prevent staking when paused", async function () {
@@ -0,0 +1,95 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+
+describe("StakingManager - Performance Fee", function () {
+    let context: TestContext
+    const YIELD = ethers.parseUnits("100", 6) // 10% of the stake
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await stakingManager.setPerformanceFeeRate(1000) // 10%
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+    })
+
+    async function generateYield() {
+        const { token, vault } = context
+        await token.transfer(await vault.getAddress(), YIELD)
+    }
+
+    it("Should set the high-water mark on the first interaction", async function () {
+        const { stakingManager, vault } = context
+        expect(await stakingManager.highWaterMark()).to.equal(
+            await vault.convertToAssets(await stakingManager.SHARE_PRICE_PRECISION())
+        )
+        expect(await stakingManager.totalFeeShares()).to.equal(0)
+    })
+
+    it("Should charge the fee only on yield above the high-water mark", async function () {
+        const { stakingManager, vault } = context
+        await generateYield()
+
+        const [feeAssets, feeShares] = await stakingManager.pendingPerformanceFee()
+        // 10% of ~100 tokens of yield, minus vault rounding
+        expect(feeAssets).to.be.closeTo(YIELD / 10n, 10n)
+        expect(feeShares).to.equal(await vault.convertToShares(feeAssets))
+
+        const price = await vault.convertToAssets(await stakingManager.SHARE_PRICE_PRECISION())
+        await expect(stakingManager.accrue())
+            .to.emit(stakingManager, "PerformanceFeeCollected")
+            .withArgs(feeAssets, feeShares, price)
+        expect(await stakingManager.totalFeeShares()).to.equal(feeShares)
+        expect(await stakingManager.highWaterMark()).to.equal(price)
+
+        // No new yield, nothing more to charge
+        await expect(stakingManager.accrue()).to.not.emit(stakingManager, "PerformanceFeeCollected")
+        const [pendingAssets] = await stakingManager.pendingPerformanceFee()
+        expect(pendingAssets).to.equal(0)
+    })
+
+    it("Should crystallize on deposits and withdrawals", async function () {
+        const { stakingManager, user1 } = context
+        await generateYield()
+
+        await expect(stakingManager.connect(user1).withdraw(STAKE_AMOUNT / 2n, user1.address, user1.address)).to.emit(
+            stakingManager,
+            "PerformanceFeeCollected"
+        )
+        expect(await stakingManager.totalFeeShares()).to.be.gt(0)
+    })
+
+    it("Should crystallize pending fees before changing the rate", async function () {
+        const { stakingManager } = context
+        await generateYield()
+
+        await expect(stakingManager.setPerformanceFeeRate(0))
+            .to.emit(stakingManager, "PerformanceFeeCollected")
+            .and.to.emit(stakingManager, "PerformanceFeeRateUpdated")
+            .withArgs(1000, 0)
+
+        // Yield earned with a zero rate is not charged later
+        await generateYield()
+        await stakingManager.setPerformanceFeeRate(1000)
+        const [feeAssets] = await stakingManager.pendingPerformanceFee()
+        expect(feeAssets).to.equal(0)
+    })
+
+    it("Should not allow performance fee rate greater than maximum", async function () {
+        const { stakingManager } = context
+        const maxRate = await stakingManager.MAX_PERFORMANCE_FEE_RATE()
+        await expect(stakingManager.setPerformanceFeeRate(maxRate + 1n)).to.be.revertedWithCustomError(
+            stakingManager,
+            "InvalidFeeRate"
+        )
+    })
+
+    it("Should only allow fee manager to set performance fee rate", async function () {
+        const { stakingManager, user1 } = context
+        await expect(stakingManager.connect(user1).setPerformanceFeeRate(100)).to.be.revertedWithCustomError(
+            stakingManager,
+            "AccessControlUnauthorizedAccount"
+        )
+    })
+})
@@ -0,0 +1,141 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers"
+import { setupTestEnvironment, deployV1Proxy, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Permit", function () {
+    let context: TestContext
+    let deadline: number
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        deadline = (await time.latest()) + 3600
+    })
+
+    async function signPermit(
+        token: { getAddress(): Promise<string>; name(): Promise<string>; nonces(owner: string): Promise<bigint> },
+        owner: HardhatEthersSigner,
+        spender: string,
+        value: bigint
+    ) {
+        const { chainId } = await ethers.provider.getNetwork()
+        const domain = {
+            name: await token.name(),
+            version: "1",
+            chainId,
+            verifyingContract: await token.getAddress(),
+        }
+        const types = {
+            Permit: [
+                { name: "owner", type: "address" },
+                { name: "spender", type: "address" },
+                { name: "value", type: "uint256" },
+                { name: "nonce", type: "uint256" },
+                { name: "deadline", type: "uint256" },
+            ],
+        }
+        const message = { owner: owner.address, spender, value, nonce: await token.nonces(owner.address), deadline }
+        return ethers.Signature.from(await owner.signTypedData(domain, types, message))
+    }
+
+    describe("Share permit", function () {
+        it("Should let a third party redeem with a signed share permit", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            const sig = await signPermit(stakingManager, user1, user2.address, EXPECTED_SHARES)
+            await stakingManager
+                .connect(user2)
+                .permit(user1.address, user2.address, EXPECTED_SHARES, deadline, sig.v, sig.r, sig.s)
+            expect(await stakingManager.allowance(user1.address, user2.address)).to.equal(EXPECTED_SHARES)
+            expect(await stakingManager.nonces(user1.address)).to.equal(1)
+
+            await stakingManager.connect(user2).redeem(EXPECTED_SHARES, user2.address, user1.address)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(0)
+        })
+
+        it("Should reject a permit signed by someone else", async function () {
+            const { stakingManager, user1, user2 } = context
+            const sig = await signPermit(stakingManager, user2, user2.address, EXPECTED_SHARES)
+            await expect(
+                stakingManager.permit(user1.address, user2.address, EXPECTED_SHARES, deadline, sig.v, sig.r, sig.s)
+            ).to.be.revertedWithCustomError(stakingManager, "ERC2612InvalidSigner")
+        })
+    })
+
+    describe("depositWithPermit", function () {
+        it("Should stake in a single transaction without a prior approve", async function () {
+            const { stakingManager, token, user1 } = context
+            const sig = await signPermit(token, user1, await stakingManager.getAddress(), STAKE_AMOUNT)
+
+            await expect(
+                stakingManager.connect(user1).depositWithPermit(STAKE_AMOUNT, user1.address, deadline, sig.v, sig.r, sig.s)
+            )
+                .to.emit(stakingManager, "Deposit")
+                .withArgs(user1.address, user1.address, STAKE_AMOUNT, EXPECTED_SHARES)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
+        })
+
+        it("Should still deposit when the permit was front-run", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            const spender = await stakingManager.getAddress()
+            const sig = await signPermit(token, user1, spender, STAKE_AMOUNT)
+            await token.connect(user2).permit(user1.address, spender, STAKE_AMOUNT, deadline, sig.v, sig.r, sig.s)
+
+            await expect(
+                stakingManager.connect(user1).depositWithPermit(STAKE_AMOUNT, user1.address, deadline, sig.v, sig.r, sig.s)
+            ).to.not.be.reverted
+        })
+
+        it("Should revert with an invalid permit and no allowance", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            const sig = await signPermit(token, user2, await stakingManager.getAddress(), STAKE_AMOUNT)
+
+            await expect(
+                stakingManager.connect(user1).depositWithPermit(STAKE_AMOUNT, user1.address, deadline, sig.v, sig.r, sig.s)
+            ).to.be.revertedWithCustomError(stakingManager, "PermitFailed")
+        })
+    })
+
+    describe("mintWithPermit", function () {
+        it("Should mint in a single transaction capped by the permitted assets", async function () {
+            const { stakingManager, token, user1 } = context
+            const spender = await stakingManager.getAddress()
+            const sig = await signPermit(token, user1, spender, STAKE_AMOUNT)
+
+            await stakingManager
+                .connect(user1)
+                .mintWithPermit(EXPECTED_SHARES, user1.address, STAKE_AMOUNT, deadline, sig.v, sig.r, sig.s)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
+            expect(await token.allowance(user1.address, spender)).to.equal(0)
+        })
+    })
+
+    describe("initializeV3", function () {
+        it("Should set up the EIP-712 domain once", async function () {
+            const stakingManager = await deployV1Proxy(context)
+            await stakingManager.initializeV2()
+            await stakingManager.initializeV3()
+            const domain = await stakingManager.eip712Domain()
+            expect(domain.name).to.equal(await stakingManager.name())
+            expect(domain.version).to.equal("1")
+
+            await expect(stakingManager.initializeV3()).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidInitialization"
+            )
+        })
+
+        it("Should only be callable by the upgrader", async function () {
+            const { user1 } = context
+            const stakingManager = await deployV1Proxy(context)
+            await stakingManager.initializeV2()
+            await expect(stakingManager.connect(user1).initializeV3()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+})
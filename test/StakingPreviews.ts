@@ -0,0 +1,140 @@
+import { expect } from "chai"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Previews and Limits", function () {
+    let context: TestContext
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 3n)
+        await stakingManager.setInputFeeRate(1000) // 10%
+        await stakingManager.setOutputFeeRate(500) // 5%
+    })
+
+    describe("Fee-aware previews", function () {
+        it("Should quote deposits after the input fee", async function () {
+            const { stakingManager, user1 } = context
+            const shares = await stakingManager.connect(user1).previewDeposit(STAKE_AMOUNT)
+            expect(shares).to.equal((EXPECTED_SHARES * 9n) / 10n)
+
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address))
+                .to.emit(stakingManager, "Deposit")
+                .withArgs(user1.address, user1.address, STAKE_AMOUNT, shares)
+        })
+
+        it("Should mint exactly the requested shares for the quoted assets", async function () {
+            const { stakingManager, token, user1 } = context
+            const assets = await stakingManager.connect(user1).previewMint(EXPECTED_SHARES)
+            expect(assets).to.equal((STAKE_AMOUNT * 10n + 8n) / 9n)
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            await stakingManager.connect(user1).mint(EXPECTED_SHARES, user1.address)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
+            expect(balanceBefore - (await token.balanceOf(user1.address))).to.equal(assets)
+        })
+
+        it("Should quote withdrawals and redemptions after the output fee", async function () {
+            const { stakingManager, token, user1 } = context
+            await stakingManager.setInputFeeRate(0)
+            await stakingManager.connect(user1).mint(EXPECTED_SHARES, user1.address)
+            const withdrawAmount = STAKE_AMOUNT / 4n
+
+            const shares = await stakingManager.connect(user1).previewWithdraw(withdrawAmount)
+            let balanceBefore = await token.balanceOf(user1.address)
+            await expect(stakingManager.connect(user1).withdraw(withdrawAmount, user1.address, user1.address))
+                .to.emit(stakingManager, "Withdraw")
+                .withArgs(user1.address, user1.address, user1.address, withdrawAmount, shares)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(withdrawAmount)
+
+            const redeemShares = (await stakingManager.balanceOf(user1.address)) / 2n
+            const assets = await stakingManager.connect(user1).previewRedeem(redeemShares)
+            balanceBefore = await token.balanceOf(user1.address)
+            await stakingManager.connect(user1).redeem(redeemShares, user1.address, user1.address)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(assets)
+        })
+
+        it("Should quote with the rates of the caller", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setFeeExemption(user1.address, true)
+            expect(await stakingManager.connect(user1).previewDeposit(STAKE_AMOUNT)).to.equal(EXPECTED_SHARES)
+            expect(await stakingManager.connect(user1).previewRedeem(EXPECTED_SHARES)).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should quote the highest rate for third-party receivers and owners", async function () {
+            const { stakingManager, user1, user2 } = context
+            // Holders of half the expected shares pay no fees
+            await stakingManager.setFeeTiers([EXPECTED_SHARES / 2n], [0], [0])
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+
+            const shares = await stakingManager.connect(user1).previewDeposit(STAKE_AMOUNT / 4n)
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT / 4n, user2.address))
+                .to.emit(stakingManager, "Deposit")
+                .withArgs(user1.address, user2.address, STAKE_AMOUNT / 4n, shares)
+
+            await stakingManager.connect(user2).approve(user1.address, shares)
+            const assets = await stakingManager.connect(user1).previewRedeem(shares)
+            await expect(stakingManager.connect(user1).redeem(shares, user1.address, user2.address))
+                .to.emit(stakingManager, "Withdraw")
+                .withArgs(user1.address, user1.address, user2.address, assets, shares)
+
+            // The tier of the caller's own shares only lowers the fee below the quote
+            const ownShares = await stakingManager.balanceOf(user1.address)
+            const ownAssets = await stakingManager.connect(user1).previewRedeem(ownShares)
+            expect(await stakingManager.connect(user1).redeem.staticCall(ownShares, user1.address, user1.address)).to.be.gt(
+                ownAssets
+            )
+        })
+
+        it("Should quote pro-rata without fees after a shutdown", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).mint(EXPECTED_SHARES, user1.address)
+            await stakingManager.setInputFeeRate(0)
+            await stakingManager.emergencyShutdown()
+
+            const supply = await stakingManager.totalSupply()
+            const totalAssets = await stakingManager.totalAssets()
+            expect(await stakingManager.connect(user1).previewRedeem(EXPECTED_SHARES)).to.equal(
+                (EXPECTED_SHARES * totalAssets) / supply
+            )
+        })
+    })
+
+    describe("maxWithdraw and maxRedeem", function () {
+        beforeEach(async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(0)
+            await stakingManager.connect(user1).mint(EXPECTED_SHARES, user1.address)
+        })
+
+        it("Should allow the whole position when liquidity covers it", async function () {
+            const { stakingManager, user1 } = context
+            expect(await stakingManager.connect(user1).maxWithdraw(user1.address)).to.equal((STAKE_AMOUNT * 95n) / 100n)
+            expect(await stakingManager.maxRedeem(user1.address)).to.equal(EXPECTED_SHARES)
+        })
+
+        it("Should cap both by what the vault can pay out", async function () {
+            const { stakingManager, vault, user1 } = context
+            const liquidity = STAKE_AMOUNT / 2n
+            await vault.setAvailableLiquidity(liquidity)
+
+            const maxAssets = await stakingManager.connect(user1).maxWithdraw(user1.address)
+            expect(maxAssets).to.equal(liquidity)
+            await expect(
+                stakingManager.connect(user1).withdraw(maxAssets + 1n, user1.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "InsufficientVaultLiquidity")
+
+            const maxShares = await stakingManager.connect(user1).maxRedeem(user1.address)
+            expect(maxShares).to.be.lt(EXPECTED_SHARES)
+            expect(await stakingManager.connect(user1).previewRedeem(maxShares)).to.be.lte(liquidity)
+            await stakingManager.connect(user1).redeem(maxShares, user1.address, user1.address)
+        })
+
+        it("Should return zero when paused", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.pause()
+            expect(await stakingManager.maxWithdraw(user1.address)).to.equal(0)
+            expect(await stakingManager.maxRedeem(user1.address)).to.equal(0)
+        })
+    })
+})
@@ -0,0 +1,125 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Referrals", function () {
+    let context: TestContext
+    const CODE = ethers.encodeBytes32String("PARTNER")
+    const FEE_AMOUNT = STAKE_AMOUNT / 10n
+    const REFERRAL_AMOUNT = FEE_AMOUNT / 2n
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 2n)
+        await stakingManager.setInputFeeRate(1000) // 10%
+        await stakingManager.setReferralFeeShare(5000) // 50% of the input fee
+    })
+
+    describe("setReferralFeeShare", function () {
+        it("Should set the referral fee share", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setReferralFeeShare(2000))
+                .to.emit(stakingManager, "ReferralFeeShareUpdated")
+                .withArgs(5000, 2000)
+            expect(await stakingManager.referralFeeShare()).to.equal(2000)
+        })
+
+        it("Should revert above the maximum", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setReferralFeeShare(5001)).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidReferralFeeShare"
+            )
+        })
+
+        it("Should only allow fee manager to set the referral fee share", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).setReferralFeeShare(1000)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+
+    describe("Referred deposits", function () {
+        it("Should credit the referrer with part of the input fee", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await expect(stakingManager.connect(user1).depositWithReferral(STAKE_AMOUNT, user1.address, user2.address))
+                .to.emit(stakingManager, "ReferralFeeCollected")
+                .withArgs(user2.address, user1.address, STAKE_AMOUNT, REFERRAL_AMOUNT)
+                .and.to.emit(stakingManager, "InputFeeCollected")
+
+            expect(await stakingManager.balanceOf(user1.address)).to.equal((EXPECTED_SHARES * 9n) / 10n)
+            expect(await stakingManager.referredAssets(user2.address)).to.equal(STAKE_AMOUNT)
+            expect(await stakingManager.referralRewards(user2.address)).to.equal(REFERRAL_AMOUNT)
+            expect(await stakingManager.totalFeeAssets()).to.equal(FEE_AMOUNT - REFERRAL_AMOUNT)
+            // The credited rewards stay idle and out of the managed assets
+            expect(await token.balanceOf(await stakingManager.getAddress())).to.equal(REFERRAL_AMOUNT)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT - FEE_AMOUNT)
+        })
+
+        it("Should resolve registered codes on mint", async function () {
+            const { stakingManager, user1, user2 } = context
+            await expect(stakingManager.connect(user2).registerReferralCode(CODE))
+                .to.emit(stakingManager, "ReferralCodeRegistered")
+                .withArgs(CODE, user2.address)
+
+            const assets = await stakingManager.previewMint(EXPECTED_SHARES)
+            await stakingManager.connect(user1).mintWithReferralCode(EXPECTED_SHARES, user1.address, CODE)
+            expect(await stakingManager.referredAssets(user2.address)).to.equal(assets)
+            expect(await stakingManager.referralRewards(user2.address)).to.equal(assets / 20n)
+        })
+
+        it("Should leave plain deposits unattributed", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            expect(await stakingManager.totalReferralRewards()).to.equal(0)
+            expect(await stakingManager.totalFeeAssets()).to.equal(FEE_AMOUNT)
+        })
+
+        it("Should revert on self-referrals and unknown or taken codes", async function () {
+            const { stakingManager, user1, user2 } = context
+            await expect(
+                stakingManager.connect(user1).depositWithReferral(STAKE_AMOUNT, user2.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidReferrer")
+            await expect(
+                stakingManager.connect(user1).depositWithReferral(STAKE_AMOUNT, user2.address, user2.address)
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidReferrer")
+            await expect(stakingManager.connect(user1).depositWithReferralCode(STAKE_AMOUNT, user1.address, CODE))
+                .to.be.revertedWithCustomError(stakingManager, "UnknownReferralCode")
+                .withArgs(CODE)
+
+            await stakingManager.connect(user2).registerReferralCode(CODE)
+            await expect(stakingManager.connect(user1).registerReferralCode(CODE))
+                .to.be.revertedWithCustomError(stakingManager, "ReferralCodeTaken")
+                .withArgs(CODE)
+            await expect(
+                stakingManager.connect(user1).registerReferralCode(ethers.ZeroHash)
+            ).to.be.revertedWithCustomError(stakingManager, "ReferralCodeTaken")
+        })
+    })
+
+    describe("claimReferralRewards", function () {
+        it("Should send the credited rewards to the receiver", async function () {
+            const { stakingManager, token, owner, user1, user2 } = context
+            await stakingManager.connect(user1).depositWithReferral(STAKE_AMOUNT, user1.address, user2.address)
+
+            const balanceBefore = await token.balanceOf(owner.address)
+            await expect(stakingManager.connect(user2).claimReferralRewards(owner.address))
+                .to.emit(stakingManager, "ReferralRewardsClaimed")
+                .withArgs(user2.address, owner.address, REFERRAL_AMOUNT)
+            expect((await token.balanceOf(owner.address)) - balanceBefore).to.equal(REFERRAL_AMOUNT)
+            expect(await stakingManager.totalReferralRewards()).to.equal(0)
+            // Referred principal is a lifetime record and is kept after claiming
+            expect(await stakingManager.referredAssets(user2.address)).to.equal(STAKE_AMOUNT)
+        })
+
+        it("Should revert when nothing was credited", async function () {
+            const { stakingManager, user2 } = context
+            await expect(
+                stakingManager.connect(user2).claimReferralRewards(user2.address)
+            ).to.be.revertedWithCustomError(stakingManager, "NoFeesToWithdraw")
+        })
+    })
+})
@@ -0,0 +1,239 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+import { ERC20Token } from "../typechain-types"
+
+describe("StakingManager - Rewards", function () {
+    let context: TestContext
+    let rewardToken: ERC20Token
+    const REWARD_AMOUNT = ethers.parseEther("1000")
+    const DURATION = 1000
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        const ERC20TokenFactory = await ethers.getContractFactory("ERC20Token")
+        rewardToken = await ERC20TokenFactory.deploy("Reward Token", "RWD")
+        await rewardToken.waitForDeployment()
+
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+    })
+
+    async function fundStream(amount = REWARD_AMOUNT) {
+        const { stakingManager } = context
+        await rewardToken.approve(await stakingManager.getAddress(), amount)
+        const startTime = (await time.latest()) + 10
+        await stakingManager.fundRewards(await rewardToken.getAddress(), amount, startTime, startTime + DURATION)
+        return startTime
+    }
+
+    describe("addRewardToken", function () {
+        it("Should register a reward token", async function () {
+            const { stakingManager } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await expect(stakingManager.addRewardToken(rewardAddress))
+                .to.emit(stakingManager, "RewardTokenAdded")
+                .withArgs(rewardAddress)
+            expect(await stakingManager.getRewardTokens()).to.deep.equal([rewardAddress])
+        })
+
+        it("Should revert on invalid reward tokens", async function () {
+            const { stakingManager, token } = context
+            await stakingManager.addRewardToken(await rewardToken.getAddress())
+
+            for (const invalid of [
+                await token.getAddress(),
+                await stakingManager.getAddress(),
+                await rewardToken.getAddress(),
+            ]) {
+                await expect(stakingManager.addRewardToken(invalid)).to.be.revertedWithCustomError(
+                    stakingManager,
+                    "InvalidRewardToken"
+                )
+            }
+            await expect(stakingManager.addRewardToken(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+                stakingManager,
+                "ZeroAddress"
+            )
+
+            for (let i = 0; i < 4; i++) {
+                await stakingManager.addRewardToken(ethers.Wallet.createRandom().address)
+            }
+            await expect(
+                stakingManager.addRewardToken(ethers.Wallet.createRandom().address)
+            ).to.be.revertedWithCustomError(stakingManager, "TooManyRewardTokens")
+        })
+
+        it("Should only allow admin to manage rewards", async function () {
+            const { stakingManager, user1 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await expect(stakingManager.connect(user1).addRewardToken(rewardAddress)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+            await expect(
+                stakingManager.connect(user1).fundRewards(rewardAddress, REWARD_AMOUNT, 0, 1)
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        })
+    })
+
+    describe("fundRewards", function () {
+        it("Should revert on an unregistered token or invalid schedule", async function () {
+            const { stakingManager } = context
+            const rewardAddress = await rewardToken.getAddress()
+            const now = await time.latest()
+            await expect(stakingManager.fundRewards(rewardAddress, REWARD_AMOUNT, now + 10, now + 20))
+                .to.be.revertedWithCustomError(stakingManager, "RewardTokenNotRegistered")
+                .withArgs(rewardAddress)
+
+            await stakingManager.addRewardToken(rewardAddress)
+            await expect(
+                stakingManager.fundRewards(rewardAddress, REWARD_AMOUNT, now - 1, now + 20)
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidRewardSchedule")
+            await expect(
+                stakingManager.fundRewards(rewardAddress, REWARD_AMOUNT, now + 20, now + 20)
+            ).to.be.revertedWithCustomError(stakingManager, "InvalidRewardSchedule")
+            await expect(stakingManager.fundRewards(rewardAddress, 0, now + 10, now + 20)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AmountMustBeGreaterThanZero"
+            )
+        })
+
+        it("Should stream rewards the vaults paid to the contract", async function () {
+            const { stakingManager, user1 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.addRewardToken(rewardAddress)
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await rewardToken.transfer(await stakingManager.getAddress(), REWARD_AMOUNT)
+
+            const startTime = (await time.latest()) + 10
+            await expect(stakingManager.fundRewards(rewardAddress, 0, startTime, startTime + DURATION))
+                .to.emit(stakingManager, "RewardsFunded")
+                .withArgs(rewardAddress, REWARD_AMOUNT, REWARD_AMOUNT / BigInt(DURATION), startTime, startTime + DURATION)
+            expect(await stakingManager.rewardReserved(rewardAddress)).to.equal(REWARD_AMOUNT)
+        })
+    })
+
+    describe("Distribution", function () {
+        beforeEach(async function () {
+            await context.stakingManager.addRewardToken(await rewardToken.getAddress())
+        })
+
+        it("Should split rewards pro-rata and let anyone claim for a holder", async function () {
+            const { stakingManager, user1, user2 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+            const startTime = await fundStream()
+
+            // Nothing is earned before the start
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(0)
+
+            await time.increaseTo(startTime + DURATION)
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(REWARD_AMOUNT / 2n)
+
+            await expect(stakingManager.connect(user2).claimRewards(user1.address))
+                .to.emit(stakingManager, "RewardsClaimed")
+                .withArgs(user1.address, rewardAddress, REWARD_AMOUNT / 2n)
+            expect(await rewardToken.balanceOf(user1.address)).to.equal(REWARD_AMOUNT / 2n)
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(0)
+        })
+
+        it("Should settle rewards on share transfers", async function () {
+            const { stakingManager, user1, user2 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const startTime = await fundStream()
+
+            await time.setNextBlockTimestamp(startTime + DURATION / 2)
+            await stakingManager.connect(user1).transfer(user2.address, EXPECTED_SHARES)
+            await time.increaseTo(startTime + DURATION)
+
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(REWARD_AMOUNT / 2n)
+            expect(await stakingManager.pendingRewards(rewardAddress, user2.address)).to.equal(REWARD_AMOUNT / 2n)
+        })
+
+        it("Should settle rewards on mint and burn", async function () {
+            const { stakingManager, user1, user2 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const startTime = await fundStream()
+
+            await time.setNextBlockTimestamp(startTime + DURATION / 2)
+            await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+            await time.setNextBlockTimestamp(startTime + (DURATION * 3) / 4)
+            await stakingManager.connect(user1).redeem(EXPECTED_SHARES, user1.address, user1.address)
+            await time.increaseTo(startTime + DURATION)
+
+            // user1: all of the first half, then half of the third quarter
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(
+                (REWARD_AMOUNT * 5n) / 8n
+            )
+            expect(await stakingManager.pendingRewards(rewardAddress, user2.address)).to.equal(
+                (REWARD_AMOUNT * 3n) / 8n
+            )
+        })
+
+        it("Should carry the unstreamed rewards into a new stream", async function () {
+            const { stakingManager, user1 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const startTime = await fundStream()
+
+            await time.setNextBlockTimestamp(startTime + DURATION / 2)
+            const newEnd = startTime + DURATION / 2 + DURATION
+            await stakingManager.fundRewards(rewardAddress, 0, startTime + DURATION / 2, newEnd)
+            await time.increaseTo(newEnd)
+
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(REWARD_AMOUNT)
+        })
+
+        it("Should keep earning rewards on locked shares for the lock owner", async function () {
+            const { stakingManager, user1, user2 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.setLockTerms([DURATION / 10], [0], [0])
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+            const startTime = await fundStream()
+
+            await time.setNextBlockTimestamp(startTime + DURATION / 4)
+            await stakingManager.connect(user1).lock(EXPECTED_SHARES, 0)
+            await time.increaseTo(startTime + DURATION / 2)
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(REWARD_AMOUNT / 4n)
+            expect(await stakingManager.pendingRewards(rewardAddress, await stakingManager.getAddress())).to.equal(0)
+
+            // Released shares stop earning once they are redeemed
+            await time.setNextBlockTimestamp(startTime + (DURATION * 3) / 4)
+            await stakingManager.connect(user1).unlock(0, user1.address)
+            await time.increaseTo(startTime + DURATION)
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(
+                (REWARD_AMOUNT * 3n) / 8n
+            )
+            expect(await stakingManager.pendingRewards(rewardAddress, user2.address)).to.equal(
+                (REWARD_AMOUNT * 5n) / 8n
+            )
+        })
+
+        it("Should keep earning rewards on queued shares until the request is fulfilled", async function () {
+            const { stakingManager, user1, user2 } = context
+            const rewardAddress = await rewardToken.getAddress()
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+            const startTime = await fundStream()
+
+            await time.setNextBlockTimestamp(startTime + DURATION / 4)
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user1.address, user1.address)
+            await time.setNextBlockTimestamp(startTime + DURATION / 2)
+            await stakingManager.processWithdrawalQueue(1)
+            await time.increaseTo(startTime + DURATION)
+
+            expect(await stakingManager.pendingRewards(rewardAddress, user1.address)).to.equal(REWARD_AMOUNT / 4n)
+            expect(await stakingManager.pendingRewards(rewardAddress, user2.address)).to.equal(
+                (REWARD_AMOUNT * 3n) / 4n
+            )
+            expect(await stakingManager.pendingRewards(rewardAddress, await stakingManager.getAddress())).to.equal(0)
+        })
+    })
+})
@@ -0,0 +1,174 @@
+import { expect } from "chai"
+import { ethers, upgrades } from "hardhat"
+import { setupTestEnvironment, deployV1Proxy, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+import { deployStakingModules } from "../scripts/utils/modules"
+
+describe("StakingManager - Roles", function () {
+    let context: TestContext
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+    })
+
+    describe("Role Assignment", function () {
+        it("Should grant admin and all operational roles to the owner on initialize", async function () {
+            const { stakingManager, owner } = context
+            const roles = [
+                await stakingManager.DEFAULT_ADMIN_ROLE(),
+                await stakingManager.FEE_MANAGER_ROLE(),
+                await stakingManager.PAUSER_ROLE(),
+                await stakingManager.MIGRATOR_ROLE(),
+                await stakingManager.TREASURER_ROLE(),
+                await stakingManager.UPGRADER_ROLE(),
+                await stakingManager.KEEPER_ROLE(),
+            ]
+            for (const role of roles) {
+                expect(await stakingManager.hasRole(role, owner.address)).to.be.true
+            }
+        })
+
+        it("Should allow admin to grant and revoke roles with events", async function () {
+            const { stakingManager, owner, user1 } = context
+            const feeManagerRole = await stakingManager.FEE_MANAGER_ROLE()
+
+            await expect(stakingManager.grantRole(feeManagerRole, user1.address))
+                .to.emit(stakingManager, "RoleGranted")
+                .withArgs(feeManagerRole, user1.address, owner.address)
+            await expect(stakingManager.connect(user1).setInputFeeRate(100)).to.not.be.reverted
+
+            await expect(stakingManager.revokeRole(feeManagerRole, user1.address))
+                .to.emit(stakingManager, "RoleRevoked")
+                .withArgs(feeManagerRole, user1.address, owner.address)
+            await expect(stakingManager.connect(user1).setInputFeeRate(200))
+                .to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+                .withArgs(user1.address, feeManagerRole)
+        })
+
+        it("Should allow a role holder to renounce its role", async function () {
+            const { stakingManager, user1 } = context
+            const pauserRole = await stakingManager.PAUSER_ROLE()
+            await stakingManager.grantRole(pauserRole, user1.address)
+
+            await expect(stakingManager.connect(user1).renounceRole(pauserRole, user1.address))
+                .to.emit(stakingManager, "RoleRevoked")
+                .withArgs(pauserRole, user1.address, user1.address)
+            expect(await stakingManager.hasRole(pauserRole, user1.address)).to.be.false
+        })
+
+        it("Should not allow non-admin to grant roles", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).grantRole(await stakingManager.PAUSER_ROLE(), user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        })
+    })
+
+    describe("Role Separation", function () {
+        it("Should restrict each admin entry point to its own role", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await stakingManager.grantRole(await stakingManager.PAUSER_ROLE(), user2.address)
+
+            // Pauser can pause but cannot touch fees, treasury or migration
+            await expect(stakingManager.connect(user2).pause()).to.not.be.reverted
+            await expect(stakingManager.connect(user2).unpause()).to.not.be.reverted
+            await expect(stakingManager.connect(user2).setOutputFeeRate(100)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+            await expect(stakingManager.connect(user2).withdrawFeeShares(user2.address, 1)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+
+            await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const newVault = await ethers.deployContract("MockMorphoVault", [await token.getAddress()])
+            await expect(
+                stakingManager.connect(user2).migrateVault(await newVault.getAddress())
+            ).to.be.revertedWithCustomError(stakingManager, "AccessControlUnauthorizedAccount")
+        })
+
+        it("Should allow only the upgrader role to upgrade", async function () {
+            const { stakingManager, owner, user1 } = context
+            const upgraderRole = await stakingManager.UPGRADER_ROLE()
+            const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
+
+            await stakingManager.grantRole(upgraderRole, user1.address)
+            await stakingManager.revokeRole(upgraderRole, owner.address)
+
+            const constructorArgs = await deployStakingModules()
+
+            await expect(upgrades.upgradeProxy(await stakingManager.getAddress(), StakingManagerFactory, { constructorArgs }))
+                .to.be.reverted
+            await expect(
+                upgrades.upgradeProxy(await stakingManager.getAddress(), StakingManagerFactory.connect(user1), {
+                    constructorArgs,
+                })
+            ).to.not.be.reverted
+        })
+    })
+
+    describe("initializeV2", function () {
+        it("Should map the current owner to the admin and operational roles", async function () {
+            const { owner } = context
+            const stakingManager = await deployV1Proxy(context)
+            const adminRole = await stakingManager.DEFAULT_ADMIN_ROLE()
+            const feeManagerRole = await stakingManager.FEE_MANAGER_ROLE()
+            expect(await stakingManager.hasRole(adminRole, owner.address)).to.be.false
+
+            await stakingManager.initializeV2()
+
+            expect(await stakingManager.hasRole(adminRole, owner.address)).to.be.true
+            expect(await stakingManager.hasRole(feeManagerRole, owner.address)).to.be.true
+        })
+
+        it("Should only be callable by the V1 owner", async function () {
+            const { user1 } = context
+            const stakingManager = await deployV1Proxy(context)
+            await expect(stakingManager.connect(user1).initializeV2()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+
+        it("Should clear the V1 ownership", async function () {
+            const { owner } = context
+            const stakingManager = await deployV1Proxy(context)
+            // ERC-7201 slot of OpenZeppelin's Ownable storage
+            const ownableSlot = "0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300"
+            const readOwner = async () =>
+                ethers.getAddress(
+                    ethers.dataSlice(await ethers.provider.getStorage(await stakingManager.getAddress(), ownableSlot), 12)
+                )
+            expect(await readOwner()).to.equal(owner.address)
+
+            await stakingManager.initializeV2()
+
+            expect(await readOwner()).to.equal(ethers.ZeroAddress)
+        })
+
+        it("Should not be callable twice", async function () {
+            const stakingManager = await deployV1Proxy(context)
+            await stakingManager.initializeV2()
+            await expect(stakingManager.initializeV2()).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidInitialization"
+            )
+        })
+
+        it("Should not restore revoked roles on fresh deployments", async function () {
+            const { stakingManager, owner, user1 } = context
+            const feeManagerRole = await stakingManager.FEE_MANAGER_ROLE()
+            await stakingManager.grantRole(feeManagerRole, user1.address)
+            await stakingManager.revokeRole(feeManagerRole, owner.address)
+
+            await expect(stakingManager.connect(user1).initializeV2()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+            await stakingManager.initializeV2()
+            expect(await stakingManager.initializedVersion()).to.equal(2)
+            expect(await stakingManager.hasRole(feeManagerRole, owner.address)).to.be.false
+        })
+    })
+})
@@ -0,0 +1,34 @@
+import { expect } from "chai"
+import { loadScenarios, runScenario, Scenario } from "../scripts/utils/scenario"
+
+describe("StakingManager - Scenarios", function () {
+    for (const scenario of loadScenarios()) {
+        it(`Should run the ${scenario.name} scenario`, async function () {
+            await runScenario(scenario)
+        })
+    }
+
+    describe("Runner", function () {
+        const scenario: Scenario = {
+            name: "Runner",
+            accounts: { alice: "10000" },
+            steps: [{ action: "deposit", account: "alice", assets: "1000", expect: { shares: { alice: "1000" } } }],
+        }
+
+        it("Should fail on drifted expectations", async function () {
+            const steps = [{ ...scenario.steps[0], expect: { shares: { alice: "999" }, totalAssets: "1000" } }]
+            await expect(runScenario({ ...scenario, steps })).to.be.rejectedWith(
+                "Runner step 1 (deposit) drifted:\n  shares of alice: expected 999, got 1000.0"
+            )
+        })
+
+        it("Should fail on unexpected or missing reverts", async function () {
+            await expect(
+                runScenario({ ...scenario, steps: [{ action: "redeem", account: "alice", shares: "1" }] })
+            ).to.be.rejectedWith("Runner step 1 (redeem) failed: InsufficientVaultLiquidity")
+            await expect(
+                runScenario({ ...scenario, steps: [{ ...scenario.steps[0], reverts: "ZeroAddress" }] })
+            ).to.be.rejectedWith("Runner step 1 (deposit) did not revert with ZeroAddress")
+        })
+    })
+})
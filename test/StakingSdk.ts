@@ -0,0 +1,153 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { decodeError, formatError, StakingManagerClient, StakingManagerError } from "../sdk"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES, INITIAL_BALANCE } from "./utils/testUtils"
+
+describe("StakingManager - SDK client", function () {
+    let context: TestContext
+    let userClient: StakingManagerClient
+    let ownerClient: StakingManagerClient
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, owner, user1 } = context
+        const address = await stakingManager.getAddress()
+        await stakingManager.setInputFeeRate(100) // 1%
+        await stakingManager.setOutputFeeRate(200) // 2%
+        userClient = new StakingManagerClient(address, user1)
+        ownerClient = new StakingManagerClient(address, owner)
+    })
+
+    it("Should quote deposits and mints with the input fee", async function () {
+        const { user1 } = context
+        const deposit = await userClient.quoteDeposit(STAKE_AMOUNT)
+        expect(deposit.fee).to.equal(STAKE_AMOUNT / 100n)
+        expect(deposit.shares).to.equal((EXPECTED_SHARES * 99n) / 100n)
+
+        const mint = await userClient.quoteMint(deposit.shares, user1.address)
+        expect(mint.assets).to.equal(STAKE_AMOUNT)
+        expect(mint.fee).to.equal(STAKE_AMOUNT / 100n)
+    })
+
+    it("Should approve only the missing allowance", async function () {
+        expect(await userClient.allowance()).to.equal(0)
+        expect(await userClient.ensureAllowance(STAKE_AMOUNT)).to.not.equal(null)
+        expect(await userClient.allowance()).to.equal(STAKE_AMOUNT)
+        expect(await userClient.ensureAllowance(STAKE_AMOUNT / 2n)).to.equal(null)
+    })
+
+    it("Should deposit the quoted shares and parse the fee event", async function () {
+        const { stakingManager, user1 } = context
+        const quote = await userClient.quoteDeposit(STAKE_AMOUNT)
+        const receipt = await userClient.deposit(STAKE_AMOUNT, { approve: true, minShares: quote.shares })
+        expect(await stakingManager.balanceOf(user1.address)).to.equal(quote.shares)
+
+        const [fee] = await userClient.parseEvents(receipt, "InputFeeCollected")
+        expect(fee.args.feeAmount).to.equal(quote.fee)
+        const [deposit] = await userClient.parseEvents(receipt, "Deposit")
+        expect(deposit.args.owner).to.equal(user1.address)
+        expect(deposit.args.shares).to.equal(quote.shares)
+    })
+
+    it("Should withdraw and redeem at the quoted amounts", async function () {
+        const { stakingManager, token, user1 } = context
+        await userClient.mint(EXPECTED_SHARES, { approve: true })
+        expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
+
+        const assets = STAKE_AMOUNT / 2n
+        const withdrawal = await userClient.quoteWithdraw(assets)
+        expect(withdrawal.fee).to.equal((assets * 200n + 9800n - 1n) / 9800n)
+        const balance = await token.balanceOf(user1.address)
+        const receipt = await userClient.withdraw(assets, { maxShares: withdrawal.shares })
+        expect(await token.balanceOf(user1.address)).to.equal(balance + assets)
+        const [fee] = await userClient.parseEvents(receipt, "OutputFeeCollected")
+        expect(fee.args.feeAmount).to.equal(withdrawal.fee)
+
+        const shares = await stakingManager.balanceOf(user1.address)
+        const redemption = await userClient.quoteRedeem(shares)
+        await userClient.redeem(shares, { minAssets: redemption.assets })
+        expect(await stakingManager.balanceOf(user1.address)).to.equal(0)
+        expect(await token.balanceOf(user1.address)).to.equal(balance + assets + redemption.assets)
+    })
+
+    it("Should throw decoded custom errors", async function () {
+        const quote = await userClient.quoteDeposit(STAKE_AMOUNT)
+        const error = await userClient
+            .deposit(STAKE_AMOUNT, { approve: true, minShares: quote.shares + 1n })
+            .catch((e: unknown) => e)
+        expect(error).to.be.instanceOf(StakingManagerError)
+        expect((error as StakingManagerError).errorName).to.equal("InsufficientSharesOut")
+        expect((error as StakingManagerError).errorArgs).to.deep.equal([quote.shares, quote.shares + 1n])
+
+        await expect(userClient.deposit(STAKE_AMOUNT, { deadline: 1 })).to.be.rejectedWith("DeadlineExpired(1)")
+        await expect(ownerClient.scheduleFeeRates({ input: 1001 })).to.be.rejectedWith("InvalidFeeRate()")
+    })
+
+    it("Should leave errors without revert data undecoded", async function () {
+        const { stakingManager } = context
+        expect(decodeError(stakingManager.interface, null)).to.equal(null)
+        expect(decodeError(stakingManager.interface, "reverted")).to.equal(null)
+        expect(userClient.decodeError({ data: { data: "0x" } })).to.equal(null)
+        expect(formatError(stakingManager.interface, new Error("timeout"))).to.equal("timeout")
+        expect(formatError(stakingManager.interface, undefined)).to.equal("undefined")
+    })
+
+    it("Should run the admin helpers", async function () {
+        const { stakingManager, token, user2 } = context
+        await userClient.deposit(STAKE_AMOUNT, { approve: true })
+
+        await ownerClient.scheduleFeeRates({ input: 50, output: 75 })
+        await ownerClient.pause()
+        let status = await ownerClient.getStatus()
+        expect(status.inputFeeRate).to.equal(50)
+        expect(status.outputFeeRate).to.equal(75)
+        expect(status.paused).to.equal(true)
+        expect(status.totalFeeAssets).to.equal(STAKE_AMOUNT / 100n)
+        await ownerClient.unpause()
+
+        const newVault = await (await ethers.getContractFactory("MockMorphoVault")).deploy(await token.getAddress())
+        await ownerClient.migrateVault(await newVault.getAddress())
+        expect(await stakingManager.stakingVault()).to.equal(await newVault.getAddress())
+
+        const receipt = await ownerClient.withdrawFeeShares(user2.address)
+        const [withdrawn] = await ownerClient.parseEvents(receipt, "FeeSharesWithdrawn")
+        expect(withdrawn.args.recipient).to.equal(user2.address)
+        status = await ownerClient.getStatus()
+        expect(status.totalFeeShares).to.equal(0)
+        expect(await token.balanceOf(user2.address)).to.equal(INITIAL_BALANCE + STAKE_AMOUNT / 100n)
+    })
+    it("Should schedule, execute and cancel fee rate changes under a delay", async function () {
+        const { stakingManager } = context
+        const delay = 24 * 60 * 60
+        await stakingManager.setFeeRateChangeDelay(delay)
+        expect(await ownerClient.getPendingFeeRateChange()).to.equal(null)
+
+        await ownerClient.scheduleFeeRates({ input: 50, output: 75 })
+        const pending = await ownerClient.getPendingFeeRateChange()
+        expect(pending).to.deep.equal({
+            inputFeeRate: 50n,
+            outputFeeRate: 75n,
+            activationTime: BigInt((await time.latest()) + delay),
+        })
+        let status = await ownerClient.getStatus()
+        expect(status.inputFeeRate).to.equal(100)
+        expect(status.outputFeeRate).to.equal(200)
+        await expect(ownerClient.executeFeeRateChange()).to.be.rejectedWith(
+            `FeeRateChangeNotReady(${pending!.activationTime})`
+        )
+
+        await time.increaseTo(pending!.activationTime)
+        await ownerClient.executeFeeRateChange()
+        status = await ownerClient.getStatus()
+        expect(status.inputFeeRate).to.equal(50)
+        expect(status.outputFeeRate).to.equal(75)
+        expect(await ownerClient.getPendingFeeRateChange()).to.equal(null)
+
+        await ownerClient.scheduleFeeRates({ input: 0 })
+        await ownerClient.cancelFeeRateChange()
+        expect(await ownerClient.getPendingFeeRateChange()).to.equal(null)
+        expect((await ownerClient.getStatus()).inputFeeRate).to.equal(50)
+        await expect(ownerClient.cancelFeeRateChange()).to.be.rejectedWith("NoPendingFeeRateChange()")
+    })
+})
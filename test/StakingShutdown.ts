@@ -0,0 +1,158 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Emergency Shutdown", function () {
+    let context: TestContext
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 2n)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+    })
+
+    describe("emergencyShutdown", function () {
+        it("Should move vault assets to idle and keep total assets", async function () {
+            const { stakingManager, token, vault } = context
+            const managerAddress = await stakingManager.getAddress()
+
+            await expect(stakingManager.emergencyShutdown())
+                .to.emit(stakingManager, "EmergencyShutdown")
+                .withArgs(STAKE_AMOUNT * 2n, 0, 0)
+
+            expect(await stakingManager.isShutdown()).to.equal(true)
+            expect(await token.balanceOf(managerAddress)).to.equal(STAKE_AMOUNT * 2n)
+            expect(await vault.balanceOf(managerAddress)).to.equal(0)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT * 2n)
+        })
+
+        it("Should redeem only what the vault can pay out", async function () {
+            const { stakingManager, vault } = context
+            await vault.setAvailableLiquidity(STAKE_AMOUNT / 2n)
+
+            await expect(stakingManager.emergencyShutdown())
+                .to.emit(stakingManager, "EmergencyShutdown")
+                .withArgs(STAKE_AMOUNT / 2n, (STAKE_AMOUNT * 3n) / 2n, 0)
+            expect(await stakingManager.totalAssets()).to.equal(STAKE_AMOUNT * 2n)
+        })
+
+        it("Should block deposits, queueing and migrations for good", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.emergencyShutdown()
+
+            await expect(stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)).to.be.revertedWithCustomError(
+                stakingManager,
+                "ShutdownActive"
+            )
+            await expect(stakingManager.connect(user1).mint(EXPECTED_SHARES, user1.address)).to.be.revertedWithCustomError(
+                stakingManager,
+                "ShutdownActive"
+            )
+            await expect(
+                stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user1.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "ShutdownActive")
+            expect(await stakingManager.maxDeposit(user1.address)).to.equal(0)
+
+            const MockMorphoVaultFactory = await ethers.getContractFactory("MockMorphoVault")
+            const newVault = await MockMorphoVaultFactory.deploy(await context.token.getAddress())
+            await expect(stakingManager.migrateVault(await newVault.getAddress())).to.be.revertedWithCustomError(
+                stakingManager,
+                "ShutdownActive"
+            )
+            await expect(stakingManager.startVaultMigration(await newVault.getAddress())).to.be.revertedWithCustomError(
+                stakingManager,
+                "ShutdownActive"
+            )
+            await expect(stakingManager.rebalance()).to.be.revertedWithCustomError(stakingManager, "ShutdownActive")
+            await expect(stakingManager.pause()).to.be.revertedWithCustomError(stakingManager, "ShutdownActive")
+            await expect(stakingManager.emergencyShutdown()).to.be.revertedWithCustomError(stakingManager, "ShutdownActive")
+        })
+
+        it("Should unpause so holders can exit", async function () {
+            const { stakingManager } = context
+            await stakingManager.pause()
+            await stakingManager.emergencyShutdown()
+            expect(await stakingManager.paused()).to.equal(false)
+        })
+
+        it("Should only allow admin to shut down", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).emergencyShutdown()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+
+    describe("Pro-rata exit", function () {
+        it("Should redeem and withdraw without output fees", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await stakingManager.setOutputFeeRate(1000) // 10%
+            await stakingManager.emergencyShutdown()
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            await expect(stakingManager.connect(user1).redeem(EXPECTED_SHARES, user1.address, user1.address))
+                .to.emit(stakingManager, "Withdraw")
+                .withArgs(user1.address, user1.address, user1.address, STAKE_AMOUNT, EXPECTED_SHARES)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(STAKE_AMOUNT)
+
+            await stakingManager.connect(user2).withdraw(STAKE_AMOUNT, user2.address, user2.address)
+            expect(await stakingManager.balanceOf(user2.address)).to.equal(0)
+            expect(await stakingManager.totalAssets()).to.equal(0)
+        })
+
+        it("Should pull the shortfall from the vault and revert when it cannot pay", async function () {
+            const { stakingManager, vault, user1, user2 } = context
+            await vault.setAvailableLiquidity(STAKE_AMOUNT / 2n)
+            await stakingManager.emergencyShutdown()
+
+            // Idle assets cover half a position; the rest comes from the vault
+            await stakingManager.connect(user1).redeem(EXPECTED_SHARES, user1.address, user1.address)
+
+            await vault.setAvailableLiquidity(0)
+            await expect(
+                stakingManager.connect(user2).redeem(EXPECTED_SHARES, user2.address, user2.address)
+            ).to.be.revertedWithCustomError(stakingManager, "InsufficientVaultLiquidity")
+        })
+
+        it("Should treat fee shares like user shares", async function () {
+            const { stakingManager, token, owner, user1 } = context
+            await stakingManager.setInputFeeRate(1000) // 10%
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const feeAmount = STAKE_AMOUNT / 10n
+            const totalAssets = STAKE_AMOUNT * 3n
+            const supply = await stakingManager.totalSupply()
+            const feeClaim = (supply * feeAmount) / (totalAssets - feeAmount)
+
+            await expect(stakingManager.emergencyShutdown())
+                .to.emit(stakingManager, "EmergencyShutdown")
+                .withArgs(totalAssets, 0, feeClaim)
+            expect(await stakingManager.totalFeeShares()).to.equal(0)
+            expect(await stakingManager.shutdownFeeShares()).to.equal(feeClaim)
+            expect(await stakingManager.totalFeeAssets()).to.equal(feeAmount)
+
+            const balanceBefore = await token.balanceOf(owner.address)
+            await stakingManager.withdrawFeeShares(owner.address, feeClaim)
+            expect((await token.balanceOf(owner.address)) - balanceBefore).to.equal(feeAmount)
+            expect(await stakingManager.totalAssets()).to.equal(totalAssets - feeAmount)
+        })
+
+        it("Should fulfill queued requests pro-rata on claim", async function () {
+            const { stakingManager, token, vault, user1 } = context
+            await vault.setAvailableLiquidity(0)
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user1.address, user1.address)
+            await vault.setAvailableLiquidity(ethers.MaxUint256)
+            await stakingManager.emergencyShutdown()
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            await expect(stakingManager.connect(user1).claimWithdrawal(0))
+                .to.emit(stakingManager, "WithdrawalFulfilled")
+                .withArgs(0, STAKE_AMOUNT, 0)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(STAKE_AMOUNT)
+            expect(await stakingManager.getWithdrawalQueueInfo()).to.deep.equal([1n, 0n, 0n])
+        })
+    })
+})
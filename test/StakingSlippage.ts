@@ -0,0 +1,117 @@
+import { expect } from "chai"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Slippage Protection", function () {
+    let context: TestContext
+    let deadline: number
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT * 2n)
+        deadline = (await time.latest()) + 3600
+    })
+
+    describe("depositWithMinShares", function () {
+        it("Should deposit when the shares after fees meet the minimum", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(1000) // 10%
+            const minShares = (EXPECTED_SHARES * 9n) / 10n
+
+            await stakingManager.connect(user1).depositWithMinShares(STAKE_AMOUNT, user1.address, minShares, deadline)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(minShares)
+        })
+
+        it("Should revert when fewer shares are received", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setInputFeeRate(1000) // 10%
+
+            await expect(
+                stakingManager.connect(user1).depositWithMinShares(STAKE_AMOUNT, user1.address, EXPECTED_SHARES, deadline)
+            )
+                .to.be.revertedWithCustomError(stakingManager, "InsufficientSharesOut")
+                .withArgs((EXPECTED_SHARES * 9n) / 10n, EXPECTED_SHARES)
+        })
+    })
+
+    describe("mintWithMaxAssets", function () {
+        it("Should revert when the mint costs more than the maximum", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).mintWithMaxAssets(EXPECTED_SHARES, user1.address, STAKE_AMOUNT - 1n, deadline)
+            )
+                .to.be.revertedWithCustomError(stakingManager, "ExcessiveAssetsIn")
+                .withArgs(STAKE_AMOUNT, STAKE_AMOUNT - 1n)
+
+            await stakingManager.connect(user1).mintWithMaxAssets(EXPECTED_SHARES, user1.address, STAKE_AMOUNT, deadline)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES)
+        })
+    })
+
+    describe("Withdrawals", function () {
+        beforeEach(async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        })
+
+        it("Should revert withdrawWithMaxShares when more shares would be burned", async function () {
+            const { stakingManager, user1 } = context
+            const assets = STAKE_AMOUNT / 2n
+            const shares = EXPECTED_SHARES / 2n
+
+            await expect(
+                stakingManager
+                    .connect(user1)
+                    .withdrawWithMaxShares(assets, user1.address, user1.address, shares - 1n, deadline)
+            )
+                .to.be.revertedWithCustomError(stakingManager, "ExcessiveSharesIn")
+                .withArgs(shares, shares - 1n)
+
+            await stakingManager.connect(user1).withdrawWithMaxShares(assets, user1.address, user1.address, shares, deadline)
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES - shares)
+        })
+
+        it("Should revert redeemWithMinAssets when fewer assets are received after fees", async function () {
+            const { stakingManager, token, user1 } = context
+            await stakingManager.setOutputFeeRate(500) // 5%
+            const shares = EXPECTED_SHARES / 2n
+            const netAssets = ((STAKE_AMOUNT / 2n) * 95n) / 100n
+
+            await expect(
+                stakingManager
+                    .connect(user1)
+                    .redeemWithMinAssets(shares, user1.address, user1.address, STAKE_AMOUNT / 2n, deadline)
+            )
+                .to.be.revertedWithCustomError(stakingManager, "InsufficientAssetsOut")
+                .withArgs(netAssets, STAKE_AMOUNT / 2n)
+
+            const balanceBefore = await token.balanceOf(user1.address)
+            await stakingManager.connect(user1).redeemWithMinAssets(shares, user1.address, user1.address, netAssets, deadline)
+            expect((await token.balanceOf(user1.address)) - balanceBefore).to.equal(netAssets)
+        })
+    })
+
+    describe("Deadline", function () {
+        it("Should revert every variant after the deadline", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+            const expired = (await time.latest()) - 1
+
+            await expect(stakingManager.connect(user1).depositWithMinShares(STAKE_AMOUNT, user1.address, 0, expired))
+                .to.be.revertedWithCustomError(stakingManager, "DeadlineExpired")
+                .withArgs(expired)
+            await expect(
+                stakingManager.connect(user1).mintWithMaxAssets(EXPECTED_SHARES, user1.address, STAKE_AMOUNT, expired)
+            ).to.be.revertedWithCustomError(stakingManager, "DeadlineExpired")
+            await expect(
+                stakingManager
+                    .connect(user1)
+                    .withdrawWithMaxShares(STAKE_AMOUNT, user1.address, user1.address, EXPECTED_SHARES, expired)
+            ).to.be.revertedWithCustomError(stakingManager, "DeadlineExpired")
+            await expect(
+                stakingManager.connect(user1).redeemWithMinAssets(EXPECTED_SHARES, user1.address, user1.address, 0, expired)
+            ).to.be.revertedWithCustomError(stakingManager, "DeadlineExpired")
+        })
+    })
+})
@@ -0,0 +1,72 @@
+import { expect } from "chai"
+import hre, { ethers } from "hardhat"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+
+describe("StakingManager - Admin tasks", function () {
+    let context: TestContext
+    let proxy: string
+
+    function run(task: string, args: Record<string, unknown> = {}) {
+        return hre.run({ scope: "staking", task }, { proxy, ...args })
+    }
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1 } = context
+        proxy = await stakingManager.getAddress()
+        await stakingManager.setInputFeeRate(100) // 1%
+        await token.connect(user1).approve(proxy, STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+    })
+
+    it("Should report the status", async function () {
+        const { vault } = context
+        const status = await run("status")
+        expect(status.version).to.equal("4.0.0")
+        expect(status.stakingVault).to.equal(await vault.getAddress())
+        expect(status.inputFeeRate).to.equal(100)
+        expect(status.totalFeeAssets).to.equal(STAKE_AMOUNT / 100n)
+        expect(status.paused).to.equal(false)
+    })
+
+    it("Should validate arguments", async function () {
+        await expect(run("set-fees", { input: 1001 })).to.be.rejectedWith("--input must be between 0 and 1000")
+        await expect(run("set-fees")).to.be.rejectedWith("Pass --input, --output or both")
+        await expect(run("status", { proxy: "0x1234" })).to.be.rejectedWith("--proxy must be an address")
+        await expect(run("withdraw-fees", { shares: "1000" })).to.be.rejectedWith("--shares exceeds the fee bucket")
+        await expect(run("unpause")).to.be.rejectedWith("StakingManager is not paused")
+    })
+
+    it("Should only simulate on dry runs", async function () {
+        const { stakingManager } = context
+        await run("set-fees", { input: 200, output: 300, dryRun: true })
+        await run("pause", { dryRun: true })
+        expect(await stakingManager.inputFeeRate()).to.equal(100)
+        expect(await stakingManager.paused()).to.equal(false)
+
+        await run("set-fees", { input: 200, output: 300, dryRun: false })
+        await run("pause", { dryRun: false })
+        expect(await stakingManager.inputFeeRate()).to.equal(200)
+        expect(await stakingManager.outputFeeRate()).to.equal(300)
+        expect(await stakingManager.paused()).to.equal(true)
+    })
+
+    it("Should report decoded custom errors", async function () {
+        const { vault } = context
+        await expect(run("migrate-vault", { newVault: await vault.getAddress(), dryRun: true })).to.be.rejectedWith(
+            "migrateVault reverted: SameVaultAsset()"
+        )
+    })
+
+    it("Should migrate the vault and withdraw fee shares", async function () {
+        const { stakingManager, token, user2 } = context
+        const newVault = await (await ethers.getContractFactory("MockMorphoVault")).deploy(await token.getAddress())
+        const info = await run("migrate-vault", { newVault: await newVault.getAddress(), dryRun: false })
+        expect(info.currentAssets).to.equal(STAKE_AMOUNT)
+        expect(await stakingManager.stakingVault()).to.equal(await newVault.getAddress())
+
+        await run("withdraw-fees", { recipient: user2.address, dryRun: false })
+        expect(await stakingManager.totalFeeShares()).to.equal(0)
+        expect(await token.balanceOf(user2.address)).to.equal(ethers.parseEther("10000") + STAKE_AMOUNT / 100n)
+    })
+})
@@ -1,6 +1,9 @@
 import { expect } from "chai"
 import { ethers, upgrades } from "hardhat"
-import { setupTestEnvironment, TestContext } from "./utils/testUtils"
+import { setupTestEnvironment, deployV1Proxy, TestContext, STAKE_AMOUNT } from "./utils/testUtils"
+import { deployStakingModules } from "../scripts/utils/modules"
+import { diffSnapshots, guardedUpgrade } from "../scripts/utils/upgrade"
+import { StakingManagerV1 } from "../typechain-types"
 
 describe("StakingManager - Upgradeability", function () {
     let context: TestContext
@@ -17,10 +20,11 @@ describe("StakingManager - Upgradeability", function () {
             // Upgrade the contract
             const upgraded = await upgrades.upgradeProxy(
                 await stakingManager.getAddress(),
-                StakingManagerFactory
+                StakingManagerFactory,
+                { constructorArgs: await deployStakingModules() }
             )
 
-            expect(await upgraded.owner()).to.equal(owner.address)
+            expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true
         })
 
         it("Should not allow non-owner to upgrade", async function () {
@@ -31,9 +35,113 @@ describe("StakingManager - Upgradeability", function () {
             await expect(
                 upgrades.upgradeProxy(
                     await stakingManager.getAddress(),
-                    StakingManagerFactory.connect(user1)
+                    StakingManagerFactory.connect(user1),
+                    { constructorArgs: await deployStakingModules() }
                 )
             ).to.be.reverted
         })
     })
+
+    describe("initializeV4", function () {
+        it("Should start the fee checkpoints", async function () {
+            const stakingManager = await deployV1Proxy(context)
+            await stakingManager.initializeV2()
+            await stakingManager.initializeV3()
+            await stakingManager.initializeV4()
+
+            expect(await stakingManager.initializedVersion()).to.equal(4)
+            expect(await stakingManager.highWaterMark()).to.equal(ethers.parseUnits("1", 36))
+            expect(await stakingManager.lastManagementFeeAccrual()).to.be.gt(0)
+        })
+
+        it("Should only allow upgrader to run it once", async function () {
+            const { user1 } = context
+            const stakingManager = await deployV1Proxy(context)
+            await stakingManager.initializeV2()
+            await stakingManager.initializeV3()
+            await expect(stakingManager.connect(user1).initializeV4()).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+
+            await stakingManager.initializeV4()
+            await expect(stakingManager.initializeV4()).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidInitialization"
+            )
+        })
+    })
+
+    describe("Guarded upgrade", function () {
+        it("Should run the pending reinitializers and preserve state", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await stakingManager.setInputFeeRate(100)
+            for (const user of [user1, user2]) {
+                await token.connect(user).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+                await stakingManager.connect(user).deposit(STAKE_AMOUNT, user.address)
+            }
+
+            const report = await guardedUpgrade(await stakingManager.getAddress(), {
+                holders: [user1.address, user2.address],
+            })
+            expect(report.reinitializers).to.deep.equal(["initializeV2", "initializeV3", "initializeV4"])
+            expect(report.implementationArgs).to.deep.equal([report.modules.StakingFlows.address])
+            expect(report.modules.StakingVaults.args).to.deep.equal([ethers.ZeroAddress])
+            expect(report.after).to.deep.equal(report.before)
+            expect(await stakingManager.initializedVersion()).to.equal(4)
+            expect(await stakingManager.version()).to.equal("4.0.0")
+
+            // An up-to-date proxy has nothing left to reinitialize
+            const rerun = await guardedUpgrade(await stakingManager.getAddress())
+            expect(rerun.reinitializers).to.deep.equal([])
+        })
+
+        it("Should upgrade a V1 proxy and run every reinitializer", async function () {
+            const { vault, token, owner, user1, user2 } = context
+            const v1 = (await upgrades.deployProxy(
+                await ethers.getContractFactory("StakingManagerV1"),
+                [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address],
+                { initializer: "initialize", kind: "uups" }
+            )) as unknown as StakingManagerV1
+            const proxyAddress = await v1.getAddress()
+            await v1.setInputFeeRate(100)
+            for (const user of [user1, user2]) {
+                await token.connect(user).approve(proxyAddress, STAKE_AMOUNT)
+                await v1.connect(user).deposit(STAKE_AMOUNT, user.address)
+            }
+
+            // V1 counted the fee bucket in totalAssets, the current build excludes it
+            const report = await guardedUpgrade(proxyAddress, {
+                holders: [user1.address, user2.address],
+                allowDrift: ["totalAssets"],
+            })
+            expect(report.reinitializers).to.deep.equal(["initializeV2", "initializeV3", "initializeV4"])
+            for (const field of Object.keys(report.before).filter((field) => field !== "totalAssets")) {
+                expect(report.after[field]).to.equal(report.before[field])
+            }
+            expect(report.after.totalAssets).to.equal((report.before.totalAssets as bigint) - STAKE_AMOUNT / 50n)
+
+            const stakingManager = await ethers.getContractAt("IStakingManager", proxyAddress)
+            expect(await stakingManager.version()).to.equal("4.0.0")
+            expect(await stakingManager.hasRole(await stakingManager.UPGRADER_ROLE(), owner.address)).to.equal(true)
+            expect(await stakingManager.highWaterMark()).to.equal(ethers.parseUnits("1", 36))
+            await stakingManager.connect(user1).redeem(await stakingManager.balanceOf(user1), user1, user1)
+            expect(await stakingManager.balanceOf(user1)).to.equal(0)
+        })
+
+        it("Should report drifted fields", async function () {
+            const before = { totalSupply: 100n, totalAssets: 10000n, stakingVault: "0x1" }
+            expect(diffSnapshots(before, { ...before })).to.deep.equal([])
+            expect(diffSnapshots(before, { ...before, totalSupply: 99n, stakingVault: "0x2" })).to.deep.equal([
+                "totalSupply: 100 -> 99",
+                "stakingVault: 0x1 -> 0x2",
+            ])
+            // Asset-valued fields may move within the tolerance, and allowed fields are not reported
+            expect(diffSnapshots(before, { ...before, totalAssets: 10001n }, 1n)).to.deep.equal([])
+            expect(diffSnapshots(before, { ...before, totalAssets: 10002n }, 1n)).to.deep.equal([
+                "totalAssets: 10000 -> 10002",
+            ])
+            expect(diffSnapshots(before, { ...before, totalSupply: 99n }, 0n, ["totalSupply"])).to.deep.equal([])
+        })
+    })
 })
@@ -0,0 +1,197 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { setupTestEnvironment, TestContext, STAKE_AMOUNT, EXPECTED_SHARES } from "./utils/testUtils"
+
+describe("StakingManager - Withdrawal Queue", function () {
+    let context: TestContext
+    const DAY = 24 * 60 * 60
+
+    beforeEach(async function () {
+        context = await setupTestEnvironment()
+        const { stakingManager, token, user1, user2 } = context
+        await token.connect(user1).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await token.connect(user2).approve(await stakingManager.getAddress(), STAKE_AMOUNT)
+        await stakingManager.connect(user1).deposit(STAKE_AMOUNT, user1.address)
+        await stakingManager.connect(user2).deposit(STAKE_AMOUNT, user2.address)
+    })
+
+    describe("requestWithdrawal", function () {
+        it("Should lock shares into a request", async function () {
+            const { stakingManager, user1, user2 } = context
+            const shares = EXPECTED_SHARES / 2n
+
+            await expect(stakingManager.connect(user1).requestWithdrawal(shares, user2.address, user1.address))
+                .to.emit(stakingManager, "WithdrawalRequested")
+                .withArgs(0, user1.address, user2.address, shares)
+
+            expect(await stakingManager.balanceOf(user1.address)).to.equal(EXPECTED_SHARES - shares)
+            expect(await stakingManager.balanceOf(await stakingManager.getAddress())).to.equal(shares)
+            const request = await stakingManager.withdrawalRequests(0)
+            expect(request.owner).to.equal(user1.address)
+            expect(request.receiver).to.equal(user2.address)
+            expect(request.shares).to.equal(shares)
+            expect(request.fulfilled).to.equal(false)
+
+            expect(await stakingManager.getPendingWithdrawalRequests(user1.address)).to.deep.equal([0n])
+            expect(await stakingManager.getWithdrawalQueueInfo()).to.deep.equal([1n, shares, 0n])
+        })
+
+        it("Should spend allowance when requesting on behalf of the owner", async function () {
+            const { stakingManager, user1, user2 } = context
+            await expect(
+                stakingManager.connect(user2).requestWithdrawal(EXPECTED_SHARES, user2.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "ERC20InsufficientAllowance")
+
+            await stakingManager.connect(user1).approve(user2.address, EXPECTED_SHARES)
+            await expect(
+                stakingManager.connect(user2).requestWithdrawal(EXPECTED_SHARES, user2.address, user1.address)
+            ).to.not.be.reverted
+            expect(await stakingManager.allowance(user1.address, user2.address)).to.equal(0)
+        })
+
+        it("Should revert on invalid input", async function () {
+            const { stakingManager, user1 } = context
+            await expect(
+                stakingManager.connect(user1).requestWithdrawal(0, user1.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "AmountMustBeGreaterThanZero")
+            await expect(
+                stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, ethers.ZeroAddress, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "ZeroAddress")
+            await expect(
+                stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES + 1n, user1.address, user1.address)
+            ).to.be.revertedWithCustomError(stakingManager, "ERC20InsufficientBalance")
+        })
+    })
+
+    describe("processWithdrawalQueue", function () {
+        it("Should fulfill requests in FIFO order as liquidity returns", async function () {
+            const { stakingManager, vault, user1, user2 } = context
+            await vault.setAvailableLiquidity(0)
+            // Direct withdrawals are stuck while the market is fully utilized
+            await expect(
+                stakingManager.connect(user1).withdraw(STAKE_AMOUNT, user1.address, user1.address)
+            ).to.be.reverted
+
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES / 2n, user1.address, user1.address)
+            await stakingManager.connect(user2).requestWithdrawal(EXPECTED_SHARES, user2.address, user2.address)
+            expect(await stakingManager.processWithdrawalQueue.staticCall(10)).to.equal(0)
+
+            // Enough liquidity for the first request only
+            await vault.setAvailableLiquidity(STAKE_AMOUNT / 2n + 1n)
+            await expect(stakingManager.connect(user2).processWithdrawalQueue(10))
+                .to.emit(stakingManager, "WithdrawalFulfilled")
+                .withArgs(0, STAKE_AMOUNT / 2n, 0)
+            expect(await stakingManager.nextWithdrawalToFulfill()).to.equal(1)
+            expect(await stakingManager.getWithdrawalQueueInfo()).to.deep.equal([1n, EXPECTED_SHARES, STAKE_AMOUNT / 2n])
+
+            await vault.setAvailableLiquidity(ethers.MaxUint256)
+            await stakingManager.processWithdrawalQueue(10)
+            expect(await stakingManager.getWithdrawalQueueInfo()).to.deep.equal([0n, 0n, (STAKE_AMOUNT * 3n) / 2n])
+            expect(await stakingManager.totalSupply()).to.equal(EXPECTED_SHARES / 2n)
+        })
+
+        it("Should respect the maximum number of requests", async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user1.address, user1.address)
+            await stakingManager.connect(user2).requestWithdrawal(EXPECTED_SHARES, user2.address, user2.address)
+
+            await stakingManager.processWithdrawalQueue(1)
+            expect(await stakingManager.nextWithdrawalToFulfill()).to.equal(1)
+        })
+
+        it("Should wait for the cooldown before fulfilling", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setWithdrawalCooldown(DAY)
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user1.address, user1.address)
+
+            await expect(stakingManager.processWithdrawalQueue(10)).to.not.emit(stakingManager, "WithdrawalFulfilled")
+            await time.increase(DAY)
+            await expect(stakingManager.processWithdrawalQueue(10)).to.emit(stakingManager, "WithdrawalFulfilled")
+        })
+
+        it("Should charge the output fee on fulfillment", async function () {
+            const { stakingManager, user1 } = context
+            await stakingManager.setOutputFeeRate(500) // 5%
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user1.address, user1.address)
+
+            const feeAmount = (STAKE_AMOUNT * 500n) / 10000n
+            await expect(stakingManager.processWithdrawalQueue(10))
+                .to.emit(stakingManager, "WithdrawalFulfilled")
+                .withArgs(0, STAKE_AMOUNT - feeAmount, feeAmount)
+                .and.to.emit(stakingManager, "OutputFeeCollected")
+            expect(await stakingManager.totalFeeAssets()).to.equal(feeAmount)
+        })
+    })
+
+    describe("claimWithdrawal", function () {
+        beforeEach(async function () {
+            const { stakingManager, user1, user2 } = context
+            await stakingManager.connect(user1).requestWithdrawal(EXPECTED_SHARES, user2.address, user1.address)
+        })
+
+        it("Should send the assets to the receiver", async function () {
+            const { stakingManager, token, user1, user2 } = context
+            await stakingManager.processWithdrawalQueue(10)
+
+            const balanceBefore = await token.balanceOf(user2.address)
+            await expect(stakingManager.connect(user1).claimWithdrawal(0))
+                .to.emit(stakingManager, "WithdrawalClaimed")
+                .withArgs(0, user2.address, STAKE_AMOUNT)
+            expect((await token.balanceOf(user2.address)) - balanceBefore).to.equal(STAKE_AMOUNT)
+            expect(await stakingManager.getPendingWithdrawalRequests(user1.address)).to.deep.equal([])
+            expect(await stakingManager.claimableWithdrawalAssets()).to.equal(0)
+        })
+
+        it("Should revert before fulfillment and on a second claim", async function () {
+            const { stakingManager, user2 } = context
+            await expect(stakingManager.connect(user2).claimWithdrawal(0))
+                .to.be.revertedWithCustomError(stakingManager, "WithdrawalNotFulfilled")
+                .withArgs(0)
+
+            await stakingManager.processWithdrawalQueue(10)
+            await stakingManager.connect(user2).claimWithdrawal(0)
+            await expect(stakingManager.connect(user2).claimWithdrawal(0))
+                .to.be.revertedWithCustomError(stakingManager, "WithdrawalAlreadyClaimed")
+                .withArgs(0)
+        })
+
+        it("Should only allow the owner or receiver to claim", async function () {
+            const { stakingManager, owner } = context
+            await stakingManager.processWithdrawalQueue(10)
+            await expect(stakingManager.connect(owner).claimWithdrawal(0))
+                .to.be.revertedWithCustomError(stakingManager, "NotWithdrawalRequestParty")
+                .withArgs(0)
+            await expect(stakingManager.claimWithdrawal(5))
+                .to.be.revertedWithCustomError(stakingManager, "WithdrawalRequestNotFound")
+                .withArgs(5)
+        })
+    })
+
+    describe("setWithdrawalCooldown", function () {
+        it("Should update the cooldown", async function () {
+            const { stakingManager } = context
+            await expect(stakingManager.setWithdrawalCooldown(DAY))
+                .to.emit(stakingManager, "WithdrawalCooldownUpdated")
+                .withArgs(0, DAY)
+            expect(await stakingManager.withdrawalCooldown()).to.equal(DAY)
+        })
+
+        it("Should not allow a cooldown above the maximum", async function () {
+            const { stakingManager } = context
+            const maxCooldown = await stakingManager.MAX_WITHDRAWAL_COOLDOWN()
+            await expect(stakingManager.setWithdrawalCooldown(maxCooldown + 1n)).to.be.revertedWithCustomError(
+                stakingManager,
+                "InvalidWithdrawalCooldown"
+            )
+        })
+
+        it("Should only allow admin to set the cooldown", async function () {
+            const { stakingManager, user1 } = context
+            await expect(stakingManager.connect(user1).setWithdrawalCooldown(DAY)).to.be.revertedWithCustomError(
+                stakingManager,
+                "AccessControlUnauthorizedAccount"
+            )
+        })
+    })
+})
@@ -1,9 +1,10 @@
 import { ethers, upgrades } from "hardhat"
-import { StakingManager, MockMorphoVault, ERC20Token } from "../../typechain-types"
+import { IStakingManager, MockMorphoVault, ERC20Token } from "../../typechain-types"
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers"
+import { deployStakingModules } from "../../scripts/utils/modules"
 
 export interface TestContext {
-    stakingManager: StakingManager
+    stakingManager: IStakingManager
     token: ERC20Token
     vault: MockMorphoVault
     owner: HardhatEthersSigner
@@ -29,21 +30,24 @@ export async function setupTestEnvironment(): Promise<TestContext> {
     const vault = await MockMorphoVaultFactory.deploy(await token.getAddress())
     await vault.waitForDeployment()
 
-    // Deploy upgradeable StakingManager
+    // Deploy upgradeable StakingManager on its modules
     const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
-    const stakingManager = (await upgrades.deployProxy(
+    const proxy = await upgrades.deployProxy(
         StakingManagerFactory,
         [
             await vault.getAddress(),
             "Staking Manager Token",
             "SMT",
-            owner.address
+            owner.address,
+            0
         ],
         {
             initializer: 'initialize',
-            kind: 'uups'
+            kind: 'uups',
+            constructorArgs: await deployStakingModules()
         }
-    )) as unknown as StakingManager
+    )
+    const stakingManager = await ethers.getContractAt("IStakingManager", await proxy.getAddress())
 
     // Transfer tokens to users for testing
     await token.transfer(user1.address, INITIAL_BALANCE)
@@ -58,3 +62,20 @@ export async function setupTestEnvironment(): Promise<TestContext> {
         user2
     }
 }
+
+// Deploys a proxy on the V1 reference implementation and upgrades it to the current build
+// without running the reinitializers, so they can be exercised one by one
+export async function deployV1Proxy(context: TestContext): Promise<IStakingManager> {
+    const { vault, owner } = context
+    const proxy = await upgrades.deployProxy(
+        await ethers.getContractFactory("StakingManagerV1"),
+        [await vault.getAddress(), "Staking Manager Token", "SMT", owner.address],
+        { initializer: "initialize", kind: "uups" }
+    )
+    const StakingManagerFactory = await ethers.getContractFactory("StakingManager")
+    await upgrades.upgradeProxy(await proxy.getAddress(), StakingManagerFactory, {
+        kind: "uups",
+        constructorArgs: await deployStakingModules(),
+    })
+    return ethers.getContractAt("IStakingManager", await proxy.getAddress())
+}